@@ -1,8 +1,14 @@
 import { AudioPlayer } from './lib/play/AudioPlayer.js';
 import { ChatHistoryManager } from "./lib/util/ChatHistoryManager.js";
 
+// API key for servers with auth enabled, e.g. localStorage.setItem('apiKey', '...')
+const apiKey = localStorage.getItem('apiKey');
+
+// ?persona=<id> takes the prompt, voice and tools from a server-side persona profile
+const personaId = new URLSearchParams(window.location.search).get('persona');
+
 // Connect to the server
-const socket = io();
+const socket = io({ auth: apiKey ? { apiKey } : {} });
 
 // DOM elements
 const voiceBtn = document.getElementById('voice-btn');
@@ -521,7 +527,7 @@ function saveConfig() {
 async function loadAvailableTools() {
     const toolsList = document.getElementById('tools-list');
     try {
-        const response = await fetch('/api/tools');
+        const response = await fetch('/api/tools', { headers: apiKey ? { 'X-API-Key': apiKey } : {} });
         if (!response.ok) throw new Error('Failed to fetch tools');
         
         const data = await response.json();
@@ -951,7 +957,7 @@ async function initializeSession() {
                 turnDetectionConfig: {
                     endpointingSensitivity: responseTimingToSensitivity[config.responseTiming] || 'MEDIUM'
                 },
-                enabledTools: config.enabledTools
+                ...(personaId ? { persona: personaId } : { enabledTools: config.enabledTools })
             }, (ack) => {
                 clearTimeout(timeout);
                 if (ack?.success) resolve();
@@ -962,14 +968,15 @@ async function initializeSession() {
         // Update audio player sample rate BEFORE starting audio stream
         await audioPlayer.setSampleRate(config.outputSampleRate);
 
+        // With a persona, leaving out the voice and prompt lets the server use the persona's
         socket.emit('promptStart', { 
-            voiceId: config.voiceId,
+            voiceId: personaId ? undefined : config.voiceId,
             outputSampleRate: config.outputSampleRate 
         });
         
         socket.emit('systemPrompt', {
-            content: config.systemPrompt,
-            voiceId: config.voiceId
+            content: personaId ? '' : config.systemPrompt,
+            voiceId: personaId ? undefined : config.voiceId
         });
         socket.emit('audioStart');
 
@@ -1906,6 +1913,14 @@ socket.on('toolResult', (data) => {
     showAssistantThinkingIndicator();
 });
 
+socket.on('turnMetrics', (data) => {
+    console.log(`Turn ${data.turn} latency: first audio ${data.timeToFirstAudioMs ?? '-'}ms, transcription ${data.transcriptionMs ?? '-'}ms, tools ${data.toolMs}ms`, data);
+});
+
+socket.on('regionFailover', (data) => {
+    console.warn(`Session moved from ${data.from} to ${data.to} after ${data.error}`);
+});
+
 socket.on('streamComplete', () => {
     if (isStreaming) stopStreaming();
 });
@@ -1930,6 +1945,61 @@ socket.on('disconnect', () => {
     stopWaveformAnimation();
 });
 
+// Show a warning line in the chat
+function showSystemWarning(text) {
+    const warningDiv = document.createElement('div');
+    warningDiv.className = 'message system';
+    const warningIcon = document.createElement('span');
+    warningIcon.className = 'warning-icon';
+    warningIcon.textContent = '⚠️';
+    warningDiv.appendChild(warningIcon);
+    warningDiv.appendChild(document.createTextNode(' ' + text));
+    chatContainer.appendChild(warningDiv);
+    scrollToBottom();
+}
+
+// An administrator closed this session
+socket.on('sessionTerminated', (data) => {
+    console.warn('Session terminated:', data);
+    sessionInitialized = false;
+    if (isStreaming) stopStreaming();
+    showSystemWarning(data?.reason || 'Session closed by the server');
+});
+
+// Waiting for a free session; position 0 means the session is starting
+let queueNotice = null;
+socket.on('queueUpdate', (data) => {
+    if (!data?.position) {
+        queueNotice?.remove();
+        queueNotice = null;
+        return;
+    }
+    const text = `All assistants are busy. You are number ${data.position} in line.`;
+    if (queueNotice) {
+        queueNotice.lastChild.textContent = ' ' + text;
+    } else {
+        showSystemWarning(text);
+        queueNotice = chatContainer.lastElementChild;
+    }
+});
+
+// The session's or the day's usage budget is nearly used up, or used up
+socket.on('budgetWarning', (data) => {
+    console.warn('Budget warning:', data);
+    showSystemWarning(`This conversation is approaching its ${data?.scope === 'daily' ? 'daily ' : ''}usage limit.`);
+});
+
+socket.on('budgetExceeded', (data) => {
+    console.warn('Budget exceeded:', data);
+    showSystemWarning(`The ${data?.scope === 'daily' ? 'daily ' : ''}usage limit has been reached; this conversation will end shortly.`);
+});
+
+// The server is about to restart
+socket.on('drainNotice', (data) => {
+    console.warn('Drain notice:', data);
+    showSystemWarning(data?.message || 'The server is restarting soon');
+});
+
 socket.on('error', (error) => {
     console.error("Server error:", error);
     hideUserThinkingIndicator();
@@ -1941,15 +2011,7 @@ socket.on('error', (error) => {
         if (isStreaming) {
             stopStreaming();
         }
-        const errorDiv = document.createElement('div');
-        errorDiv.className = 'message system';
-        const warningIcon = document.createElement('span');
-        warningIcon.className = 'warning-icon';
-        warningIcon.textContent = '⚠️';
-        errorDiv.appendChild(warningIcon);
-        errorDiv.appendChild(document.createTextNode(' ' + error.details));
-        chatContainer.appendChild(errorDiv);
-        scrollToBottom();
+        showSystemWarning(error.details);
         return;
     }
     
@@ -0,0 +1,138 @@
+/**
+ * SessionMonitor - What each live session is doing, for the admin API
+ *
+ * Attached to each client with addSessionEventListener. Keeps, per active session,
+ * where it runs, which tools it called, its token usage across rollovers and its
+ * most recent events. Audio events are counted rather than kept, and kept events are
+ * redacted like logs. A session is forgotten when it ends.
+ */
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { redactIfEnabled } from '../logging';
+
+export const DEFAULT_EVENT_HISTORY = 100;
+
+// High-volume events summarized by count only
+const COUNTED_EVENTS = new Set(['audioInput', 'audioOutput', 'usageEvent']);
+
+export interface MonitoredEvent {
+    type: string;
+    timestamp: string;
+    data?: unknown;
+}
+
+export interface SessionTokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface MonitoredSession {
+    sessionId: string;
+    region: string;
+    tenant?: string;
+    source?: string;
+    persona?: string;
+    startedAt: number;
+    /** Distinct tools called, in first-call order */
+    toolsUsed: string[];
+    tokens: SessionTokenUsage;
+    audioInputChunks: number;
+    audioOutputChunks: number;
+    rollovers: number;
+}
+
+interface SessionRecord extends MonitoredSession {
+    events: MonitoredEvent[];
+    // Running totals of the current stream, which restart on rollover
+    streamTotals: SessionTokenUsage;
+}
+
+export class SessionMonitor {
+    private sessions = new Map<string, SessionRecord>();
+
+    constructor(private readonly eventHistory: number = parseInt(process.env.ADMIN_EVENT_HISTORY || '') || DEFAULT_EVENT_HISTORY) { }
+
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => this.handleEvent(sessionId, eventType, data));
+    }
+
+    get(sessionId: string): MonitoredSession | undefined {
+        const record = this.sessions.get(sessionId);
+        if (!record) return undefined;
+        const { events: _events, streamTotals: _streamTotals, ...session } = record;
+        return { ...session, toolsUsed: [...session.toolsUsed], tokens: { ...session.tokens } };
+    }
+
+    /** The session's most recent events, oldest first */
+    getEvents(sessionId: string, limit = this.eventHistory): MonitoredEvent[] | undefined {
+        const record = this.sessions.get(sessionId);
+        return record?.events.slice(-limit);
+    }
+
+    private handleEvent(sessionId: string, eventType: string, data: any): void {
+        if (eventType === 'sessionStart') {
+            this.sessions.set(sessionId, {
+                sessionId,
+                region: data?.region,
+                tenant: data?.metadata?.tenant,
+                source: data?.metadata?.source,
+                persona: data?.metadata?.persona,
+                startedAt: Date.now(),
+                toolsUsed: [],
+                tokens: { inputTokens: 0, outputTokens: 0 },
+                audioInputChunks: 0,
+                audioOutputChunks: 0,
+                rollovers: 0,
+                events: [],
+                streamTotals: { inputTokens: 0, outputTokens: 0 }
+            });
+        }
+
+        const record = this.sessions.get(sessionId);
+        if (!record) return;
+
+        switch (eventType) {
+            case 'audioInput':
+                record.audioInputChunks++;
+                break;
+            case 'audioOutput':
+                record.audioOutputChunks++;
+                break;
+            case 'usageEvent':
+                this.recordUsage(record, data?.usageEvent ?? data);
+                break;
+            case 'toolUse':
+                if (data?.toolName && !record.toolsUsed.includes(data.toolName)) {
+                    record.toolsUsed.push(data.toolName);
+                }
+                break;
+            case 'sessionRollover':
+                record.rollovers++;
+                break;
+            case 'regionFailover':
+                record.region = data?.to ?? record.region;
+                break;
+        }
+
+        if (eventType === 'sessionEnd') {
+            this.sessions.delete(sessionId);
+            return;
+        }
+        if (!COUNTED_EVENTS.has(eventType)) {
+            record.events.push({ type: eventType, timestamp: new Date().toISOString(), data: redactIfEnabled(data) });
+            if (record.events.length > this.eventHistory) {
+                record.events.splice(0, record.events.length - this.eventHistory);
+            }
+        }
+    }
+
+    private recordUsage(record: SessionRecord, usage: any): void {
+        for (const key of ['inputTokens', 'outputTokens'] as const) {
+            const value = key === 'inputTokens' ? usage?.totalInputTokens : usage?.totalOutputTokens;
+            if (typeof value !== 'number') continue;
+            const previous = record.streamTotals[key];
+            // A smaller total means a rollover started a new stream
+            record.tokens[key] += value >= previous ? value - previous : value;
+            record.streamTotals[key] = value;
+        }
+    }
+}
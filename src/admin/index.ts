@@ -0,0 +1,5 @@
+/**
+ * Live session inspection for the admin API
+ */
+export { SessionMonitor, DEFAULT_EVENT_HISTORY } from './SessionMonitor';
+export type { MonitoredSession, MonitoredEvent, SessionTokenUsage } from './SessionMonitor';
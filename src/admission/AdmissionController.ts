@@ -0,0 +1,264 @@
+/**
+ * AdmissionController - Stream slots per region and tenant, and the queue for them
+ *
+ * Each region's HTTP/2 connection carries at most maxConcurrentStreams streams, so a
+ * session only starts once its region (any of its candidate regions, in preference
+ * order) and its tenant (maxConcurrentSessions) have a free slot. Sessions that can't
+ * start wait in one FIFO queue; a waiting session is admitted as soon as its own
+ * region and tenant have room, even if sessions ahead of it are still blocked on
+ * theirs. Waiting sessions are told their position whenever it changes and give up
+ * after ADMISSION_MAX_WAIT_SEC (default 300).
+ */
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Admission' });
+
+export const DEFAULT_MAX_QUEUE_LENGTH = 50;
+export const DEFAULT_MAX_WAIT_MS = 300_000;
+
+export class AdmissionError extends Error {
+    constructor(message: string, readonly reason: 'queueFull' | 'timeout' | 'aborted') {
+        super(message);
+        this.name = 'AdmissionError';
+    }
+}
+
+export interface QueueUpdate {
+    /** 1 for the next session to start among those competing for the same slots */
+    position: number;
+    /** Sessions waiting across all regions and tenants */
+    queueLength: number;
+    waitedMs: number;
+}
+
+export interface AdmissionRequest {
+    /** Holder of the slot, e.g. the socket ID or the call's stream SID */
+    key: string;
+    /** Regions the session may start in, preferred first */
+    regions: string[];
+    tenantId?: string;
+    /** The tenant's maxConcurrentSessions; unlimited when undefined */
+    tenantLimit?: number;
+    /** Stops waiting, e.g. when the caller hangs up */
+    signal?: AbortSignal;
+    /** Called when the session has to wait, and again whenever its position changes */
+    onQueued?: (update: QueueUpdate) => void;
+}
+
+export interface AdmissionOptions {
+    /** Sessions per region */
+    regionCapacity: number;
+    maxQueueLength: number;
+    maxWaitMs: number;
+}
+
+export function admissionOptionsFromEnv(regionCapacity: number): AdmissionOptions {
+    const capacity = parseInt(process.env.ADMISSION_REGION_CAPACITY || '');
+    const queueLength = parseInt(process.env.ADMISSION_MAX_QUEUE || '');
+    const waitSec = parseFloat(process.env.ADMISSION_MAX_WAIT_SEC || '');
+    return {
+        regionCapacity: capacity > 0 ? capacity : regionCapacity,
+        maxQueueLength: queueLength >= 0 ? queueLength : DEFAULT_MAX_QUEUE_LENGTH,
+        maxWaitMs: Number.isFinite(waitSec) && waitSec > 0 ? waitSec * 1000 : DEFAULT_MAX_WAIT_MS
+    };
+}
+
+export interface AdmissionStatus {
+    regionCapacity: number;
+    /** Admitted sessions per region */
+    regions: Record<string, number>;
+    /** Admitted sessions per tenant */
+    tenants: Record<string, number>;
+    queueLength: number;
+    /** How long the longest-waiting session has waited */
+    oldestWaitMs?: number;
+}
+
+interface Holder {
+    region: string;
+    tenantId?: string;
+}
+
+interface Waiter {
+    request: AdmissionRequest;
+    queuedAt: number;
+    position?: number;
+    resolve: (region: string) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+    onAbort: () => void;
+}
+
+export class AdmissionController {
+    private holders = new Map<string, Holder>();
+    private regionCounts = new Map<string, number>();
+    private tenantCounts = new Map<string, number>();
+    private queue: Waiter[] = [];
+
+    constructor(private readonly options: AdmissionOptions) { }
+
+    /**
+     * Releases slots when sessions end and moves them along when a session fails
+     * over to another region
+     */
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => {
+            if (eventType === 'sessionEnd') {
+                this.release(sessionId);
+            } else if (eventType === 'regionFailover' && data?.to) {
+                this.move(sessionId, data.to);
+            }
+        });
+    }
+
+    /**
+     * Resolves with the region whose slot the session holds, once it has one. A key
+     * that already holds a slot in one of the regions keeps it, so a connection
+     * replacing its own session doesn't wait behind others. Rejects with an
+     * AdmissionError when the queue is full, the wait times out or the signal aborts.
+     */
+    admit(request: AdmissionRequest): Promise<string> {
+        const held = this.holders.get(request.key);
+        if (held && request.regions.includes(held.region)) return Promise.resolve(held.region);
+        this.release(request.key);
+
+        // Waiting sessions are admitted as soon as they can be, so none could use this slot
+        const region = this.freeRegion(request);
+        if (region) {
+            this.hold(request, region);
+            return Promise.resolve(region);
+        }
+        if (this.queue.length >= this.options.maxQueueLength) {
+            log.warn('Admission queue full, rejecting session', { sessionId: request.key, tenant: request.tenantId });
+            return Promise.reject(new AdmissionError('All sessions are busy and the waiting room is full; try again later', 'queueFull'));
+        }
+        if (request.signal?.aborted) {
+            return Promise.reject(new AdmissionError('Stopped waiting for a session slot', 'aborted'));
+        }
+
+        return new Promise<string>((resolve, reject) => {
+            const waiter: Waiter = {
+                request,
+                queuedAt: Date.now(),
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    this.leave(waiter, new AdmissionError(`No session slot freed up within ${Math.round(this.options.maxWaitMs / 1000)}s`, 'timeout'));
+                }, this.options.maxWaitMs),
+                onAbort: () => this.leave(waiter, new AdmissionError('Stopped waiting for a session slot', 'aborted'))
+            };
+            request.signal?.addEventListener('abort', waiter.onAbort, { once: true });
+            this.queue.push(waiter);
+            log.info('Session queued', { sessionId: request.key, tenant: request.tenantId, regions: request.regions, queueLength: this.queue.length });
+            this.notifyPositions();
+        });
+    }
+
+    /** Free the key's slot, if it holds one, and admit whoever can use it */
+    release(key: string): void {
+        const holder = this.holders.get(key);
+        if (!holder) return;
+
+        this.holders.delete(key);
+        this.decrement(this.regionCounts, holder.region);
+        if (holder.tenantId !== undefined) this.decrement(this.tenantCounts, holder.tenantId);
+        this.pump();
+    }
+
+    getStatus(): AdmissionStatus {
+        return {
+            regionCapacity: this.options.regionCapacity,
+            regions: Object.fromEntries(this.regionCounts),
+            tenants: Object.fromEntries(this.tenantCounts),
+            queueLength: this.queue.length,
+            oldestWaitMs: this.queue.length > 0 ? Date.now() - this.queue[0].queuedAt : undefined
+        };
+    }
+
+    // The session now streams in another region; over capacity there until someone leaves
+    private move(key: string, region: string): void {
+        const holder = this.holders.get(key);
+        if (!holder || holder.region === region) return;
+
+        this.decrement(this.regionCounts, holder.region);
+        holder.region = region;
+        this.regionCounts.set(region, (this.regionCounts.get(region) ?? 0) + 1);
+        this.pump();
+    }
+
+    private freeRegion(request: AdmissionRequest): string | undefined {
+        if (request.tenantId !== undefined && request.tenantLimit !== undefined
+            && (this.tenantCounts.get(request.tenantId) ?? 0) >= request.tenantLimit) {
+            return undefined;
+        }
+        return request.regions.find(region => (this.regionCounts.get(region) ?? 0) < this.options.regionCapacity);
+    }
+
+    // Whether two sessions wait for the same kind of slot
+    private competes(a: AdmissionRequest, b: AdmissionRequest): boolean {
+        if (a.tenantId !== undefined && a.tenantId === b.tenantId) return true;
+        return a.regions.some(region => b.regions.includes(region));
+    }
+
+    private hold(request: AdmissionRequest, region: string): void {
+        this.holders.set(request.key, { region, tenantId: request.tenantId });
+        this.regionCounts.set(region, (this.regionCounts.get(region) ?? 0) + 1);
+        if (request.tenantId !== undefined) {
+            this.tenantCounts.set(request.tenantId, (this.tenantCounts.get(request.tenantId) ?? 0) + 1);
+        }
+    }
+
+    private decrement(counts: Map<string, number>, key: string): void {
+        const count = (counts.get(key) ?? 0) - 1;
+        if (count > 0) counts.set(key, count);
+        else counts.delete(key);
+    }
+
+    // Admit waiting sessions, oldest first, for as long as slots are free
+    private pump(): void {
+        let admitted = false;
+        for (const waiter of [...this.queue]) {
+            const region = this.freeRegion(waiter.request);
+            if (!region) continue;
+
+            this.remove(waiter);
+            this.hold(waiter.request, region);
+            log.info('Session admitted from queue', { sessionId: waiter.request.key, region, waitedMs: Date.now() - waiter.queuedAt });
+            waiter.resolve(region);
+            admitted = true;
+        }
+        if (admitted) this.notifyPositions();
+    }
+
+    private leave(waiter: Waiter, error: AdmissionError): void {
+        if (!this.queue.includes(waiter)) return;
+
+        this.remove(waiter);
+        log.info('Session left the queue', { sessionId: waiter.request.key, reason: error.reason, waitedMs: Date.now() - waiter.queuedAt });
+        waiter.reject(error);
+        this.notifyPositions();
+    }
+
+    private remove(waiter: Waiter): void {
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        clearTimeout(waiter.timer);
+        waiter.request.signal?.removeEventListener('abort', waiter.onAbort);
+    }
+
+    private notifyPositions(): void {
+        const now = Date.now();
+        this.queue.forEach((waiter, index) => {
+            const ahead = this.queue.slice(0, index).filter(other => this.competes(other.request, waiter.request)).length;
+            const position = ahead + 1;
+            if (position === waiter.position) return;
+
+            waiter.position = position;
+            try {
+                waiter.request.onQueued?.({ position, queueLength: this.queue.length, waitedMs: now - waiter.queuedAt });
+            } catch (error) {
+                log.error('Error in queue update handler', { sessionId: waiter.request.key, error });
+            }
+        });
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * Admission control: stream slots per region and tenant, and the waiting room for them
+ */
+export { AdmissionController, AdmissionError, admissionOptionsFromEnv, DEFAULT_MAX_QUEUE_LENGTH, DEFAULT_MAX_WAIT_MS } from './AdmissionController';
+export type { AdmissionOptions, AdmissionRequest, AdmissionStatus, QueueUpdate } from './AdmissionController';
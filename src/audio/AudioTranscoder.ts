@@ -0,0 +1,121 @@
+/**
+ * AudioTranscoder - Converts a stream of audio chunks between two formats
+ *
+ * decode (μ-law / A-law / PCM16) → downmix to mono → resample → encode.
+ * Stateful: keeps partial frames and resampler history between chunks, so use one
+ * instance per direction per session.
+ */
+import { AudioFormat } from '../types';
+import { decodeALaw, decodeMuLaw, encodeALaw, encodeMuLaw } from './g711';
+import { Resampler } from './Resampler';
+
+const SUPPORTED_ENCODINGS = ['pcm16', 'mulaw', 'alaw'];
+
+/** Nova Sonic's LPCM format at a given rate */
+export function lpcmFormat(sampleRate: number): AudioFormat {
+    return { encoding: 'pcm16', sampleRate, channels: 1 };
+}
+
+function bytesPerSample(format: AudioFormat): number {
+    return format.encoding === 'pcm16' ? 2 : 1;
+}
+
+function assertFormat(format: AudioFormat): void {
+    if (!SUPPORTED_ENCODINGS.includes(format.encoding)) {
+        throw new Error(`Unsupported audio encoding "${format.encoding}"`);
+    }
+    if (!Number.isInteger(format.channels) || format.channels < 1) {
+        throw new Error(`Invalid channel count ${format.channels}`);
+    }
+}
+
+function decode(data: Buffer, format: AudioFormat): Int16Array {
+    switch (format.encoding) {
+        case 'mulaw':
+            return decodeMuLaw(data);
+        case 'alaw':
+            return decodeALaw(data);
+        default: {
+            const samples = new Int16Array(data.length / 2);
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = data.readInt16LE(i * 2);
+            }
+            return samples;
+        }
+    }
+}
+
+function encode(samples: Int16Array, format: AudioFormat): Buffer {
+    switch (format.encoding) {
+        case 'mulaw':
+            return encodeMuLaw(samples);
+        case 'alaw':
+            return encodeALaw(samples);
+        default: {
+            const data = Buffer.alloc(samples.length * 2);
+            for (let i = 0; i < samples.length; i++) {
+                data.writeInt16LE(samples[i], i * 2);
+            }
+            return data;
+        }
+    }
+}
+
+function downmix(samples: Int16Array, channels: number): Int16Array {
+    if (channels === 1) return samples;
+    const mono = new Int16Array(Math.floor(samples.length / channels));
+    for (let i = 0; i < mono.length; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+            sum += samples[i * channels + c];
+        }
+        mono[i] = Math.round(sum / channels);
+    }
+    return mono;
+}
+
+function upmix(samples: Int16Array, channels: number): Int16Array {
+    if (channels === 1) return samples;
+    const interleaved = new Int16Array(samples.length * channels);
+    for (let i = 0; i < samples.length; i++) {
+        interleaved.fill(samples[i], i * channels, (i + 1) * channels);
+    }
+    return interleaved;
+}
+
+export function isSameFormat(a: AudioFormat, b: AudioFormat): boolean {
+    return a.encoding === b.encoding && a.sampleRate === b.sampleRate && a.channels === b.channels;
+}
+
+export class AudioTranscoder {
+    private readonly resampler: Resampler;
+    private readonly frameBytes: number;
+    /** Bytes of an incomplete frame carried over to the next chunk */
+    private remainder = Buffer.alloc(0);
+
+    constructor(readonly from: AudioFormat, readonly to: AudioFormat) {
+        assertFormat(from);
+        assertFormat(to);
+        this.resampler = new Resampler(from.sampleRate, to.sampleRate);
+        this.frameBytes = bytesPerSample(from) * from.channels;
+    }
+
+    get isPassthrough(): boolean {
+        return isSameFormat(this.from, this.to);
+    }
+
+    transcode(chunk: Buffer): Buffer {
+        if (this.isPassthrough) {
+            return chunk;
+        }
+
+        let data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+        const usable = data.length - (data.length % this.frameBytes);
+        this.remainder = Buffer.from(data.subarray(usable));
+        data = data.subarray(0, usable);
+
+        const mono = downmix(decode(data, this.from), this.from.channels);
+        const resampled = this.resampler.process(mono);
+        return encode(upmix(resampled, this.to.channels), this.to);
+    }
+}
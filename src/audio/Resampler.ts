@@ -0,0 +1,107 @@
+/**
+ * Streaming sample-rate converter for 16-bit mono PCM
+ *
+ * Polyphase windowed-sinc FIR: the input is conceptually upsampled by L, low-pass
+ * filtered below the lower of the two Nyquist frequencies and decimated by M, where
+ * L/M is the reduced rate ratio (e.g. 8k→16k is 2/1, 24k→8k is 1/3). Filter state is
+ * kept between chunks so chunk boundaries don't click.
+ */
+
+// Filter taps per polyphase branch; 32 keeps aliasing well below telephony noise
+const TAPS_PER_PHASE = 32;
+// Cutoff as a fraction of the target Nyquist, leaving room for the transition band
+const CUTOFF_RATIO = 0.92;
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+function blackman(n: number, length: number): number {
+    const x = (2 * Math.PI * n) / (length - 1);
+    return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+}
+
+export class Resampler {
+    private readonly up: number;
+    private readonly down: number;
+    /** phases[p][j] is tap p + j*L of the prototype filter */
+    private readonly phases: Float32Array[];
+    /** Last TAPS_PER_PHASE - 1 input samples of the previous chunk */
+    private history = new Float32Array(TAPS_PER_PHASE - 1);
+    /** Upsampled-rate position of the next output sample, relative to the next chunk */
+    private position = 0;
+
+    constructor(readonly fromRate: number, readonly toRate: number) {
+        if (!Number.isInteger(fromRate) || !Number.isInteger(toRate) || fromRate <= 0 || toRate <= 0) {
+            throw new Error(`Invalid sample rates ${fromRate} -> ${toRate}`);
+        }
+        const divisor = gcd(fromRate, toRate);
+        this.up = toRate / divisor;
+        this.down = fromRate / divisor;
+        this.phases = this.designFilter();
+    }
+
+    get isPassthrough(): boolean {
+        return this.up === this.down;
+    }
+
+    process(input: Int16Array): Int16Array {
+        if (this.isPassthrough) {
+            return input;
+        }
+
+        const historyLength = this.history.length;
+        const samples = new Float32Array(historyLength + input.length);
+        samples.set(this.history);
+        samples.set(input, historyLength);
+
+        const output: number[] = [];
+        let t = this.position;
+        while (Math.floor(t / this.up) < input.length) {
+            const base = Math.floor(t / this.up) + historyLength;
+            const taps = this.phases[t % this.up];
+            let acc = 0;
+            for (let j = 0; j < taps.length; j++) {
+                acc += taps[j] * samples[base - j];
+            }
+            output.push(Math.max(-32768, Math.min(32767, Math.round(acc))));
+            t += this.down;
+        }
+
+        this.position = t - input.length * this.up;
+        this.history = samples.slice(samples.length - historyLength);
+        return Int16Array.from(output);
+    }
+
+    /**
+     * Low-pass prototype at the upsampled rate, split into L polyphase branches.
+     * Each branch is normalized to unity DC gain.
+     */
+    private designFilter(): Float32Array[] {
+        const length = TAPS_PER_PHASE * this.up;
+        const cutoff = (0.5 / Math.max(this.up, this.down)) * CUTOFF_RATIO;
+        const center = (length - 1) / 2;
+
+        const prototype = new Float64Array(length);
+        for (let n = 0; n < length; n++) {
+            const x = n - center;
+            const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+            prototype[n] = sinc * blackman(n, length);
+        }
+
+        const phases: Float32Array[] = [];
+        for (let p = 0; p < this.up; p++) {
+            const taps = new Float32Array(TAPS_PER_PHASE);
+            let sum = 0;
+            for (let j = 0; j < TAPS_PER_PHASE; j++) {
+                taps[j] = prototype[p + j * this.up];
+                sum += taps[j];
+            }
+            for (let j = 0; j < TAPS_PER_PHASE; j++) {
+                taps[j] /= sum;
+            }
+            phases.push(taps);
+        }
+        return phases;
+    }
+}
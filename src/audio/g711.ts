@@ -0,0 +1,110 @@
+/**
+ * G.711 μ-law and A-law codecs (ITU-T G.711), as used by telephony carriers
+ *
+ * Each byte is one companded 8-bit sample; decoding yields 16-bit linear PCM.
+ */
+
+const SIGN_BIT = 0x80;
+const QUANT_MASK = 0x0f;
+const SEG_SHIFT = 4;
+const SEG_MASK = 0x70;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 8159;
+const MULAW_SEG_END = [0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff];
+const ALAW_SEG_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function segment(value: number, table: number[]): number {
+    for (let i = 0; i < table.length; i++) {
+        if (value <= table[i]) return i;
+    }
+    return table.length;
+}
+
+function muLawToLinear(uVal: number): number {
+    const u = ~uVal & 0xff;
+    let t = ((u & QUANT_MASK) << 3) + MULAW_BIAS;
+    t <<= (u & SEG_MASK) >> SEG_SHIFT;
+    return (u & SIGN_BIT) ? MULAW_BIAS - t : t - MULAW_BIAS;
+}
+
+function linearToMuLaw(sample: number): number {
+    let pcm = sample >> 2;
+    let mask: number;
+    if (pcm < 0) {
+        pcm = -pcm;
+        mask = 0x7f;
+    } else {
+        mask = 0xff;
+    }
+    if (pcm > MULAW_CLIP) pcm = MULAW_CLIP;
+    pcm += MULAW_BIAS >> 2;
+
+    const seg = segment(pcm, MULAW_SEG_END);
+    if (seg >= 8) return 0x7f ^ mask;
+    return ((seg << SEG_SHIFT) | ((pcm >> (seg + 1)) & QUANT_MASK)) ^ mask;
+}
+
+function aLawToLinear(aVal: number): number {
+    const a = aVal ^ 0x55;
+    let t = (a & QUANT_MASK) << 4;
+    const seg = (a & SEG_MASK) >> SEG_SHIFT;
+    if (seg === 0) {
+        t += 8;
+    } else {
+        t = (t + 0x108) << (seg - 1);
+    }
+    return (a & SIGN_BIT) ? t : -t;
+}
+
+function linearToALaw(sample: number): number {
+    let pcm = sample >> 3;
+    let mask: number;
+    if (pcm >= 0) {
+        mask = 0xd5;
+    } else {
+        mask = 0x55;
+        pcm = -pcm - 1;
+    }
+
+    const seg = segment(pcm, ALAW_SEG_END);
+    if (seg >= 8) return 0x7f ^ mask;
+    const quantized = seg < 2 ? (pcm >> 1) & QUANT_MASK : (pcm >> seg) & QUANT_MASK;
+    return ((seg << SEG_SHIFT) | quantized) ^ mask;
+}
+
+// Decoding is a straight table lookup
+const MULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, i) => muLawToLinear(i));
+const ALAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, i) => aLawToLinear(i));
+
+export function decodeMuLaw(data: Uint8Array): Int16Array {
+    const samples = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+        samples[i] = MULAW_DECODE_TABLE[data[i]];
+    }
+    return samples;
+}
+
+export function encodeMuLaw(samples: Int16Array): Buffer {
+    const data = Buffer.alloc(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        data[i] = linearToMuLaw(samples[i]);
+    }
+    return data;
+}
+
+export function decodeALaw(data: Uint8Array): Int16Array {
+    const samples = new Int16Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+        samples[i] = ALAW_DECODE_TABLE[data[i]];
+    }
+    return samples;
+}
+
+export function encodeALaw(samples: Int16Array): Buffer {
+    const data = Buffer.alloc(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        data[i] = linearToALaw(samples[i]);
+    }
+    return data;
+}
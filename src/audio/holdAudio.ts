@@ -0,0 +1,63 @@
+/**
+ * Hold audio played to telephony callers while they wait for a free session
+ *
+ * A recorded message (16-bit PCM WAV, any rate, mono or stereo) is converted once to
+ * the carrier's format and looped. Without one, a soft two-note chime every few
+ * seconds tells the caller the line is still open.
+ */
+import fs from 'fs';
+import { AudioFormat } from '../types';
+import { AudioTranscoder, lpcmFormat } from './AudioTranscoder';
+
+const CHIME_RATE = 16000;
+const CHIME_NOTES_HZ = [660, 880];
+const CHIME_NOTE_MS = 250;
+const CHIME_PERIOD_MS = 5000;
+
+// The fmt and data chunks of a RIFF/WAVE file
+function readWav(data: Buffer): { format: AudioFormat; samples: Buffer } {
+    if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Not a WAV file');
+    }
+    let format: AudioFormat | undefined;
+    for (let offset = 12; offset + 8 <= data.length;) {
+        const id = data.toString('ascii', offset, offset + 4);
+        const size = data.readUInt32LE(offset + 4);
+        const body = offset + 8;
+        if (id === 'fmt ') {
+            if (data.readUInt16LE(body) !== 1 || data.readUInt16LE(body + 14) !== 16) {
+                throw new Error('Only 16-bit PCM WAV files are supported');
+            }
+            format = { encoding: 'pcm16', sampleRate: data.readUInt32LE(body + 4), channels: data.readUInt16LE(body + 2) };
+        } else if (id === 'data') {
+            if (!format) throw new Error('WAV data chunk before fmt chunk');
+            return { format, samples: data.subarray(body, Math.min(body + size, data.length)) };
+        }
+        offset = body + size + (size % 2);
+    }
+    throw new Error('WAV file has no data chunk');
+}
+
+function chime(): Buffer {
+    const samples = Buffer.alloc((CHIME_RATE * CHIME_PERIOD_MS / 1000) * 2);
+    const noteSamples = CHIME_RATE * CHIME_NOTE_MS / 1000;
+    CHIME_NOTES_HZ.forEach((frequency, note) => {
+        for (let i = 0; i < noteSamples; i++) {
+            // Sine with a decaying envelope, so notes fade rather than click off
+            const envelope = Math.min(1, i / 80) * Math.exp(-4 * i / noteSamples);
+            const value = Math.sin(2 * Math.PI * frequency * i / CHIME_RATE) * envelope * 6000;
+            samples.writeInt16LE(Math.round(value), (note * noteSamples + i) * 2);
+        }
+    });
+    return samples;
+}
+
+/**
+ * One loop of hold audio in `format`: the WAV file at `file`, or the built-in chime
+ */
+export function loadHoldAudio(format: AudioFormat, file?: string): Buffer {
+    const { format: source, samples } = file
+        ? readWav(fs.readFileSync(file))
+        : { format: lpcmFormat(CHIME_RATE), samples: chime() };
+    return new AudioTranscoder(source, format).transcode(samples);
+}
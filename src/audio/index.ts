@@ -0,0 +1,7 @@
+/**
+ * Audio format conversion for transports whose native format differs from Nova Sonic's
+ */
+export { AudioTranscoder, lpcmFormat, isSameFormat } from './AudioTranscoder';
+export { Resampler } from './Resampler';
+export { decodeMuLaw, encodeMuLaw, decodeALaw, encodeALaw } from './g711';
+export { loadHoldAudio } from './holdAudio';
@@ -0,0 +1,50 @@
+/**
+ * API key authentication - each key maps to one tenant
+ *
+ * Keys are looked up by their SHA-256 digest, so comparison time doesn't depend on
+ * how much of a guessed key matches.
+ */
+import crypto from 'crypto';
+import { AuthConfig } from './AuthConfig';
+import { AuthError, AuthPrincipal, Authenticator, Credentials, Tenant } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Auth' });
+
+function digest(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export class ApiKeyAuthenticator implements Authenticator {
+    readonly name = 'apiKey';
+    private tenantsByKey = new Map<string, Tenant>();
+
+    constructor(config: AuthConfig, tenants: Map<string, Tenant>) {
+        for (const [tenantId, tenantConfig] of Object.entries(config.tenants)) {
+            for (const key of tenantConfig.apiKeys || []) {
+                // ${env:...} placeholders for unset variables render as empty strings
+                if (!key) continue;
+                if (this.tenantsByKey.has(digest(key))) {
+                    log.warn(`API key for tenant ${tenantId} is also used by another tenant; keeping the first`);
+                    continue;
+                }
+                this.tenantsByKey.set(digest(key), tenants.get(tenantId)!);
+            }
+        }
+    }
+
+    async authenticate(credentials: Credentials): Promise<AuthPrincipal | undefined> {
+        const key = credentials.apiKey ?? credentials.bearerToken;
+        if (!key) return undefined;
+
+        const tenant = this.tenantsByKey.get(digest(key));
+        if (tenant) {
+            return { tenant, method: this.name };
+        }
+        // A bearer token may still be a JWT for the next authenticator
+        if (credentials.apiKey) {
+            throw new AuthError('Invalid API key');
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Auth configuration - tenants, their API keys and limits, and JWT verification settings
+ *
+ * Loaded from config/auth.json (or AUTH_CONFIG_PATH). String values may use ${env:NAME}
+ * so keys and secrets stay out of the file.
+ */
+import fs from 'fs';
+import path from 'path';
+import { Tenant } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Auth' });
+
+export interface TenantConfig extends Omit<Tenant, 'id'> {
+    /** API keys that authenticate as this tenant */
+    apiKeys?: string[];
+}
+
+export interface JwtConfig {
+    /** Shared secret for HS256/384/512 tokens */
+    secret?: string;
+    /** PEM public key for RS256/ES256 tokens */
+    publicKey?: string;
+    issuer?: string;
+    audience?: string;
+    /** Claim holding the tenant ID (default "tenant") */
+    tenantClaim?: string;
+    /** Allowed clock difference when checking exp/nbf, in seconds (default 30) */
+    clockToleranceSec?: number;
+    /** Longest lifetime (exp - iat, or exp - now without iat) accepted, in seconds (default 86400) */
+    maxLifetimeSec?: number;
+}
+
+export interface AuthConfig {
+    /** When false every request is accepted as the unrestricted default tenant */
+    enabled: boolean;
+    tenants: Record<string, TenantConfig>;
+    jwt?: JwtConfig;
+    /** Credential for the admin API, also accepted when auth is disabled */
+    adminToken?: string;
+}
+
+export const DEFAULT_AUTH_CONFIG_PATH = path.join(process.cwd(), 'config', 'auth.json');
+
+function renderEnv<T>(value: T): T {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{env:([A-Za-z0-9_]+)\}/g, (_match, name: string) => process.env[name] ?? '') as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(renderEnv) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, renderEnv(entry)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Load the auth configuration. Auth is enabled when the file defines tenants or a JWT
+ * key, unless AUTH_ENABLED says otherwise; without a file the server stays open as before.
+ *
+ * Env:
+ * - AUTH_CONFIG_PATH: path to the JSON config file
+ * - AUTH_ENABLED: true/false, overrides the detection above
+ * - AUTH_JWT_SECRET: JWT shared secret (overrides jwt.secret)
+ * - ADMIN_TOKEN: admin API credential; without auth it is the only way to reach the admin API
+ */
+export function loadAuthConfig(configPath: string = process.env.AUTH_CONFIG_PATH || DEFAULT_AUTH_CONFIG_PATH): AuthConfig {
+    let config: AuthConfig = { enabled: false, tenants: {} };
+
+    if (fs.existsSync(configPath)) {
+        try {
+            const parsed = renderEnv(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+            config = { enabled: false, tenants: parsed.tenants || {}, jwt: parsed.jwt };
+            log.info(`Loaded auth config from ${configPath}`);
+        } catch (error) {
+            throw new Error(`Invalid auth config ${configPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    if (process.env.AUTH_JWT_SECRET) {
+        config.jwt = { ...config.jwt, secret: process.env.AUTH_JWT_SECRET };
+    }
+
+    if (process.env.ADMIN_TOKEN) {
+        config.adminToken = process.env.ADMIN_TOKEN;
+    }
+
+    config.enabled = process.env.AUTH_ENABLED !== undefined
+        ? process.env.AUTH_ENABLED === 'true'
+        : Object.keys(config.tenants).length > 0 || !!(config.jwt?.secret || config.jwt?.publicKey);
+
+    return config;
+}
@@ -0,0 +1,82 @@
+/**
+ * AuthService - Turns credentials into a tenant principal
+ *
+ * Authenticators are tried in order (API keys, then JWTs); more can be added with
+ * use(), e.g. for an external identity provider. With auth disabled every request
+ * runs as the unrestricted "default" tenant, which isn't an admin; the admin API then
+ * needs ADMIN_TOKEN.
+ */
+import crypto from 'crypto';
+import { AuthConfig, loadAuthConfig } from './AuthConfig';
+import { ApiKeyAuthenticator } from './ApiKeyAuthenticator';
+import { JwtAuthenticator } from './JwtAuthenticator';
+import { AuthError, AuthPrincipal, Authenticator, Credentials, Tenant } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Auth' });
+
+const DEFAULT_TENANT: Tenant = { id: 'default' };
+const ADMIN_TENANT: Tenant = { id: 'admin', admin: true };
+
+function digest(value: string): Buffer {
+    return crypto.createHash('sha256').update(value).digest();
+}
+
+export class AuthService {
+    readonly enabled: boolean;
+    private tenants = new Map<string, Tenant>();
+    private authenticators: Authenticator[] = [];
+    private adminTokenDigest?: Buffer;
+
+    constructor(config: AuthConfig = loadAuthConfig()) {
+        this.enabled = config.enabled;
+        this.adminTokenDigest = config.adminToken ? digest(config.adminToken) : undefined;
+
+        for (const [id, { apiKeys: _apiKeys, ...limits }] of Object.entries(config.tenants)) {
+            this.tenants.set(id, { ...limits, id });
+        }
+
+        this.authenticators.push(new ApiKeyAuthenticator(config, this.tenants));
+        if (config.jwt?.secret || config.jwt?.publicKey) {
+            this.authenticators.push(new JwtAuthenticator(config.jwt, this.tenants));
+        }
+
+        if (this.enabled) {
+            log.info(`Enabled for ${this.tenants.size} tenant(s) with ${this.authenticators.map(a => a.name).join(', ')}`);
+        } else {
+            log.warn('Disabled - all requests are accepted');
+        }
+    }
+
+    /** Add an authenticator, tried after the built-in ones */
+    use(authenticator: Authenticator): void {
+        this.authenticators.push(authenticator);
+    }
+
+    getTenant(id: string): Tenant | undefined {
+        return this.tenants.get(id);
+    }
+
+    /**
+     * Principal for the credentials. Throws AuthError when auth is enabled and no
+     * authenticator accepts them.
+     */
+    async authenticate(credentials: Credentials): Promise<AuthPrincipal> {
+        const presented = credentials.apiKey ?? credentials.bearerToken;
+        if (this.adminTokenDigest && presented && crypto.timingSafeEqual(digest(presented), this.adminTokenDigest)) {
+            return { tenant: ADMIN_TENANT, method: 'adminToken' };
+        }
+        if (!this.enabled) {
+            return { tenant: DEFAULT_TENANT, method: 'none' };
+        }
+        if (!credentials.apiKey && !credentials.bearerToken) {
+            throw new AuthError('Missing credentials');
+        }
+
+        for (const authenticator of this.authenticators) {
+            const principal = await authenticator.authenticate(credentials);
+            if (principal) return principal;
+        }
+        throw new AuthError('Invalid credentials');
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * Signed JWT authentication - the token's tenant claim selects the tenant
+ *
+ * HS256/384/512 tokens are verified with the shared secret, RS256 and ES256 with the
+ * public key. Only the algorithm family matching the configured key is accepted, so a
+ * token can't pick its own verification method. Tokens must expire: one without an
+ * exp claim, or whose lifetime (exp - iat) exceeds maxLifetimeSec, is rejected.
+ */
+import crypto from 'crypto';
+import { JwtConfig } from './AuthConfig';
+import { AuthError, AuthPrincipal, Authenticator, Credentials, Tenant } from './types';
+
+const HMAC_ALGORITHMS: Record<string, string> = { HS256: 'sha256', HS384: 'sha384', HS512: 'sha512' };
+const PUBLIC_KEY_ALGORITHMS: Record<string, string> = { RS256: 'sha256', ES256: 'sha256' };
+const DEFAULT_MAX_LIFETIME_SEC = 24 * 60 * 60;
+
+function decodeSegment(segment: string): any {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    } catch {
+        throw new AuthError('Malformed token');
+    }
+}
+
+function isJwt(token: string): boolean {
+    return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/.test(token);
+}
+
+export class JwtAuthenticator implements Authenticator {
+    readonly name = 'jwt';
+    private publicKey?: crypto.KeyObject;
+
+    constructor(private config: JwtConfig, private tenants: Map<string, Tenant>) {
+        if (config.publicKey) {
+            this.publicKey = crypto.createPublicKey(config.publicKey);
+        }
+    }
+
+    async authenticate(credentials: Credentials): Promise<AuthPrincipal | undefined> {
+        const token = credentials.bearerToken;
+        if (!token || !isJwt(token)) return undefined;
+
+        const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+        const header = decodeSegment(headerSegment);
+        this.verifySignature(header.alg, `${headerSegment}.${payloadSegment}`, Buffer.from(signatureSegment, 'base64url'));
+
+        const claims = decodeSegment(payloadSegment);
+        this.verifyClaims(claims);
+
+        const tenantId = claims[this.config.tenantClaim || 'tenant'];
+        const tenant = typeof tenantId === 'string' ? this.tenants.get(tenantId) : undefined;
+        if (!tenant) {
+            throw new AuthError('Token tenant is not configured');
+        }
+        return { tenant, method: this.name, subject: typeof claims.sub === 'string' ? claims.sub : undefined };
+    }
+
+    private verifySignature(alg: string, signingInput: string, signature: Buffer): void {
+        let valid = false;
+        if (this.config.secret && HMAC_ALGORITHMS[alg]) {
+            const expected = crypto.createHmac(HMAC_ALGORITHMS[alg], this.config.secret).update(signingInput).digest();
+            valid = expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+        } else if (this.publicKey && PUBLIC_KEY_ALGORITHMS[alg]) {
+            valid = crypto.verify(PUBLIC_KEY_ALGORITHMS[alg], Buffer.from(signingInput), {
+                key: this.publicKey,
+                // JWS carries ECDSA signatures as raw r||s rather than DER
+                dsaEncoding: alg === 'ES256' ? 'ieee-p1363' : undefined
+            }, signature);
+        } else {
+            throw new AuthError(`Unsupported token algorithm: ${alg}`);
+        }
+
+        if (!valid) {
+            throw new AuthError('Invalid token signature');
+        }
+    }
+
+    private verifyClaims(claims: any): void {
+        const now = Math.floor(Date.now() / 1000);
+        const tolerance = this.config.clockToleranceSec ?? 30;
+
+        if (typeof claims.exp !== 'number') {
+            throw new AuthError('Token has no expiry');
+        }
+        if (now - tolerance >= claims.exp) {
+            throw new AuthError('Token expired');
+        }
+        const maxLifetime = this.config.maxLifetimeSec ?? DEFAULT_MAX_LIFETIME_SEC;
+        const issuedAt = typeof claims.iat === 'number' ? claims.iat : now;
+        if (claims.exp - issuedAt > maxLifetime + tolerance) {
+            throw new AuthError('Token lifetime too long');
+        }
+        if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+            throw new AuthError('Token not yet valid');
+        }
+        if (this.config.issuer && claims.iss !== this.config.issuer) {
+            throw new AuthError('Token issuer mismatch');
+        }
+        if (this.config.audience) {
+            const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+            if (!audiences.includes(this.config.audience)) {
+                throw new AuthError('Token audience mismatch');
+            }
+        }
+    }
+}
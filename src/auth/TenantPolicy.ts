@@ -0,0 +1,44 @@
+/**
+ * Tenant limits applied when a session is created: regions, personas, tools, voices
+ * and concurrent sessions
+ */
+import { isToolAllowed } from '../tools/Tool';
+import { AuthError, Tenant } from './types';
+
+export function assertRegionAllowed(tenant: Tenant, region: string): void {
+    if (tenant.allowedRegions && !tenant.allowedRegions.includes(region)) {
+        throw new AuthError(`Region ${region} is not allowed for tenant ${tenant.id}`, 403);
+    }
+}
+
+export function assertPersonaAllowed(tenant: Tenant, personaId: string): void {
+    if (tenant.allowedPersonas && !tenant.allowedPersonas.includes(personaId)) {
+        throw new AuthError(`Persona ${personaId} is not allowed for tenant ${tenant.id}`, 403);
+    }
+}
+
+/**
+ * Tools the session gets: undefined for every tool, [] for none. The requested tools
+ * the tenant allows, or the tenant's allow-list when the client didn't ask for any
+ * (an empty request counts as not asking).
+ */
+export function resolveEnabledTools(tenant: Tenant, requested?: string[]): string[] | undefined {
+    const asked = requested && requested.length > 0 ? requested : undefined;
+    if (!tenant.allowedTools) return asked;
+    if (!asked) return tenant.allowedTools;
+    return asked.filter(tool => isToolAllowed(tool, tenant.allowedTools));
+}
+
+/**
+ * Voice the session speaks with: the requested one if allowed, otherwise the
+ * tenant's default (first allowed voice) when none was requested
+ */
+export function resolveVoice(tenant: Tenant, requested?: string): string | undefined {
+    if (!tenant.allowedVoices || tenant.allowedVoices.length === 0) return requested;
+    if (!requested) return tenant.allowedVoices[0];
+
+    if (!tenant.allowedVoices.some(voice => voice.toLowerCase() === requested.toLowerCase())) {
+        throw new AuthError(`Voice ${requested} is not allowed for tenant ${tenant.id}`, 403);
+    }
+    return requested;
+}
@@ -0,0 +1,12 @@
+/**
+ * Authentication and per-tenant limits
+ */
+export type { Tenant, Credentials, AuthPrincipal, Authenticator } from './types';
+export { AuthError } from './types';
+export type { AuthConfig, TenantConfig, JwtConfig } from './AuthConfig';
+export { loadAuthConfig } from './AuthConfig';
+export { AuthService } from './AuthService';
+export { ApiKeyAuthenticator } from './ApiKeyAuthenticator';
+export { JwtAuthenticator } from './JwtAuthenticator';
+export { assertRegionAllowed, assertPersonaAllowed, resolveEnabledTools, resolveVoice } from './TenantPolicy';
+export { requireAuth, requireAdmin, isAdmin, socketAuth, getPrincipal, credentialsFromHeaders } from './middleware';
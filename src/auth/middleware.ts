@@ -0,0 +1,87 @@
+/**
+ * Express and Socket.IO middleware that authenticate requests with an AuthService
+ *
+ * Credentials are read from the X-API-Key header or Authorization: Bearer, and for
+ * Socket.IO also from the handshake auth payload ({ apiKey } or { token }).
+ */
+import type { IncomingHttpHeaders } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import type { Socket } from 'socket.io';
+import { AuthService } from './AuthService';
+import { AuthError, AuthPrincipal, Credentials } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Auth' });
+
+export function credentialsFromHeaders(headers: IncomingHttpHeaders): Credentials {
+    const apiKey = headers['x-api-key'];
+    const match = /^Bearer\s+(.+)$/i.exec(headers.authorization || '');
+    return {
+        apiKey: typeof apiKey === 'string' && apiKey ? apiKey : undefined,
+        bearerToken: match?.[1].trim()
+    };
+}
+
+/**
+ * Rejects unauthenticated requests with 401; the principal is left in res.locals.principal
+ */
+export function requireAuth(auth: AuthService) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            res.locals.principal = await auth.authenticate(credentialsFromHeaders(req.headers));
+            next();
+        } catch (error) {
+            if (error instanceof AuthError) {
+                res.status(error.status).json({ error: error.message });
+                return;
+            }
+            next(error);
+        }
+    };
+}
+
+/**
+ * Whether the principal may see and act on every tenant's sessions: an admin tenant
+ * or the ADMIN_TOKEN. Nobody is an admin just because auth is disabled.
+ */
+export function isAdmin(principal: AuthPrincipal | undefined): boolean {
+    return !!principal?.tenant.admin;
+}
+
+/**
+ * Use after requireAuth: rejects principals whose tenant isn't an admin with 403
+ */
+export function requireAdmin() {
+    return (_req: Request, res: Response, next: NextFunction) => {
+        if (isAdmin(res.locals.principal)) {
+            next();
+            return;
+        }
+        res.status(403).json({ error: 'Admin access required' });
+    };
+}
+
+/**
+ * io.use() middleware; the principal is left in socket.data.principal
+ */
+export function socketAuth(auth: AuthService) {
+    return async (socket: Socket, next: (error?: Error) => void) => {
+        const payload = socket.handshake.auth || {};
+        const fromHeaders = credentialsFromHeaders(socket.handshake.headers);
+        try {
+            socket.data.principal = await auth.authenticate({
+                apiKey: typeof payload.apiKey === 'string' && payload.apiKey ? payload.apiKey : fromHeaders.apiKey,
+                bearerToken: typeof payload.token === 'string' && payload.token ? payload.token : fromHeaders.bearerToken
+            });
+            next();
+        } catch (error) {
+            log.warn('Rejected socket', { sessionId: socket.id, reason: error instanceof Error ? error.message : String(error) });
+            // Socket.IO sends the message to the client as a connect_error
+            next(error instanceof Error ? error : new Error(String(error)));
+        }
+    };
+}
+
+export function getPrincipal(socket: Socket): AuthPrincipal | undefined {
+    return socket.data.principal;
+}
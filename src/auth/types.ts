@@ -0,0 +1,64 @@
+/**
+ * Auth types shared by the authenticators, tenant policy and middleware
+ */
+import type { UsageBudgets } from '../usage';
+
+/**
+ * A customer of the service and what its credentials may use.
+ * Omitted limits are unrestricted.
+ */
+export interface Tenant {
+    id: string;
+    /** AWS regions sessions may run in */
+    allowedRegions?: string[];
+    /** Tools sessions may enable; entries ending in * match by prefix */
+    allowedTools?: string[];
+    /** Nova Sonic voice IDs sessions may speak with; the first is the default */
+    allowedVoices?: string[];
+    /** Sessions open at the same time across all of the tenant's connections */
+    maxConcurrentSessions?: number;
+    /** Persona IDs sessions may select */
+    allowedPersonas?: string[];
+    /** Persona used when a session doesn't select one (defaults to the server's default persona) */
+    defaultPersona?: string;
+    /** May use the admin API to inspect and close every tenant's sessions */
+    admin?: boolean;
+    /** Soft (warn) and hard (end sessions) spending limits per session and per day */
+    budgets?: UsageBudgets;
+}
+
+/** Credentials presented with a request or Socket.IO handshake */
+export interface Credentials {
+    apiKey?: string;
+    /** Authorization: Bearer value - a JWT or an API key */
+    bearerToken?: string;
+}
+
+/** Who made a request, once authenticated */
+export interface AuthPrincipal {
+    tenant: Tenant;
+    /** Authenticator that accepted the credentials, e.g. "apiKey" or "jwt" */
+    method: string;
+    /** JWT subject, when there is one */
+    subject?: string;
+}
+
+/**
+ * Verifies one kind of credential. Returns undefined when the credentials aren't
+ * of its kind so the next authenticator can try; throws AuthError when they are
+ * but don't verify.
+ */
+export interface Authenticator {
+    readonly name: string;
+    authenticate(credentials: Credentials): Promise<AuthPrincipal | undefined>;
+}
+
+/**
+ * Rejected credentials (401) or a tenant limit that forbids the request (403)
+ */
+export class AuthError extends Error {
+    constructor(message: string, public readonly status: 401 | 403 = 401) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
@@ -11,7 +11,7 @@ import {
 import { Provider } from "@smithy/types";
 import { Buffer } from "node:buffer";
 import { randomUUID } from "node:crypto";
-import { InferenceConfig, TurnDetectionConfig, EndpointingSensitivity, ToolChoice } from "./types";
+import { InferenceConfig, TurnDetectionConfig, EndpointingSensitivity, ToolChoice, RolloverConfig, ConversationMessage, SessionAudioFormat, RecordingOptions } from "./types";
 import { Subject } from 'rxjs';
 import { take } from 'rxjs/operators';
 import { firstValueFrom } from 'rxjs';
@@ -20,9 +20,19 @@ import {
   DefaultAudioOutputConfiguration,
   DefaultTextConfiguration,
   DefaultToolConfiguration,
+  DefaultRolloverConfiguration,
   NovaSonicModelId,
 } from "./consts";
-import { ToolRegistry, createDefaultToolRegistry } from "./tools";
+import { AudioTranscoder, lpcmFormat } from "./audio";
+import { ToolRegistry, ToolExecutionContext, ToolTimeoutError, ToolAbortedError, ToolValidationError, createDefaultToolRegistry, isToolAllowed } from "./tools";
+import { TurnTracker, TurnMetrics } from "./metrics/TurnTracker";
+import { Span, SpanStatusCode, context as traceContext, trace } from "@opentelemetry/api";
+import { tracer, recordError } from "./telemetry";
+import { Logger, logger } from "./logging";
+import { RegionFailover, isRegionFailure } from "./regions";
+import { SessionEventEmitter, SessionEventName, SessionEventPayload, EventHandler, NovaSonicEvent, SessionEventMap, SessionEventType } from "./events";
+
+const log = logger.child({ component: 'NovaSonic' });
 
 export interface NovaSonicBidirectionalStreamClientConfig {
   requestHandlerConfig?:
@@ -31,8 +41,34 @@ export interface NovaSonicBidirectionalStreamClientConfig {
   clientConfig: Partial<BedrockRuntimeClientConfig>;
   inferenceConfig?: InferenceConfig;
   turnDetectionConfig?: TurnDetectionConfig;
+  rolloverConfig?: Partial<RolloverConfig>;
+  /** Retries streams that fail to start with throttling or service errors in other regions */
+  regionFailover?: RegionFailover;
+  /** Tools shared with other clients; one is built from config/tools.json by default */
+  toolRegistry?: ToolRegistry;
+}
+
+export interface StreamSessionOptions {
+  inferenceConfig?: InferenceConfig;
+  turnDetectionConfig?: TurnDetectionConfig;
+  toolChoice?: ToolChoice;
+  /** Tools the session may use: every registered tool when unset, none when empty */
+  enabledTools?: string[];
+  audioFormat?: SessionAudioFormat;
+  /** Free-form details about the session's origin (transport, caller, ...), passed to session listeners */
+  metadata?: Record<string, string>;
+  /** Call recording for this session; unset fields fall back to DefaultRecordingConfiguration */
+  recording?: Partial<RecordingOptions>;
+  /** Per-session tool settings keyed by tool name, passed to the tool as context.settings */
+  toolSettings?: Record<string, Record<string, unknown>>;
+  /** Regions the session may fail over to (e.g. its tenant's); all of the policy's by default */
+  allowedRegions?: string[];
 }
 
+// Observes every session's events, plus sessionStart/sessionEnd, audioInput (caller audio as
+// sent to Nova) and audioInputDropped; used for transcripts, recordings and metrics
+export type SessionEventListener = (sessionId: string, eventType: string, data: any) => void;
+
 export class StreamSession {
   private audioBufferQueue: Buffer[] = [];
   private maxQueueSize = 200; // Maximum number of audio chunks to queue
@@ -41,12 +77,31 @@ export class StreamSession {
 
   constructor(
     private sessionId: string,
-    private client: NovaSonicBidirectionalStreamClient
+    private client: NovaSonicBidirectionalStreamClient,
+    private emitter: SessionEventEmitter
   ) { }
 
-  // Register event handlers for this specific session
-  public onEvent(eventType: string, handler: (data: any) => void): StreamSession {
-    this.client.registerEventHandler(this.sessionId, eventType, handler);
+  // Listen for this session's events; returns a function that removes the listener
+  public on<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): () => void {
+    return this.emitter.on(eventType, listener);
+  }
+
+  public once<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): () => void {
+    return this.emitter.once(eventType, listener);
+  }
+
+  public off<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): void {
+    this.emitter.off(eventType, listener);
+  }
+
+  // The session's events (optionally only some types) until it ends, for use with for await
+  public events(...eventTypes: SessionEventType[]): AsyncIterableIterator<NovaSonicEvent> {
+    return this.emitter.events(...eventTypes);
+  }
+
+  /** @deprecated Use on(), which keeps other listeners for the same event */
+  public onEvent<K extends SessionEventName>(eventType: K, handler: EventHandler<SessionEventPayload<K>>): StreamSession {
+    this.on(eventType, handler);
     return this; // For chaining
   }
 
@@ -92,7 +147,8 @@ export class StreamSession {
     if (this.audioBufferQueue.length >= this.maxQueueSize) {
       // Queue is full, drop oldest chunk
       this.audioBufferQueue.shift();
-      console.log("Audio queue full, dropping oldest chunk");
+      log.warn('Audio queue full, dropping oldest chunk', { sessionId: this.sessionId });
+      this.client.reportAudioInputDropped(this.sessionId);
     }
 
     // Queue the audio chunk for streaming
@@ -148,39 +204,96 @@ export class StreamSession {
     this.audioBufferQueue = []; // Clear any pending audio
 
     await this.client.sendSessionEnd(this.sessionId);
-    console.log(`Session ${this.sessionId} close completed`);
+    log.info('Session close completed', { sessionId: this.sessionId });
   }
 }
 
+// A toolUse received from the model, waiting for or undergoing execution
+interface PendingToolUse {
+  toolUseId: string;
+  toolName: string;
+  toolUseContent: any;
+  contentId?: string;
+  isExecuting: boolean;
+  abortController: AbortController;
+}
+
 // Session data type
 interface SessionData {
   queue: Array<any>;
   queueSignal: Subject<void>;
   closeSignal: Subject<void>;
   responseSubject: Subject<any>;
-  toolUseContent: any;
-  toolUseId: string;
-  toolName: string;
-  responseHandlers: Map<string, (data: any) => void>;
+  pendingTools: Map<string, PendingToolUse>;
+  // Serializes toolResult content sequences so parallel tools never interleave
+  toolResultChain: Promise<void>;
+  // The StreamSession's listeners, handed on to successor streams
+  events: SessionEventEmitter;
   promptName: string;
   inferenceConfig: InferenceConfig;
   turnDetectionConfig?: TurnDetectionConfig;
   toolChoice?: ToolChoice;
   enabledTools?: string[];
+  toolSettings?: Record<string, Record<string, unknown>>;
+  metadata?: Record<string, string>;
+  // Region the stream runs in (the client's unless failed over) and every region tried so far
+  region: string;
+  triedRegions: string[];
+  allowedRegions?: string[];
+  // Bound to the session's ID, tenant and current turn, carried across rollovers
+  log: Logger;
+  // Bound to the session's ID and tenant only; each turn's logger derives from it
+  baseLog: Logger;
+  // Latency of each turn, carried across rollovers
+  turnTracker: TurnTracker;
+  // Tracing spans for the whole session and the turn in progress, carried across rollovers
+  span: Span;
+  turnSpan?: Span;
   isActive: boolean;
   isPromptStartSent: boolean;
   isAudioContentStartSent: boolean;
   audioContentId: string;
+  // Setup replayed into a successor stream on rollover
+  systemPrompt?: string;
+  textConfig?: typeof DefaultTextConfiguration;
+  voiceId?: string;
+  outputSampleRate: number;
+  audioConfig?: typeof DefaultAudioInputConfiguration;
+  // Transport's native audio format and the converters to/from Nova Sonic LPCM
+  audioFormat?: SessionAudioFormat;
+  inputTranscoder?: AudioTranscoder;
+  outputTranscoder?: AudioTranscoder;
+  history: ConversationMessage[];
+  // Turn state used to pick a safe rollover point
+  currentTextRole?: string;
+  currentGenerationStage?: string;
+  isAssistantSpeaking: boolean;
+  rolloverPending: boolean;
+  // Past the forced deadline, so roll over even mid-speech once no tool is running
+  rolloverForced: boolean;
+  rolloverTimers: NodeJS.Timeout[];
+  isRetiring: boolean;
+  generation: number;
 }
 
 export class NovaSonicBidirectionalStreamClient {
   private bedrockRuntimeClient: BedrockRuntimeClient;
+  private clientConfig: Partial<BedrockRuntimeClientConfig>;
+  private requestHandler: NodeHttp2Handler;
+  private regionFailover?: RegionFailover;
+  // Clients for regions sessions failed over to, created on first use
+  private failoverRuntimeClients = new Map<string, BedrockRuntimeClient>();
   private inferenceConfig: InferenceConfig;
   private turnDetectionConfig?: TurnDetectionConfig;
   private activeSessions: Map<string, SessionData> = new Map();
   private sessionLastActivity: Map<string, number> = new Map();
   private sessionCleanupInProgress = new Set<string>();
+  private sessionRollovers = new Map<string, Promise<void>>();
+  private retiringSessions = new Map<string, SessionData>();
   private toolRegistry: ToolRegistry;
+  private rolloverConfig: RolloverConfig;
+  private region: string;
+  private sessionListeners = new Set<SessionEventListener>();
 
 
   constructor(config: NovaSonicBidirectionalStreamClientConfig) {
@@ -194,11 +307,15 @@ export class NovaSonicBidirectionalStreamClient {
 
     // Allow credentials to be undefined - SDK will use default credential chain
     // (env vars, shared credentials, ECS/EC2 IAM roles)
+    this.region = String(config.clientConfig.region || "ap-northeast-1");
+    this.clientConfig = config.clientConfig;
+    this.requestHandler = nodeHttp2Handler;
     this.bedrockRuntimeClient = new BedrockRuntimeClient({
       ...config.clientConfig,
-      region: config.clientConfig.region || "ap-northeast-1",
+      region: this.region,
       requestHandler: nodeHttp2Handler
     });
+    this.regionFailover = config.regionFailover;
 
     this.inferenceConfig = config.inferenceConfig ?? {
       maxTokens: 1024,
@@ -207,7 +324,8 @@ export class NovaSonicBidirectionalStreamClient {
     };
 
     this.turnDetectionConfig = config.turnDetectionConfig;
-    this.toolRegistry = createDefaultToolRegistry();
+    this.rolloverConfig = { ...DefaultRolloverConfiguration, ...config.rolloverConfig };
+    this.toolRegistry = config.toolRegistry ?? createDefaultToolRegistry();
   }
 
   /**
@@ -217,6 +335,21 @@ export class NovaSonicBidirectionalStreamClient {
     return this.toolRegistry;
   }
 
+  public getRegion(): string {
+    return this.region;
+  }
+
+  /**
+   * Resolve AWS credentials through the client's provider chain; rejects when none
+   * can be loaded or they have expired. Resolved credentials are cached by the SDK.
+   */
+  public async checkCredentials(): Promise<void> {
+    const credentials = await this.bedrockRuntimeClient.config.credentials();
+    if (credentials.expiration && credentials.expiration.getTime() <= Date.now()) {
+      throw new Error(`AWS credentials expired at ${credentials.expiration.toISOString()}`);
+    }
+  }
+
   public isSessionActive(sessionId: string): boolean {
     const session = this.activeSessions.get(sessionId);
     return !!session && session.isActive;
@@ -238,51 +371,110 @@ export class NovaSonicBidirectionalStreamClient {
     return this.sessionCleanupInProgress.has(sessionId);
   }
 
+  public isRolloverInProgress(sessionId: string): boolean {
+    return this.sessionRollovers.has(sessionId);
+  }
+
+  // Resolves once any rollover in progress for the session has finished
+  public async awaitRollover(sessionId: string): Promise<void> {
+    await this.sessionRollovers.get(sessionId);
+  }
+
 
   // Create a new streaming session
-  public createStreamSession(sessionId: string = randomUUID(), config?: { inferenceConfig?: InferenceConfig; turnDetectionConfig?: TurnDetectionConfig; toolChoice?: ToolChoice; enabledTools?: string[] }): StreamSession {
+  public createStreamSession(sessionId: string = randomUUID(), config?: StreamSessionOptions): StreamSession {
     if (this.activeSessions.has(sessionId)) {
       throw new Error(`Stream session with ID ${sessionId} already exists`);
     }
 
+    const baseLog = log.child({ sessionId, tenant: config?.metadata?.tenant, source: config?.metadata?.source });
     const session: SessionData = {
       queue: [],
       queueSignal: new Subject<void>(),
       closeSignal: new Subject<void>(),
       responseSubject: new Subject<any>(),
-      toolUseContent: null,
-      toolUseId: "",
-      toolName: "",
-      responseHandlers: new Map(),
+      pendingTools: new Map(),
+      toolResultChain: Promise.resolve(),
+      events: new SessionEventEmitter((eventType, error) => {
+        this.sessionLog(sessionId).error('Error in event handler', { eventType, error });
+      }),
       promptName: randomUUID(),
       inferenceConfig: config?.inferenceConfig ?? this.inferenceConfig,
       turnDetectionConfig: config?.turnDetectionConfig ?? this.turnDetectionConfig,
       toolChoice: config?.toolChoice,
       enabledTools: config?.enabledTools,
+      toolSettings: config?.toolSettings,
+      metadata: config?.metadata,
+      region: this.region,
+      triedRegions: [this.region],
+      allowedRegions: config?.allowedRegions,
+      log: baseLog,
+      baseLog,
+      turnTracker: new TurnTracker(
+        metrics => this.emitTurnMetrics(sessionId, metrics),
+        (turn, startedAt) => this.startTurn(sessionId, turn, startedAt)
+      ),
+      span: tracer.startSpan('voicebot.session', {
+        attributes: {
+          'voicebot.session_id': sessionId,
+          'voicebot.source': config?.metadata?.source,
+          'voicebot.persona': config?.metadata?.persona,
+          'cloud.region': this.region,
+          'gen_ai.system': 'aws.bedrock',
+          'gen_ai.request.model': NovaSonicModelId
+        }
+      }),
+      audioFormat: config?.audioFormat,
       isActive: true,
       isPromptStartSent: false,
       isAudioContentStartSent: false,
-      audioContentId: randomUUID()
+      audioContentId: randomUUID(),
+      outputSampleRate: DefaultAudioOutputConfiguration.sampleRateHertz,
+      history: [],
+      isAssistantSpeaking: false,
+      rolloverPending: false,
+      rolloverForced: false,
+      rolloverTimers: [],
+      isRetiring: false,
+      generation: 0
     };
 
     this.activeSessions.set(sessionId, session);
+    this.notifySessionListeners(sessionId, 'sessionStart', {
+      region: this.region,
+      enabledTools: config?.enabledTools,
+      metadata: config?.metadata,
+      recording: config?.recording
+    });
 
-    return new StreamSession(sessionId, this);
+    return new StreamSession(sessionId, this, session.events);
   }
 
-  private async processToolUse(sessionId: string, toolName: string, toolUseContent: object): Promise<object> {
-    const shortSessionId = sessionId.substring(0, 8);
-    console.log(`[Tool:${toolName}] Starting execution for session ${shortSessionId}`);
+  private async processToolUse(sessionId: string, toolName: string, toolUseContent: object, signal?: AbortSignal): Promise<object> {
+    const toolLog = this.sessionLog(sessionId).child({ tool: toolName });
+    toolLog.debug('Starting tool execution');
     
     if (!this.toolRegistry.has(toolName)) {
-      console.log(`[Tool:${toolName}] ❌ Not found in registry`);
+      toolLog.warn('Tool not found in registry');
       throw new Error(`Tool "${toolName}" not supported`);
     }
 
+    const session = this.activeSessions.get(sessionId);
+    if (!isToolAllowed(toolName, session?.enabledTools)) {
+      toolLog.warn('Tool not enabled for session');
+      throw new Error(`Tool "${toolName}" is not enabled for this session`);
+    }
+
     try {
-      // Get session's inference config to pass to tools
-      const session = this.activeSessions.get(sessionId);
-      const context = session ? { inferenceConfig: session.inferenceConfig } : undefined;
+      // Pass the session's inference config and settings for this tool to tools
+      const settingsKey = Object.keys(session?.toolSettings ?? {}).find(k => k.toLowerCase() === toolName.toLowerCase());
+      const context: ToolExecutionContext = {
+        inferenceConfig: session?.inferenceConfig,
+        signal,
+        settings: settingsKey ? session!.toolSettings![settingsKey] : undefined,
+        // Tokens of models the tool calls count towards the session's usage
+        reportUsage: (usage) => this.dispatchEvent(sessionId, 'toolUsage', { toolName, ...usage })
+      };
       
       // Parse tool parameters from the toolUse event
       // AWS Nova Sonic sends content as a JSON string in the toolUse event
@@ -292,21 +484,19 @@ export class NovaSonicBidirectionalStreamClient {
       if (toolUseEvent.content && typeof toolUseEvent.content === 'string') {
         try {
           toolParams = JSON.parse(toolUseEvent.content);
-          console.log('[Tool:%s] Parsed params:', toolName, JSON.stringify(toolParams).substring(0, 200));
+          toolLog.debug('Parsed tool params', { params: JSON.stringify(toolParams).substring(0, 200) });
         } catch (parseError) {
-          console.log(`[Tool:${toolName}] Using raw content as params`);
+          toolLog.debug('Using raw content as tool params');
           toolParams = { content: toolUseEvent.content };
         }
       }
       
       const startTime = Date.now();
       const result = await this.toolRegistry.execute(toolName, toolParams, context);
-      const duration = Date.now() - startTime;
-      
-      console.log(`[Tool:${toolName}] ✓ Completed in ${duration}ms`);
+      toolLog.debug('Tool execution completed', { durationMs: Date.now() - startTime });
       return result as object;
     } catch (error) {
-      console.error('[Tool:%s] ❌ Execution failed:', toolName, error instanceof Error ? error.message : error);
+      toolLog.debug('Tool execution failed', { error });
       throw error;
     }
   }
@@ -317,59 +507,97 @@ export class NovaSonicBidirectionalStreamClient {
     if (!session) return;
 
     const startTime = Date.now();
+    const signal = session.pendingTools.get(toolUseId)?.abortController.signal;
+    session.turnTracker.toolStart(toolUseId, toolName);
+    // Child of the turn, and parent of any Bedrock calls the tool makes
+    const span = tracer.startSpan(`execute_tool ${toolName}`, {
+      attributes: {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': toolName,
+        'gen_ai.tool.call.id': toolUseId
+      }
+    }, trace.setSpan(traceContext.active(), session.turnSpan ?? session.span));
     
     try {
-      const toolResult = await this.processToolUse(sessionId, toolName, toolUseContent);
+      const toolResult = await traceContext.with(trace.setSpan(traceContext.active(), span),
+        () => this.processToolUse(sessionId, toolName, toolUseContent, signal));
       const duration = Date.now() - startTime;
+      session.turnTracker.toolEnd(toolUseId, false);
+      span.setAttribute('voicebot.tool.outcome', 'success');
       
       // Check if session is still active before sending result
-      if (!session.isActive) {
-        console.log(`[Tool:${toolName}] ⚠ Session inactive, cannot send result`);
+      if (!session.isActive || session.isRetiring) {
+        session.log.warn('Session inactive, cannot send tool result', { tool: toolName, toolUseId });
         return;
       }
       
       // Send tool result
       await this.sendToolResult(sessionId, toolUseId, toolResult);
       
-      console.log(`┌─── Tool Result ───────────────────────────────`);
-      console.log(`│ Tool: ${toolName}`);
-      console.log(`│ Status: ✓ Success`);
-      console.log(`│ Duration: ${duration}ms`);
-      console.log(`└───────────────────────────────────────────────\n`);
+      session.log.info('Tool succeeded', { tool: toolName, toolUseId, durationMs: duration });
       
       // Dispatch event about tool result
       this.dispatchEvent(sessionId, 'toolResult', {
         toolUseId: toolUseId,
+        toolName: toolName,
         result: toolResult,
         executionTimeMs: duration
       });
     } catch (error) {
       const duration = Date.now() - startTime;
       const errorMsg = error instanceof Error ? error.message : 'Tool execution failed';
+
+      // Cancelled because the session is closing - nobody is waiting for a result
+      if (error instanceof ToolAbortedError) {
+        session.log.info('Tool cancelled', { tool: toolName, toolUseId, durationMs: duration });
+        span.setAttribute('voicebot.tool.outcome', 'cancelled');
+        return;
+      }
+      session.turnTracker.toolEnd(toolUseId, true);
+      span.setAttribute('voicebot.tool.outcome',
+        error instanceof ToolTimeoutError ? 'timeout' : error instanceof ToolValidationError ? 'invalid' : 'error');
+      recordError(span, error);
       
-      console.log(`┌─── Tool Result ───────────────────────────────`);
-      console.log(`│ Tool: ${toolName}`);
-      console.log(`│ Status: ❌ Failed`);
-      console.log(`│ Error: ${errorMsg}`);
-      console.log(`│ Duration: ${duration}ms`);
-      console.log(`└───────────────────────────────────────────────\n`);
+      session.log.warn('Tool failed', { tool: toolName, toolUseId, durationMs: duration, error: errorMsg });
       
-      const errorResult = {
-        error: true,
-        message: errorMsg
-      };
+      let errorResult: object;
+      if (error instanceof ToolTimeoutError) {
+        errorResult = {
+          error: true,
+          timedOut: true,
+          message: `The ${toolName} tool did not respond within ${Math.round(error.timeoutMs / 1000)} seconds. Let the user know and offer to try again.`
+        };
+      } else if (error instanceof ToolValidationError) {
+        // Tell the model exactly what was wrong so it can call the tool again with fixed arguments
+        errorResult = {
+          error: true,
+          invalidParameters: true,
+          message: `The arguments for ${toolName} were invalid. Correct them and call the tool again.`,
+          validationErrors: error.errors
+        };
+      } else {
+        errorResult = {
+          error: true,
+          message: errorMsg
+        };
+      }
       
-      if (session.isActive) {
+      if (session.isActive && !session.isRetiring) {
         await this.sendToolResult(sessionId, toolUseId, errorResult);
       }
       
       // Dispatch event about tool error result so UI can update
       this.dispatchEvent(sessionId, 'toolResult', {
         toolUseId: toolUseId,
+        toolName: toolName,
         result: errorResult,
         executionTimeMs: duration,
         error: true
       });
+    } finally {
+      span.end();
+      session.pendingTools.delete(toolUseId);
+      this.maybeRollover(sessionId);
     }
   }
 
@@ -385,22 +613,32 @@ export class NovaSonicBidirectionalStreamClient {
       // Create the bidirectional stream with session-specific async iterator
       const asyncIterable = this.createSessionAsyncIterable(sessionId);
 
-      console.log(`Starting bidirectional stream for session ${sessionId}...`);
+      session.log.info('Starting bidirectional stream', { generation: session.generation });
+      this.scheduleRollover(sessionId, session);
 
-      const response = await this.bedrockRuntimeClient.send(
+      const response = await this.runtimeClientFor(session.region).send(
         new InvokeModelWithBidirectionalStreamCommand({
           modelId: NovaSonicModelId,
           body: asyncIterable,
         })
       );
 
-      console.log(`Stream established for session ${sessionId}, processing responses...`);
+      session.log.info('Stream established, processing responses');
 
       // Process responses for this session
       await this.processResponseStream(sessionId, response);
 
     } catch (error) {
-      console.error('Error in session %s:', sessionId, error);
+      if (session.isRetiring) {
+        session.log.info('Retired stream ended with error', { error });
+        return;
+      }
+      const failoverRegion = this.failoverRegionFor(sessionId, session, error);
+      if (failoverRegion) {
+        await this.failOver(sessionId, session, failoverRegion, error);
+        return;
+      }
+      session.log.error('Bidirectional stream failed', { error });
       this.dispatchEventForSession(sessionId, 'error', {
         source: 'bidirectionalStream',
         error
@@ -414,34 +652,14 @@ export class NovaSonicBidirectionalStreamClient {
   }
 
   // Dispatch events to handlers for a specific session
-  private dispatchEventForSession(sessionId: string, eventType: string, data: any): void {
-    const session = this.activeSessions.get(sessionId);
-    if (!session) return;
-
-    const handler = session.responseHandlers.get(eventType);
-    if (handler) {
-      try {
-        handler(data);
-      } catch (e) {
-        console.error('Error in %s handler for session %s:', eventType, sessionId, e);
-      }
-    }
-
-    // Also dispatch to "any" handlers
-    const anyHandler = session.responseHandlers.get('any');
-    if (anyHandler) {
-      try {
-        anyHandler({ type: eventType, data });
-      } catch (e) {
-        console.error("Error in 'any' handler for session %s:", sessionId, e);
-      }
-    }
+  private dispatchEventForSession<K extends SessionEventType>(sessionId: string, eventType: K, data: SessionEventMap[K]): void {
+    this.activeSessions.get(sessionId)?.events.emit(eventType, data);
   }
 
   private createSessionAsyncIterable(sessionId: string): AsyncIterable<InvokeModelWithBidirectionalStreamInput> {
 
     if (!this.isSessionActive(sessionId)) {
-      console.log(`Cannot create async iterable: Session ${sessionId} not active`);
+      this.sessionLog(sessionId).warn('Cannot create async iterable: session not active');
       return {
         [Symbol.asyncIterator]: () => ({
           next: async () => ({ value: undefined, done: true })
@@ -458,14 +676,14 @@ export class NovaSonicBidirectionalStreamClient {
 
     return {
       [Symbol.asyncIterator]: () => {
-        console.log(`AsyncIterable iterator requested for session ${sessionId}`);
+        session.log.debug('AsyncIterable iterator requested');
 
         return {
           next: async (): Promise<IteratorResult<InvokeModelWithBidirectionalStreamInput>> => {
             try {
               // Check if session is still active
               if (!session.isActive || !this.activeSessions.has(sessionId)) {
-                console.log(`Iterator closing for session ${sessionId}, done = true`);
+                session.log.debug('Iterator closing');
                 return { value: undefined, done: true };
               }
               // Wait for items in the queue or close signal
@@ -482,20 +700,20 @@ export class NovaSonicBidirectionalStreamClient {
                     if (error.message === "Stream closed" || !session.isActive) {
                       // This is an expected condition when closing the session
                       if (this.activeSessions.has(sessionId)) {
-                        console.log(`Session ${ sessionId } closed during wait`);
+                        session.log.debug('Session closed during wait');
                       }
                       return { value: undefined, done: true };
                     }
                   }
                   else {
-                    console.error(`Error on event close`, error)
+                    session.log.error('Error on event close', { error });
                   }
                 }
               }
 
               // If queue is still empty or session is inactive, we're done
               if (session.queue.length === 0 || !session.isActive) {
-                console.log(`Queue empty or session inactive: ${sessionId} `);
+                session.log.debug('Queue empty or session inactive');
                 return { value: undefined, done: true };
               }
 
@@ -514,20 +732,20 @@ export class NovaSonicBidirectionalStreamClient {
                 done: false
               };
             } catch (error) {
-              console.error(`Error in session ${sessionId} iterator: `, error);
+              session.log.error('Error in session iterator', { error });
               session.isActive = false;
               return { value: undefined, done: true };
             }
           },
 
           return: async (): Promise<IteratorResult<InvokeModelWithBidirectionalStreamInput>> => {
-            console.log(`Iterator return () called for session ${sessionId}`);
+            session.log.debug('Iterator return() called');
             session.isActive = false;
             return { value: undefined, done: true };
           },
 
           throw: async (error: any): Promise<IteratorResult<InvokeModelWithBidirectionalStreamInput>> => {
-            console.log(`Iterator throw () called for session ${sessionId} with error: `, error);
+            session.log.warn('Iterator throw() called', { error });
             session.isActive = false;
             throw error;
           }
@@ -540,94 +758,140 @@ export class NovaSonicBidirectionalStreamClient {
   private async processResponseStream(sessionId: string, response: any): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
+    let received = false;
 
     try {
       for await (const event of response.body) {
         if (!session.isActive) {
-          console.log(`Session ${sessionId} is no longer active, stopping response processing`);
+          session.log.info('Session no longer active, stopping response processing');
           break;
         }
         if (event.chunk?.bytes) {
+          received = true;
           try {
             this.updateSessionActivity(sessionId);
             const textResponse = new TextDecoder().decode(event.chunk.bytes);
 
             try {
               const jsonResponse = JSON.parse(textResponse);
+
+              // A retired stream is only draining; its successor owns the conversation now
+              if (session.isRetiring) {
+                if (jsonResponse.event?.usageEvent) {
+                  this.dispatchEvent(sessionId, 'usageEvent', jsonResponse.event);
+                }
+                continue;
+              }
+
               if (jsonResponse.event?.contentStart) {
+                this.trackContentStart(session, jsonResponse.event.contentStart);
+                session.turnTracker.contentStart(jsonResponse.event.contentStart);
                 this.dispatchEvent(sessionId, 'contentStart', jsonResponse.event.contentStart);
               } else if (jsonResponse.event?.textOutput) {
                 // Check for barge-in indicator in text content
                 const textContent = jsonResponse.event.textOutput.content || '';
-                if (textContent.includes('{ "interrupted" : true }') || textContent.includes('{"interrupted":true}')) {
-                  console.log(`Barge-in detected for session ${sessionId}`);
+                const isBargeIn = textContent.includes('{ "interrupted" : true }') || textContent.includes('{"interrupted":true}');
+                if (isBargeIn) {
+                  session.log.info('Barge-in detected');
+                  session.turnTracker.bargeIn();
+                  session.turnSpan?.addEvent('barge_in');
                   this.dispatchEvent(sessionId, 'bargeIn', { interrupted: true });
+                } else {
+                  this.recordHistory(session, jsonResponse.event.textOutput.role, textContent);
                 }
                 this.dispatchEvent(sessionId, 'textOutput', jsonResponse.event.textOutput);
               } else if (jsonResponse.event?.audioOutput) {
-                this.dispatchEvent(sessionId, 'audioOutput', jsonResponse.event.audioOutput);
+                // Listeners get Nova's LPCM; the session's handlers get the transport's format
+                const audioOutput = jsonResponse.event.audioOutput;
+                session.turnTracker.audioOutput();
+                const observed = { ...audioOutput, sampleRateHertz: session.outputSampleRate };
+                if (session.outputTranscoder && !session.outputTranscoder.isPassthrough) {
+                  const converted = session.outputTranscoder.transcode(Buffer.from(audioOutput.content, 'base64'));
+                  this.dispatchEvent(sessionId, 'audioOutput', { ...audioOutput, content: converted.toString('base64') }, observed);
+                } else {
+                  this.dispatchEvent(sessionId, 'audioOutput', audioOutput, observed);
+                }
               } else if (jsonResponse.event?.toolUse) {
-                this.dispatchEvent(sessionId, 'toolUse', jsonResponse.event.toolUse);
-
-                // Store tool use information for later
-                session.toolUseContent = jsonResponse.event.toolUse;
-                session.toolUseId = jsonResponse.event.toolUse.toolUseId;
-                session.toolName = jsonResponse.event.toolUse.toolName;
+                const toolUse = jsonResponse.event.toolUse;
+                this.dispatchEvent(sessionId, 'toolUse', toolUse);
+
+                // Store tool use information until its contentEnd arrives
+                session.pendingTools.set(toolUse.toolUseId, {
+                  toolUseId: toolUse.toolUseId,
+                  toolName: toolUse.toolName,
+                  toolUseContent: toolUse,
+                  contentId: toolUse.contentId,
+                  isExecuting: false,
+                  abortController: new AbortController()
+                });
               } else if (jsonResponse.event?.contentEnd &&
                 jsonResponse.event?.contentEnd?.type === 'TOOL') {
 
-                const toolUseId = session.toolUseId;
-                const toolName = session.toolName;
-                const toolUseContent = session.toolUseContent;
-                const shortSessionId = sessionId.substring(0, 8);
-                
-                console.log(`\n┌─── Tool Invocation ───────────────────────────`);
-                console.log(`│ Tool: ${toolName}`);
-                console.log(`│ Session: ${shortSessionId}...`);
-                console.log(`│ Tool Use ID: ${toolUseId}`);
-                console.log(`└───────────────────────────────────────────────`);
+                const pendingTool = this.takePendingToolUse(session, jsonResponse.event.contentEnd.contentId);
+                if (!pendingTool) {
+                  session.log.warn('Tool contentEnd without a pending toolUse');
+                  continue;
+                }
+
+                const { toolUseId, toolName, toolUseContent } = pendingTool;
+                session.log.info('Tool invoked', { tool: toolName, toolUseId });
 
                 this.dispatchEvent(sessionId, 'toolEnd', {
-                  toolUseContent: session.toolUseContent,
-                  toolUseId: session.toolUseId,
-                  toolName: session.toolName
+                  toolUseContent,
+                  toolUseId,
+                  toolName
                 });
 
                 // Execute tool asynchronously to avoid blocking the response stream
                 // This prevents timeout errors during long-running tool executions
                 this.executeToolAsync(sessionId, toolUseId, toolName, toolUseContent).catch(err => {
-                  console.error('[Tool:%s] Async execution error:', toolName, err);
+                  session.log.error('Async tool execution error', { tool: toolName, toolUseId, error: err });
                 })
                   
               } else if (jsonResponse.event?.contentEnd) {
+                if (jsonResponse.event.contentEnd.type === 'AUDIO') {
+                  session.isAssistantSpeaking = false;
+                }
                 this.dispatchEvent(sessionId, 'contentEnd', jsonResponse.event.contentEnd);
+                session.turnTracker.contentEnd(jsonResponse.event.contentEnd, session.pendingTools.size > 0);
+                this.maybeRollover(sessionId);
               }
-              else {
+              else if (jsonResponse.event?.usageEvent) {
+                this.dispatchEvent(sessionId, 'usageEvent', jsonResponse.event);
+              } else if (jsonResponse.event?.completionStart) {
+                this.dispatchEvent(sessionId, 'completionStart', jsonResponse.event);
+              } else if (jsonResponse.event?.completionEnd) {
+                this.dispatchEvent(sessionId, 'completionEnd', jsonResponse.event);
+              } else {
                 // Handle other events
                 const eventKeys = Object.keys(jsonResponse.event || {});
                 if (eventKeys.length > 0) {
-                  this.dispatchEvent(sessionId, eventKeys[0], jsonResponse.event);
+                  this.dispatchUnrecognizedEvent(sessionId, eventKeys[0], jsonResponse.event);
                 } else if (Object.keys(jsonResponse).length > 0) {
                   this.dispatchEvent(sessionId, 'unknown', jsonResponse);
                 }
               }
             } catch (e) {
-              console.log('Raw text response for session %s (parse error):', sessionId, textResponse);
+              session.log.warn('Unparseable response chunk', { response: textResponse });
             }
           } catch (e) {
-            console.error('Error processing response chunk for session %s:', sessionId, e);
+            session.log.error('Error processing response chunk', { error: e });
           }
+        } else if (session.isRetiring) {
+          session.log.info('Ignoring exception from retired stream');
         } else if (event.modelStreamErrorException) {
-          console.error('Model stream error for session %s:', sessionId, event.modelStreamErrorException);
+          session.log.error('Model stream error', { exception: event.modelStreamErrorException });
           const exceptionDetails = event.modelStreamErrorException?.message || JSON.stringify(event.modelStreamErrorException);
+          session.span.recordException({ name: 'modelStreamErrorException', message: exceptionDetails });
           this.dispatchEvent(sessionId, 'error', {
             type: 'modelStreamErrorException',
             source: 'responseStream',
             details: exceptionDetails
           });
         } else if (event.internalServerException) {
-          console.error('Internal server error for session %s:', sessionId, event.internalServerException);
+          session.log.error('Internal server error', { exception: event.internalServerException });
           const exceptionDetails = event.internalServerException?.message || JSON.stringify(event.internalServerException);
+          session.span.recordException({ name: 'internalServerException', message: exceptionDetails });
           this.dispatchEvent(sessionId, 'error', {
             type: 'internalServerException',
             source: 'responseStream',
@@ -636,13 +900,27 @@ export class NovaSonicBidirectionalStreamClient {
         }
       }
 
-      console.log(`Response stream processing complete for session ${sessionId}`);
+      if (session.isRetiring) {
+        session.log.info('Retired stream drained');
+        return;
+      }
+
+      session.log.info('Response stream processing complete');
       this.dispatchEvent(sessionId, 'streamComplete', {
         timestamp: new Date().toISOString()
       });
 
     } catch (error) {
-      console.error('Error processing response stream for session %s:', sessionId, error);
+      if (session.isRetiring) {
+        session.log.info('Retired stream closed with error', { error });
+        return;
+      }
+      // Nothing was streamed yet, so the stream can still start over in another region
+      if (!received && this.failoverRegionFor(sessionId, session, error)) {
+        throw error;
+      }
+      session.log.error('Error processing response stream', { error });
+      recordError(session.span, error);
       // Extract error message properly - handle Error instances, objects with message property, or stringify
       let errorDetails: string;
       if (error instanceof Error) {
@@ -653,6 +931,7 @@ export class NovaSonicBidirectionalStreamClient {
         errorDetails = JSON.stringify(error);
       }
       this.dispatchEvent(sessionId, 'error', {
+        type: error instanceof Error ? error.name : 'unknown',
         source: 'responseStream',
         message: 'Error processing response stream',
         details: errorDetails
@@ -666,6 +945,11 @@ export class NovaSonicBidirectionalStreamClient {
     if (!session || !session.isActive) return;
 
     this.updateSessionActivity(sessionId);
+    this.enqueueEvent(session, event);
+  }
+
+  private enqueueEvent(session: SessionData, event: any): void {
+    if (!session.isActive) return;
     session.queue.push(event);
     session.queueSignal.next();
   }
@@ -673,9 +957,9 @@ export class NovaSonicBidirectionalStreamClient {
 
   // Set up initial events for a session
   public setupSessionStartEvent(sessionId: string): void {
-    console.log(`Setting up initial events for session ${sessionId}...`);
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
+    session.log.debug('Setting up initial events');
 
     // Build session start event with inference config and turn detection
     const sessionStartEvent: any = {
@@ -693,7 +977,7 @@ export class NovaSonicBidirectionalStreamClient {
       };
     }
 
-    console.log('Session start event for %s:', sessionId, JSON.stringify(sessionStartEvent, null, 2));
+    session.log.debug('Session start event', { event: sessionStartEvent });
     this.addEventToSessionQueue(sessionId, sessionStartEvent);
   }
 
@@ -701,6 +985,12 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    session.voiceId = voiceId;
+    session.outputSampleRate = outputSampleRate;
+    session.outputTranscoder = session.audioFormat?.output
+      ? new AudioTranscoder(lpcmFormat(outputSampleRate), session.audioFormat.output)
+      : undefined;
+
     // Build audio output config - include all required fields for Nova Sonic
     const audioOutputConfig = {
       mediaType: "audio/lpcm" as const,
@@ -710,11 +1000,11 @@ export class NovaSonicBidirectionalStreamClient {
       voiceId: voiceId || DefaultAudioOutputConfiguration.voiceId
     };
 
-    // Get tool specs, filtered by enabledTools if specified
+    // Get tool specs, filtered by enabledTools if specified (an empty list enables none)
     let toolSpecs = this.toolRegistry.getToolSpecs();
-    if (session.enabledTools && session.enabledTools.length > 0) {
-      toolSpecs = toolSpecs.filter(t => session.enabledTools!.includes(t.toolSpec.name));
-      console.log(`Filtered tools for session ${sessionId}: ${session.enabledTools.join(', ')}`);
+    if (session.enabledTools) {
+      toolSpecs = toolSpecs.filter(t => isToolAllowed(t.toolSpec.name, session.enabledTools));
+      session.log.debug('Filtered tools', { enabledTools: session.enabledTools });
     }
 
     // Build tool configuration per AWS docs
@@ -737,14 +1027,14 @@ export class NovaSonicBidirectionalStreamClient {
           toolUseOutputConfiguration: {
             mediaType: "application/json"
           },
-          toolConfiguration
+          ...(toolSpecs.length > 0 && { toolConfiguration })
         }
       }
     };
 
     this.addEventToSessionQueue(sessionId, promptStartEvent);
     session.isPromptStartSent = true;
-    console.log(`Prompt start completed for ${sessionId} with sample rate ${outputSampleRate}, ${toolSpecs.length} tools configured`);
+    session.log.info('Prompt start completed', { outputSampleRate, toolCount: toolSpecs.length });
   }
 
   public setupSystemPromptEvent(sessionId: string,
@@ -759,6 +1049,8 @@ export class NovaSonicBidirectionalStreamClient {
     if (!promptContent) {
       throw new Error('System prompt content is required');
     }
+    session.systemPrompt = promptContent;
+    session.textConfig = textConfig;
     
     const textPromptID = randomUUID();
     
@@ -777,7 +1069,7 @@ export class NovaSonicBidirectionalStreamClient {
         }
       }
     };
-    console.log('System prompt contentStart for %s:', sessionId, JSON.stringify(contentStartEvent, null, 2));
+    session.log.debug('System prompt contentStart', { event: contentStartEvent });
     this.addEventToSessionQueue(sessionId, contentStartEvent);
 
     // Text input content
@@ -790,7 +1082,7 @@ export class NovaSonicBidirectionalStreamClient {
         }
       }
     };
-    console.log(`System prompt textInput for ${sessionId}: content length=${promptContent.length}`);
+    session.log.debug('System prompt textInput', { length: promptContent.length });
     this.addEventToSessionQueue(sessionId, textInputEvent);
 
     // Text content end
@@ -802,7 +1094,7 @@ export class NovaSonicBidirectionalStreamClient {
         }
       }
     };
-    console.log('System prompt contentEnd for %s:', sessionId, JSON.stringify(contentEndEvent, null, 2));
+    session.log.debug('System prompt contentEnd', { event: contentEndEvent });
     this.addEventToSessionQueue(sessionId, contentEndEvent);
   }
 
@@ -810,11 +1102,15 @@ export class NovaSonicBidirectionalStreamClient {
     sessionId: string,
     audioConfig: typeof DefaultAudioInputConfiguration = DefaultAudioInputConfiguration
   ): void {
-    console.log(`Setting up startAudioContent event for session ${sessionId}...`);
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
+    session.log.debug('Setting up startAudioContent event');
 
-    console.log(`Using audio content ID: ${session.audioContentId}`);
+    session.audioConfig = audioConfig;
+    session.inputTranscoder = session.audioFormat?.input
+      ? new AudioTranscoder(session.audioFormat.input, lpcmFormat(audioConfig.sampleRateHertz))
+      : undefined;
+    session.log.debug('Using audio content ID', { contentId: session.audioContentId });
     // Audio content start
     const audioContentStartEvent = {
       event: {
@@ -828,17 +1124,17 @@ export class NovaSonicBidirectionalStreamClient {
         },
       }
     };
-    console.log('Audio contentStart for %s:', sessionId, JSON.stringify(audioContentStartEvent, null, 2));
+    session.log.debug('Audio contentStart', { event: audioContentStartEvent });
     this.addEventToSessionQueue(sessionId, audioContentStartEvent);
     session.isAudioContentStartSent = true;
-    console.log(`Initial events setup complete for session ${sessionId}`);
+    session.log.info('Initial events setup complete');
   }
 
   // Send text input event (for typing mode)
   public sendTextInputEvent(sessionId: string, textContent: string): void {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
-      console.error(`No session found for ${sessionId}`);
+      log.error('No session found for text input', { sessionId });
       return;
     }
 
@@ -884,18 +1180,27 @@ export class NovaSonicBidirectionalStreamClient {
     };
     this.addEventToSessionQueue(sessionId, contentEndEvent);
     
-    console.log(`Text input sent for session ${sessionId}: "${textContent.substring(0, 50)}${textContent.length > 50 ? '...' : ''}"`);
+    session.log.info('Text input sent', { length: textContent.length });
   }
 
   // Stream an audio chunk for a session
   public async streamAudioChunk(sessionId: string, audioData: Buffer): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session || !session.isActive || !session.audioContentId) {
-      console.warn(`Invalid session ${sessionId} for audio streaming - session may have closed`);
+      log.warn('Invalid session for audio streaming - session may have closed', { sessionId });
       return;
     }
-    // Convert audio to base64
-    const base64Data = audioData.toString('base64');
+    // Convert from the transport's native format, then to base64
+    const audio = session.inputTranscoder ? session.inputTranscoder.transcode(audioData) : audioData;
+    if (audio.length === 0) return;
+    session.turnTracker.audioInput(audio);
+    if (this.sessionListeners.size > 0) {
+      this.notifySessionListeners(sessionId, 'audioInput', {
+        content: audio,
+        sampleRateHertz: session.audioConfig?.sampleRateHertz ?? DefaultAudioInputConfiguration.sampleRateHertz
+      });
+    }
+    const base64Data = audio.toString('base64');
 
     this.addEventToSessionQueue(sessionId, {
       event: {
@@ -909,11 +1214,32 @@ export class NovaSonicBidirectionalStreamClient {
   }
 
 
-  // Send tool result back to the model
-  private async sendToolResult(sessionId: string, toolUseId: string, result: any): Promise<void> {
+  // Match a tool contentEnd to its toolUse, falling back to the oldest one not yet executing
+  private takePendingToolUse(session: SessionData, contentId?: string): PendingToolUse | undefined {
+    const waiting = Array.from(session.pendingTools.values()).filter(t => !t.isExecuting);
+    const pendingTool = (contentId && waiting.find(t => t.contentId === contentId)) || waiting[0];
+    if (pendingTool) {
+      pendingTool.isExecuting = true;
+    }
+    return pendingTool;
+  }
+
+  // Send tool result back to the model, queued behind any result already being sent
+  private sendToolResult(sessionId: string, toolUseId: string, result: any): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session || !session.isActive) {
-      console.log(`[ToolResult] ⚠ Cannot send - session ${sessionId.substring(0, 8)}... inactive`);
+      this.sessionLog(sessionId).warn('Cannot send tool result - session inactive', { toolUseId });
+      return Promise.resolve();
+    }
+
+    const send = session.toolResultChain.then(() => this.writeToolResult(sessionId, session, toolUseId, result));
+    session.toolResultChain = send.catch(() => undefined);
+    return send;
+  }
+
+  private async writeToolResult(sessionId: string, session: SessionData, toolUseId: string, result: any): Promise<void> {
+    if (!session.isActive) {
+      session.log.warn('Cannot send tool result - session inactive', { toolUseId });
       return;
     }
 
@@ -949,11 +1275,11 @@ export class NovaSonicBidirectionalStreamClient {
     
     // Truncate if too long
     if (sanitizedContent.length > DefaultToolConfiguration.maxResultLength) {
-      console.log(`Tool result truncated from ${sanitizedContent.length} to ${DefaultToolConfiguration.maxResultLength} chars`);
+      session.log.info('Tool result truncated', { toolUseId, length: sanitizedContent.length, maxLength: DefaultToolConfiguration.maxResultLength });
       sanitizedContent = sanitizedContent.substring(0, DefaultToolConfiguration.maxResultLength) + '... (truncated)';
     }
     
-    console.log(`[ToolResult] Sending ${sanitizedContent.length} chars to model`);
+    session.log.debug('Sending tool result to model', { toolUseId, length: sanitizedContent.length });
     
     this.addEventToSessionQueue(sessionId, {
       event: {
@@ -980,7 +1306,7 @@ export class NovaSonicBidirectionalStreamClient {
 
     // Wait for events to be processed
     await new Promise(resolve => setTimeout(resolve, 100));
-    console.log(`[ToolResult] ✓ Sent to model for session ${sessionId.substring(0, 8)}...`);
+    session.log.debug('Tool result sent to model', { toolUseId });
   }
 
   public async sendContentEnd(sessionId: string): Promise<void> {
@@ -1020,6 +1346,9 @@ export class NovaSonicBidirectionalStreamClient {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
+    // The caller has gone (hang-up, disconnect, new chat), so nobody waits for tool results
+    this.abortToolExecutions(sessionId, 'Session closed');
+
     await this.addEventToSessionQueue(sessionId, {
       event: {
         sessionEnd: {}
@@ -1033,77 +1362,156 @@ export class NovaSonicBidirectionalStreamClient {
     session.isActive = false;
     session.closeSignal.next();
     session.closeSignal.complete();
+    this.clearRolloverTimers(session);
+    this.closeRetiringSession(sessionId);
     this.activeSessions.delete(sessionId);
     this.sessionLastActivity.delete(sessionId);
-    console.log(`Session ${sessionId} closed and removed from active sessions`);
+    this.endSessionSpans(session, 'closed');
+    this.notifySessionListeners(sessionId, 'sessionEnd', { reason: 'closed' });
+    session.events.close('closed');
+    session.log.info('Session closed and removed from active sessions');
+  }
+
+  /**
+   * Observe events from every session of this client. Returns a function that removes the listener.
+   */
+  public addSessionEventListener(listener: SessionEventListener): () => void {
+    this.sessionListeners.add(listener);
+    return () => this.sessionListeners.delete(listener);
   }
 
-  // Register an event handler for a session
-  public registerEventHandler(sessionId: string, eventType: string, handler: (data: any) => void): void {
+  private startTurn(sessionId: string, turn: number, startedAt: number): void {
     const session = this.activeSessions.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+    if (!session) return;
+
+    session.log = session.baseLog.child({ turn });
+    session.turnSpan?.end();
+    session.turnSpan = tracer.startSpan('voicebot.turn', { startTime: startedAt },
+      trace.setSpan(traceContext.active(), session.span));
+  }
+
+  private endSessionSpans(session: SessionData, reason: string): void {
+    session.turnSpan?.end();
+    session.turnSpan = undefined;
+    session.span.setAttribute('voicebot.session.end_reason', reason);
+    if (reason === 'error') {
+      session.span.setStatus({ code: SpanStatusCode.ERROR });
     }
-    session.responseHandlers.set(eventType, handler);
+    session.span.end();
   }
 
-  // Dispatch an event to registered handlers
-  private dispatchEvent(sessionId: string, eventType: string, data: any): void {
+  // The session's logger, or one bound to just its ID once it has closed
+  private sessionLog(sessionId: string): Logger {
+    return this.activeSessions.get(sessionId)?.log ?? log.child({ sessionId });
+  }
+
+  // A turn's latency breakdown, with what it may be analysed by
+  private emitTurnMetrics(sessionId: string, metrics: TurnMetrics): void {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
-    const handler = session.responseHandlers.get(eventType);
-    if (handler) {
-      try {
-        handler(data);
-      } catch (e) {
-        console.error('Error in %s handler for session %s:', eventType, sessionId, e);
-      }
-    }
+    const span = session.turnSpan;
+    session.turnSpan = undefined;
+    span?.setAttributes({
+      'voicebot.turn': metrics.turn,
+      'voicebot.turn.input_mode': metrics.inputMode,
+      'voicebot.turn.transcription_ms': metrics.transcriptionMs,
+      'voicebot.turn.tool_ms': metrics.toolMs,
+      'voicebot.turn.time_to_first_audio_ms': metrics.timeToFirstAudioMs,
+      'voicebot.turn.interrupted': metrics.interrupted
+    });
+    span?.end(metrics.assistantEndMs !== undefined ? Date.parse(metrics.timestamp) + metrics.assistantEndMs : undefined);
+
+    this.dispatchEvent(sessionId, 'turnMetrics', {
+      ...metrics,
+      region: session.region,
+      voiceId: session.voiceId || DefaultAudioOutputConfiguration.voiceId,
+      source: session.metadata?.source,
+      persona: session.metadata?.persona
+    });
+  }
 
-    // Also dispatch to "any" handlers
-    const anyHandler = session.responseHandlers.get('any');
-    if (anyHandler) {
+  // Caller audio dropped because the session's input queue was full
+  public reportAudioInputDropped(sessionId: string): void {
+    this.notifySessionListeners(sessionId, 'audioInputDropped', {});
+  }
+
+  private notifySessionListeners(sessionId: string, eventType: string, data: any): void {
+    this.sessionListeners.forEach(listener => {
       try {
-        anyHandler({ type: eventType, data });
+        listener(sessionId, eventType, data);
       } catch (e) {
-        console.error("Error in 'any' handler for session %s:", sessionId, e);
+        log.error('Error in session listener', { sessionId, eventType, error: e });
       }
-    }
+    });
+  }
+
+  // Dispatch an event to registered handlers; listeners see `observed` when it differs from what handlers get
+  private dispatchEvent<K extends SessionEventType>(sessionId: string, eventType: K, data: SessionEventMap[K], observed: any = data): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    this.notifySessionListeners(sessionId, eventType, observed);
+    session.events.emit(eventType, data);
+  }
+
+  // A Nova event the session's event map doesn't type, passed on under its own name
+  private dispatchUnrecognizedEvent(sessionId: string, eventType: string, data: Record<string, unknown>): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    this.notifySessionListeners(sessionId, eventType, data);
+    session.events.emitUnrecognized(eventType, data);
   }
 
   public async closeSession(sessionId: string): Promise<void> {
+    const sessionLog = this.sessionLog(sessionId);
     if (this.sessionCleanupInProgress.has(sessionId)) {
-      console.log(`Cleanup already in progress for session ${sessionId}, skipping`);
+      sessionLog.info('Cleanup already in progress, skipping');
       return;
     }
     this.sessionCleanupInProgress.add(sessionId);
     try {
-      console.log(`Starting close process for session ${sessionId}`);
+      sessionLog.info('Starting close process');
+      this.abortToolExecutions(sessionId, 'Session closed');
       await this.sendContentEnd(sessionId);
       await this.sendPromptEnd(sessionId);
       await this.sendSessionEnd(sessionId);
-      console.log(`Session ${sessionId} cleanup complete`);
+      sessionLog.info('Session cleanup complete');
     } catch (error) {
-      console.error('Error during closing sequence for session %s:', sessionId, error);
+      sessionLog.error('Error during closing sequence', { error });
 
       // Ensure cleanup happens even if there's an error
       const session = this.activeSessions.get(sessionId);
       if (session) {
         session.isActive = false;
+        this.clearRolloverTimers(session);
         this.activeSessions.delete(sessionId);
         this.sessionLastActivity.delete(sessionId);
+        this.endSessionSpans(session, 'error');
+        this.notifySessionListeners(sessionId, 'sessionEnd', { reason: 'error' });
+        session.events.close('error');
       }
+      this.closeRetiringSession(sessionId);
     } finally {
       // Always clean up the tracking set
       this.sessionCleanupInProgress.delete(sessionId);
     }
   }
 
+  // Cancel every in-flight tool execution for a session
+  private abortToolExecutions(sessionId: string, reason: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.pendingTools.size === 0) return;
+
+    session.log.info('Aborting tool executions', { count: session.pendingTools.size, reason });
+    session.pendingTools.forEach(tool => tool.abortController.abort(reason));
+  }
+
   // Same for forceCloseSession:
   public forceCloseSession(sessionId: string): void {
     if (this.sessionCleanupInProgress.has(sessionId) || !this.activeSessions.has(sessionId)) {
-      console.log(`Session ${sessionId} already being cleaned up or not active`);
+      this.sessionLog(sessionId).info('Session already being cleaned up or not active');
       return;
     }
 
@@ -1112,19 +1520,343 @@ export class NovaSonicBidirectionalStreamClient {
       const session = this.activeSessions.get(sessionId);
       if (!session) return;
 
-      console.log(`Force closing session ${sessionId}`);
+      session.log.info('Force closing session');
+      this.abortToolExecutions(sessionId, 'Session force closed');
 
       // Immediately mark as inactive and clean up resources
       session.isActive = false;
       session.closeSignal.next();
       session.closeSignal.complete();
+      this.clearRolloverTimers(session);
+      this.closeRetiringSession(sessionId);
       this.activeSessions.delete(sessionId);
       this.sessionLastActivity.delete(sessionId);
+      this.endSessionSpans(session, 'forceClosed');
+      this.notifySessionListeners(sessionId, 'sessionEnd', { reason: 'forceClosed' });
+      session.events.close('forceClosed');
 
-      console.log(`Session ${sessionId} force closed`);
+      session.log.info('Session force closed');
     } finally {
       this.sessionCleanupInProgress.delete(sessionId);
     }
   }
 
+  // Track turn state from contentStart events so rollover happens between turns
+  private trackContentStart(session: SessionData, contentStart: any): void {
+    if (contentStart.type === 'AUDIO' && contentStart.role === 'ASSISTANT') {
+      session.isAssistantSpeaking = true;
+    } else if (contentStart.type === 'TEXT') {
+      session.currentTextRole = contentStart.role;
+      session.currentGenerationStage = undefined;
+      if (contentStart.additionalModelFields) {
+        try {
+          session.currentGenerationStage = JSON.parse(contentStart.additionalModelFields).generationStage;
+        } catch {
+          // additionalModelFields is informational only
+        }
+      }
+    }
+  }
+
+  // Keep final user/assistant transcripts so they can be replayed after a rollover
+  private recordHistory(session: SessionData, role: string, content: string): void {
+    const text = content?.trim();
+    if (!text || (role !== 'USER' && role !== 'ASSISTANT')) return;
+    // Assistant text arrives twice: speculative while generating, then final
+    if (role === 'ASSISTANT' && session.currentGenerationStage === 'SPECULATIVE') return;
+
+    const last = session.history[session.history.length - 1];
+    if (last && last.role === role) {
+      session.history[session.history.length - 1] = { role, content: `${last.content} ${text}` };
+    } else {
+      session.history.push({ role, content: text });
+    }
+
+    const { maxHistoryMessages, maxHistoryChars } = this.rolloverConfig;
+    let totalChars = session.history.reduce((sum, message) => sum + message.content.length, 0);
+    while (session.history.length > maxHistoryMessages || (session.history.length > 1 && totalChars > maxHistoryChars)) {
+      totalChars -= session.history.shift()!.content.length;
+    }
+  }
+
+  private scheduleRollover(sessionId: string, session: SessionData): void {
+    if (!this.rolloverConfig.enabled) return;
+    this.clearRolloverTimers(session);
+
+    session.rolloverTimers.push(setTimeout(() => {
+      session.log.info('Approaching stream limit, rollover pending');
+      session.rolloverPending = true;
+      this.maybeRollover(sessionId);
+    }, this.rolloverConfig.rolloverAfterMs));
+
+    session.rolloverTimers.push(setTimeout(() => {
+      if (this.activeSessions.get(sessionId) !== session) return;
+      // The successor couldn't receive results for toolUses this stream issued; tool deadlines bound the wait
+      if (session.pendingTools.size > 0) {
+        session.log.warn('Reached forced rollover deadline, waiting for running tools', { tools: session.pendingTools.size });
+        session.rolloverPending = true;
+        session.rolloverForced = true;
+        return;
+      }
+      session.log.warn('Reached forced rollover deadline');
+      this.rolloverSession(sessionId).catch(err => {
+        session.log.error('Forced rollover failed', { error: err });
+      });
+    }, this.rolloverConfig.forceRolloverAfterMs));
+  }
+
+  private clearRolloverTimers(session: SessionData): void {
+    session.rolloverTimers.forEach(timer => clearTimeout(timer));
+    session.rolloverTimers = [];
+  }
+
+  // Roll over once a pending session is between turns (or past its forced deadline) and has no tools running
+  private maybeRollover(sessionId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || !session.rolloverPending || session.pendingTools.size > 0) return;
+    if (session.isAssistantSpeaking && !session.rolloverForced) return;
+
+    this.rolloverSession(sessionId).catch(err => {
+      session.log.error('Rollover failed', { error: err });
+    });
+  }
+
+  // Session state for a new stream that carries on `previous`'s conversation
+  private createSuccessor(previous: SessionData): SessionData {
+    return {
+      queue: [],
+      queueSignal: new Subject<void>(),
+      closeSignal: new Subject<void>(),
+      responseSubject: new Subject<any>(),
+      pendingTools: new Map(),
+      toolResultChain: Promise.resolve(),
+      events: previous.events,
+      promptName: randomUUID(),
+      inferenceConfig: previous.inferenceConfig,
+      turnDetectionConfig: previous.turnDetectionConfig,
+      toolChoice: previous.toolChoice,
+      enabledTools: previous.enabledTools,
+      toolSettings: previous.toolSettings,
+      metadata: previous.metadata,
+      region: previous.region,
+      triedRegions: previous.triedRegions,
+      allowedRegions: previous.allowedRegions,
+      log: previous.log,
+      baseLog: previous.baseLog,
+      turnTracker: previous.turnTracker,
+      span: previous.span,
+      turnSpan: previous.turnSpan,
+      audioFormat: previous.audioFormat,
+      isActive: true,
+      isPromptStartSent: false,
+      isAudioContentStartSent: false,
+      audioContentId: randomUUID(),
+      outputSampleRate: previous.outputSampleRate,
+      history: [...previous.history],
+      isAssistantSpeaking: false,
+      rolloverPending: false,
+      rolloverForced: false,
+      rolloverTimers: [],
+      isRetiring: false,
+      generation: previous.generation + 1
+    };
+  }
+
+  // Queue the setup a successor stream needs: prompt, system prompt, history and audio start
+  private replaySetup(sessionId: string, previous: SessionData): void {
+    this.setupSessionStartEvent(sessionId);
+    this.setupPromptStartEvent(sessionId, previous.voiceId, previous.outputSampleRate);
+    this.setupSystemPromptEvent(sessionId, previous.textConfig, previous.systemPrompt!);
+    this.setupHistoryEvents(sessionId);
+    this.setupStartAudioEvent(sessionId, previous.audioConfig);
+  }
+
+  private runtimeClientFor(region: string): BedrockRuntimeClient {
+    if (region === this.region) return this.bedrockRuntimeClient;
+    let client = this.failoverRuntimeClients.get(region);
+    if (!client) {
+      client = new BedrockRuntimeClient({ ...this.clientConfig, region, requestHandler: this.requestHandler });
+      this.failoverRuntimeClients.set(region, client);
+    }
+    return client;
+  }
+
+  // The next region to retry a stream in, if the error is the region's fault and the setup can be replayed
+  private failoverRegionFor(sessionId: string, session: SessionData, error: unknown): string | undefined {
+    if (!this.regionFailover || !isRegionFailure(error)) return undefined;
+    // Not once the session was replaced, retired or is closing
+    if (this.activeSessions.get(sessionId) !== session || session.isRetiring || this.sessionCleanupInProgress.has(sessionId)) {
+      return undefined;
+    }
+    if (!session.systemPrompt || !session.isAudioContentStartSent) return undefined;
+    return this.regionFailover.fallbackRegions(session.region, session.allowedRegions)
+      .find(region => !session.triedRegions.includes(region));
+  }
+
+  // Restart a stream that failed before producing anything in another region, replaying its setup
+  private async failOver(sessionId: string, failed: SessionData, region: string, error: unknown): Promise<void> {
+    const from = failed.region;
+    this.regionFailover?.reportFailure(from, error);
+    failed.log.warn('Stream failed, retrying in another region', { from, to: region, error });
+    failed.span.addEvent('region_failover', { 'voicebot.region.from': from, 'voicebot.region.to': region });
+    failed.span.setAttribute('cloud.region', region);
+
+    failed.isRetiring = true;
+    this.clearRolloverTimers(failed);
+    failed.closeSignal.next();
+
+    const successor = this.createSuccessor(failed);
+    successor.region = region;
+    successor.triedRegions = [...failed.triedRegions, region];
+    this.activeSessions.set(sessionId, successor);
+
+    this.dispatchEvent(sessionId, 'regionFailover', { from, to: region, error: error instanceof Error ? error.name : String(error) });
+    this.replaySetup(sessionId, failed);
+    await this.initiateBidirectionalStreaming(sessionId);
+  }
+
+  /**
+   * Replace the session's Bedrock stream with a fresh one before the connection limit.
+   * The successor is registered under the same session ID and replays the system prompt
+   * and recent history, so the StreamSession and its handlers keep working unchanged.
+   */
+  private rolloverSession(sessionId: string): Promise<void> {
+    const inProgress = this.sessionRollovers.get(sessionId);
+    if (inProgress) return inProgress;
+
+    const previous = this.activeSessions.get(sessionId);
+    if (!previous || !previous.isActive || previous.isRetiring || this.sessionCleanupInProgress.has(sessionId)) {
+      return Promise.resolve();
+    }
+    if (!previous.systemPrompt || !previous.isAudioContentStartSent) {
+      previous.log.info('No replayable setup, skipping rollover');
+      previous.rolloverPending = false;
+      return Promise.resolve();
+    }
+
+    const rollover = (async () => {
+      const startTime = Date.now();
+      previous.log.info('Rolling over session', { generation: previous.generation + 1 });
+      previous.span.addEvent('rollover', { 'voicebot.generation': previous.generation + 1 });
+
+      previous.isRetiring = true;
+      previous.rolloverPending = false;
+      this.clearRolloverTimers(previous);
+
+      const successor = this.createSuccessor(previous);
+
+      // Swap first so audio streamed from now on queues up for the successor
+      this.retiringSessions.set(sessionId, previous);
+      this.activeSessions.set(sessionId, successor);
+
+      this.replaySetup(sessionId, previous);
+      this.initiateBidirectionalStreaming(sessionId);
+
+      await this.retireSession(sessionId, previous);
+
+      successor.log.info('Session rolled over', { generation: successor.generation, durationMs: Date.now() - startTime });
+      this.dispatchEvent(sessionId, 'sessionRollover', {
+        generation: successor.generation,
+        historyMessages: successor.history.length,
+        timestamp: new Date().toISOString()
+      });
+    })().finally(() => {
+      this.sessionRollovers.delete(sessionId);
+    });
+
+    this.sessionRollovers.set(sessionId, rollover);
+    return rollover;
+  }
+
+  // Replay conversation history as non-interactive text content
+  private setupHistoryEvents(sessionId: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    // History must open with a user turn
+    const firstUser = session.history.findIndex(message => message.role === 'USER');
+    const history = firstUser >= 0 ? session.history.slice(firstUser) : [];
+
+    for (const message of history) {
+      const contentName = randomUUID();
+      this.addEventToSessionQueue(sessionId, {
+        event: {
+          contentStart: {
+            promptName: session.promptName,
+            contentName,
+            type: "TEXT",
+            interactive: false,
+            role: message.role,
+            textInputConfiguration: {
+              mediaType: "text/plain"
+            }
+          }
+        }
+      });
+      this.addEventToSessionQueue(sessionId, {
+        event: {
+          textInput: {
+            promptName: session.promptName,
+            contentName,
+            content: message.content
+          }
+        }
+      });
+      this.addEventToSessionQueue(sessionId, {
+        event: {
+          contentEnd: {
+            promptName: session.promptName,
+            contentName
+          }
+        }
+      });
+    }
+    session.log.info('Replayed history messages', { count: history.length });
+  }
+
+  // Gracefully end a retired stream through its own queue
+  private async retireSession(sessionId: string, session: SessionData): Promise<void> {
+    this.enqueueEvent(session, {
+      event: {
+        contentEnd: {
+          promptName: session.promptName,
+          contentName: session.audioContentId,
+        }
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    this.enqueueEvent(session, {
+      event: {
+        promptEnd: {
+          promptName: session.promptName
+        }
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    this.enqueueEvent(session, {
+      event: {
+        sessionEnd: {}
+      }
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    this.closeRetiringSession(sessionId);
+  }
+
+  private closeRetiringSession(sessionId: string): void {
+    const session = this.retiringSessions.get(sessionId);
+    if (!session) return;
+
+    this.retiringSessions.delete(sessionId);
+    session.pendingTools.forEach(tool => tool.abortController.abort('Stream retired'));
+    if (session.isActive) {
+      session.isActive = false;
+      session.closeSignal.next();
+      session.closeSignal.complete();
+    }
+    session.log.info('Retired stream closed');
+  }
+
 }
\ No newline at end of file
@@ -66,6 +66,34 @@ export const DefaultAudioOutputConfiguration = {
 };
 
 // Tool Configuration
+const DEFAULT_TOOL_TIMEOUT_MS = 20000;
+const toolTimeoutMs = parseInt(process.env.TOOL_TIMEOUT_MS || '');
+
 export const DefaultToolConfiguration = {
   maxResultLength: 20480,
+  // Deadline for tools that don't declare their own timeoutMs
+  timeoutMs: Number.isFinite(toolTimeoutMs) && toolTimeoutMs > 0 ? toolTimeoutMs : DEFAULT_TOOL_TIMEOUT_MS,
+};
+
+// Session rollover - Nova Sonic ends a bidirectional stream after 8 minutes,
+// so a replacement stream is opened before the limit and the conversation replayed
+export const DefaultRolloverConfiguration = {
+  enabled: true,
+  // Start looking for a turn boundary to roll over at
+  rolloverAfterMs: 7 * 60 * 1000,
+  // Roll over regardless of turn state at
+  forceRolloverAfterMs: 7.5 * 60 * 1000,
+  // Conversation history replayed into the successor stream
+  maxHistoryMessages: 20,
+  maxHistoryChars: 20000,
+};
+
+// Call recording - off unless enabled here or per session
+export const DefaultRecordingConfiguration = {
+  enabled: process.env.RECORDINGS_ENABLED === 'true',
+  // Also write a mixed-down mono file next to the stereo (caller left, assistant right) one
+  mixedMono: process.env.RECORDINGS_MIXED_MONO === 'true',
+  sampleRate: parseInt(process.env.RECORDINGS_SAMPLE_RATE || '16000'),
+  // Recordings older than this are deleted; 0 keeps them forever
+  retentionDays: parseInt(process.env.RECORDINGS_RETENTION_DAYS || '30'),
 };
@@ -0,0 +1,155 @@
+/**
+ * SessionEventEmitter - Typed listeners for one StreamSession's events
+ *
+ * Any number of listeners per event type, plus `any` listeners that see every event
+ * as { type, data }. Events Nova sends that SessionEventMap doesn't know reach listeners
+ * of their own name untyped, and `any` listeners as `unknown`. A listener that throws
+ * is reported and doesn't stop the others. The emitter belongs to the session rather
+ * than its Bedrock stream, so listeners keep working across rollovers and failovers;
+ * it closes when the session ends, which drops its listeners and finishes its iterators.
+ */
+import type { EventHandler, NovaSonicEvent, SessionEventMap, SessionEventType } from '../types/events';
+
+// Any other string names an event outside SessionEventMap
+export type SessionEventName = SessionEventType | 'any' | (string & {});
+
+/** What a listener for `K` receives */
+export type SessionEventPayload<K extends SessionEventName> =
+    K extends SessionEventType ? SessionEventMap[K] : K extends 'any' ? NovaSonicEvent : unknown;
+
+type Listener = EventHandler<any> & { original?: EventHandler<any> };
+
+export class SessionEventEmitter {
+    private listeners = new Map<SessionEventName, Set<Listener>>();
+    private closeHandlers = new Set<() => void>();
+    private closed = false;
+
+    constructor(private readonly onListenerError: (eventType: string, error: unknown) => void) { }
+
+    get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /** Add a listener; returns a function that removes it */
+    on<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): () => void {
+        if (this.closed) return () => { };
+        let listeners = this.listeners.get(eventType);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(eventType, listeners);
+        }
+        listeners.add(listener);
+        return () => this.remove(eventType, listener);
+    }
+
+    /** Add a listener that is removed after the first event */
+    once<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): () => void {
+        const wrapper: Listener = (data: SessionEventPayload<K>) => {
+            this.remove(eventType, wrapper);
+            listener(data);
+        };
+        wrapper.original = listener;
+        return this.on(eventType, wrapper);
+    }
+
+    /** Remove a listener added with on() or once() */
+    off<K extends SessionEventName>(eventType: K, listener: EventHandler<SessionEventPayload<K>>): void {
+        const listeners = this.listeners.get(eventType);
+        if (!listeners) return;
+        for (const candidate of listeners) {
+            if (candidate === listener || candidate.original === listener) {
+                this.remove(eventType, candidate);
+                return;
+            }
+        }
+    }
+
+    emit<K extends SessionEventType>(eventType: K, data: SessionEventMap[K]): void {
+        if (this.closed) return;
+        this.call(eventType, data);
+        this.call('any', { type: eventType, data } as NovaSonicEvent);
+    }
+
+    /** An event Nova sent under a name SessionEventMap doesn't have */
+    emitUnrecognized(eventType: string, data: Record<string, unknown>): void {
+        if (this.closed) return;
+        this.call(eventType, data);
+        this.call('any', { type: 'unknown', data });
+    }
+
+    /**
+     * The session's events from now on, optionally only some types, ending when the
+     * session does. Events are buffered until read, so read promptly or stop
+     * iterating (break out of the for await loop).
+     */
+    events(...eventTypes: SessionEventType[]): AsyncIterableIterator<NovaSonicEvent> {
+        const buffered: NovaSonicEvent[] = [];
+        let waiting: ((result: IteratorResult<NovaSonicEvent>) => void) | undefined;
+        let done = this.closed;
+
+        const removeListener = this.on('any', event => {
+            if (eventTypes.length > 0 && !eventTypes.includes(event.type)) return;
+            if (waiting) {
+                const resolve = waiting;
+                waiting = undefined;
+                resolve({ value: event, done: false });
+            } else {
+                buffered.push(event);
+            }
+        });
+        const finish = () => {
+            if (done) return;
+            done = true;
+            removeListener();
+            this.closeHandlers.delete(finish);
+            waiting?.({ value: undefined, done: true });
+            waiting = undefined;
+        };
+        if (!done) this.closeHandlers.add(finish);
+
+        return {
+            next: () => {
+                if (buffered.length > 0) return Promise.resolve({ value: buffered.shift()!, done: false });
+                if (done) return Promise.resolve({ value: undefined, done: true });
+                return new Promise(resolve => { waiting = resolve; });
+            },
+            return: () => {
+                buffered.length = 0;
+                finish();
+                return Promise.resolve({ value: undefined, done: true });
+            },
+            [Symbol.asyncIterator]() {
+                return this;
+            }
+        };
+    }
+
+    /** Emit sessionEnd, then drop all listeners and finish all iterators */
+    close(reason: SessionEventMap['sessionEnd']['reason']): void {
+        if (this.closed) return;
+        this.emit('sessionEnd', { reason });
+        this.closed = true;
+        this.listeners.clear();
+        [...this.closeHandlers].forEach(finish => finish());
+    }
+
+    private call(eventType: SessionEventName, data: unknown): void {
+        const listeners = this.listeners.get(eventType);
+        if (!listeners) return;
+        // A copy, so listeners added while emitting wait for the next event
+        for (const listener of [...listeners]) {
+            try {
+                listener(data);
+            } catch (error) {
+                this.onListenerError(eventType, error);
+            }
+        }
+    }
+
+    private remove(eventType: SessionEventName, listener: Listener): void {
+        const listeners = this.listeners.get(eventType);
+        if (!listeners) return;
+        listeners.delete(listener);
+        if (listeners.size === 0) this.listeners.delete(eventType);
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Typed per-session events
+ */
+export { SessionEventEmitter } from './SessionEventEmitter';
+export type { SessionEventName, SessionEventPayload } from './SessionEventEmitter';
+export type { EventHandler, EventHandlerMap, NovaSonicEvent, SessionEventMap, SessionEventType } from '../types/events';
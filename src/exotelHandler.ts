@@ -1,147 +1,129 @@
 /**
  * Exotel WebSocket Handler for Telephony Integration
- * Handles bidirectional audio streaming from Exotel to Nova Sonic
+ * Handles bidirectional audio streaming between Exotel and Nova Sonic
+ *
+ * Exotel streams 16-bit linear PCM (slin) at 8kHz, base64 encoded, in both directions.
+ * Every message we send carries a sequence_number; media frames also carry a chunk
+ * counter and playback timestamp.
  */
 
-import { WebSocket, WebSocketServer } from 'ws';
-import { NovaSonicBidirectionalStreamClient, StreamSession } from './client';
-import { Buffer } from 'node:buffer';
+import http from 'http';
+import { NovaSonicBidirectionalStreamClient } from './client';
+import { PersonaStore } from './personas';
+import { AdmissionController } from './admission';
+import { AuthService } from './auth';
+import { UsageTracker } from './usage';
+import { MediaFrame, TelephonyCall, TelephonyConnection, TelephonyWebSocketHandler } from './telephonyTransport';
 
 interface ExotelMessage {
     event: string;
+    sequence_number?: number | string;
+    stream_sid?: string;
     streamSid?: string;
     callSid?: string;
+    start?: {
+        stream_sid?: string;
+        call_sid?: string;
+        from?: string;
+        to?: string;
+        custom_parameters?: Record<string, string>;
+    };
     media?: {
-        payload: string; // base64 encoded audio
+        chunk?: number | string;
         timestamp?: string;
+        payload: string; // base64 encoded audio
+    };
+    mark?: {
+        name: string;
+    };
+    stop?: {
+        reason?: string;
     };
 }
 
-export class ExotelWebSocketHandler {
-    private wss: WebSocketServer;
-    private sessions = new Map<string, StreamSession>();
-    private bedrockClient: NovaSonicBidirectionalStreamClient;
-
-    constructor(server: any, bedrockClient: NovaSonicBidirectionalStreamClient) {
-        this.bedrockClient = bedrockClient;
-        
-        // Create WebSocket server on /exotel path
-        this.wss = new WebSocketServer({ 
-            server,
-            path: '/exotel'
-        });
-
-        this.wss.on('connection', (ws: WebSocket) => {
-            console.log('[Exotel] New connection established');
-            this.handleConnection(ws);
-        });
-
-        console.log('[Exotel] WebSocket server initialized on /exotel');
+export class ExotelWebSocketHandler extends TelephonyWebSocketHandler {
+    constructor(server: http.Server, bedrockClient: NovaSonicBidirectionalStreamClient, personas: PersonaStore, auth: AuthService, admission?: AdmissionController, usage?: UsageTracker) {
+        super(server, bedrockClient, personas, {
+            name: 'Exotel',
+            path: '/exotel',
+            audioFormat: { encoding: 'pcm16', sampleRate: 8000, channels: 1 },
+            // 20ms of 8kHz 16-bit mono; 100ms per message stops quickly on barge-in without jitter
+            frameUnitBytes: 320,
+            framesPerChunk: 5,
+            systemPrompt: process.env.EXOTEL_SYSTEM_PROMPT,
+            persona: process.env.EXOTEL_PERSONA
+        }, auth, admission, usage);
     }
 
-    private async handleConnection(ws: WebSocket) {
-        let sessionId: string | null = null;
-        let session: StreamSession | null = null;
-
-        ws.on('message', async (data: Buffer) => {
-            try {
-                const message: ExotelMessage = JSON.parse(data.toString());
-                
-                switch (message.event) {
-                    case 'start':
-                        // Call started - initialize Nova Sonic session
-                        sessionId = message.streamSid || message.callSid || `exotel-${Date.now()}`;
-                        console.log(`[Exotel] Call started: ${sessionId}`);
-                        
-                        session = await this.initializeNovaSession(sessionId, ws);
-                        this.sessions.set(sessionId, session);
-                        break;
-
-                    case 'media':
-                        // Audio data from caller
-                        if (session && message.media?.payload) {
-                            const audioBuffer = Buffer.from(message.media.payload, 'base64');
-                            await session.streamAudio(audioBuffer);
-                        }
-                        break;
+    protected async handleMessage(connection: TelephonyConnection, message: ExotelMessage): Promise<void> {
+        this.checkSequence(connection, message.sequence_number);
+
+        switch (message.event) {
+            case 'connected':
+                this.log.info('Stream connected');
+                break;
+
+            case 'start': {
+                // Call started - initialize Nova Sonic session
+                const streamSid = message.stream_sid || message.start?.stream_sid || message.streamSid;
+                await this.startCall(connection, {
+                    streamSid: streamSid || message.start?.call_sid || message.callSid || `exotel-${Date.now()}`,
+                    callSid: message.start?.call_sid || message.callSid,
+                    from: message.start?.from,
+                    to: message.start?.to,
+                    customParameters: message.start?.custom_parameters
+                });
+                break;
+            }
 
-                    case 'stop':
-                        // Call ended
-                        console.log(`[Exotel] Call ended: ${sessionId}`);
-                        if (session) {
-                            await session.close();
-                            if (sessionId) {
-                                this.sessions.delete(sessionId);
-                            }
-                        }
-                        ws.close();
-                        break;
+            case 'media':
+                await this.receiveAudio(connection, message.media?.payload ?? '');
+                break;
 
-                    default:
-                        console.log(`[Exotel] Unknown event: ${message.event}`);
+            case 'mark':
+                if (message.mark?.name) {
+                    this.markPlayed(connection, message.mark.name);
                 }
-            } catch (error) {
-                console.error('[Exotel] Error processing message:', error);
-            }
-        });
+                break;
+
+            case 'clear':
+                // Exotel confirms its playback buffer was flushed
+                connection.call?.pendingMarks.clear();
+                break;
+
+            case 'dtmf':
+                break;
+
+            case 'stop':
+                // Call ended
+                this.log.info('Call ended', { sessionId: connection.call?.info.streamSid, reason: message.stop?.reason });
+                await this.endCall(connection);
+                connection.ws.close();
+                break;
+
+            default:
+                this.log.debug(`Unknown event: ${message.event}`);
+        }
+    }
 
-        ws.on('close', async () => {
-            console.log(`[Exotel] Connection closed: ${sessionId}`);
-            if (session) {
-                await session.close();
-                if (sessionId) {
-                    this.sessions.delete(sessionId);
-                }
+    protected buildMediaMessage(call: TelephonyCall, frame: MediaFrame): object {
+        return {
+            event: 'media',
+            sequence_number: call.sequenceNumber++,
+            stream_sid: call.info.streamSid,
+            media: {
+                chunk: frame.chunk,
+                timestamp: String(frame.timestampMs),
+                payload: frame.payload
             }
-        });
-
-        ws.on('error', (error) => {
-            console.error('[Exotel] WebSocket error:', error);
-        });
+        };
     }
 
-    private async initializeNovaSession(sessionId: string, ws: WebSocket): Promise<StreamSession> {
-        // Create Nova Sonic session
-        const session = this.bedrockClient.createStreamSession(sessionId, {
-            enabledTools: ['search_knowledge_base']
-        });
-
-        // Setup session with default config for telephony
-        await session.setupSessionAndPromptStart('kiara', 8000); // 8kHz for telephony
-        
-        // Setup system prompt (load from default)
-        const systemPrompt = process.env.EXOTEL_SYSTEM_PROMPT || 
-            'You are Riya, a sales executive at Jain Sales Corporation. Answer customer queries about pumps, motors, and cables.';
-        await session.setupSystemPrompt(undefined, systemPrompt, 'kiara');
-        
-        // Start audio
-        await session.setupStartAudio();
-        
-        // Initialize streaming
-        this.bedrockClient.initiateBidirectionalStreaming(sessionId);
-
-        // Handle audio output from Nova Sonic
-        // TODO: Fix event handling for Exotel
-        // session.on('audioOutput', (audioData: Buffer) => {
-        //     // Send audio back to Exotel
-        //     const message = {
-        //         event: 'media',
-        //         streamSid: sessionId,
-        //         media: {
-        //             payload: audioData.toString('base64')
-        //         }
-        //     };
-        //     
-        //     if (ws.readyState === WebSocket.OPEN) {
-        //         ws.send(JSON.stringify(message));
-        //     }
-        // });
-
-        // Handle text output (for logging)
-        // session.on('textOutput', (text: string) => {
-        //     console.log(`[Exotel] Nova response: ${text}`);
-        // });
+    protected buildMarkMessage(call: TelephonyCall, name: string): object {
+        return { event: 'mark', sequence_number: call.sequenceNumber++, stream_sid: call.info.streamSid, mark: { name } };
+    }
 
-        return session;
+    protected buildClearMessage(call: TelephonyCall): object {
+        return { event: 'clear', sequence_number: call.sequenceNumber++, stream_sid: call.info.streamSid };
     }
 }
@@ -0,0 +1,135 @@
+/**
+ * HealthChecker - Runs readiness probes with a deadline and caches their results
+ *
+ * Probes are listed on every check, so regions and tools added at runtime are
+ * picked up. A probe's result is reused for HEALTH_CACHE_SEC (default 30) and
+ * concurrent checks share one run, so frequent /readyz polling doesn't reach
+ * Bedrock or the knowledge base more often than that.
+ */
+
+export type ComponentStatus = 'ok' | 'degraded' | 'failed';
+
+export const DEFAULT_HEALTH_CACHE_MS = 30_000;
+export const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+
+export interface HealthProbe {
+    /** Unique component name, e.g. "credentials:us-east-1" */
+    name: string;
+    /** A failed critical probe makes the server unready; others only degrade it */
+    critical: boolean;
+    /**
+     * Resolves (optionally with details) when healthy and rejects when not. May
+     * resolve with a status of its own to report a degraded component.
+     */
+    check(signal: AbortSignal): Promise<ProbeResult | void>;
+}
+
+export interface ProbeResult {
+    status?: ComponentStatus;
+    details?: Record<string, unknown>;
+}
+
+export interface ComponentHealth {
+    name: string;
+    status: ComponentStatus;
+    critical: boolean;
+    checkedAt: string;
+    durationMs: number;
+    error?: string;
+    details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+    /** ok: all components ok; degraded: a non-critical one isn't; failed: a critical one failed */
+    status: ComponentStatus;
+    components: ComponentHealth[];
+}
+
+export interface HealthCheckerOptions {
+    cacheMs: number;
+    timeoutMs: number;
+}
+
+export function healthCheckerOptionsFromEnv(): HealthCheckerOptions {
+    const cacheSec = parseFloat(process.env.HEALTH_CACHE_SEC || '');
+    const timeoutSec = parseFloat(process.env.HEALTH_PROBE_TIMEOUT_SEC || '');
+    return {
+        cacheMs: Number.isFinite(cacheSec) && cacheSec >= 0 ? cacheSec * 1000 : DEFAULT_HEALTH_CACHE_MS,
+        timeoutMs: Number.isFinite(timeoutSec) && timeoutSec > 0 ? timeoutSec * 1000 : DEFAULT_PROBE_TIMEOUT_MS
+    };
+}
+
+interface CachedResult {
+    result: Promise<ComponentHealth>;
+    expiresAt: number;
+}
+
+export class HealthChecker {
+    private cache = new Map<string, CachedResult>();
+
+    constructor(
+        private readonly probes: () => HealthProbe[],
+        private readonly options: HealthCheckerOptions = healthCheckerOptionsFromEnv()
+    ) { }
+
+    async check(): Promise<HealthReport> {
+        const probes = this.probes();
+        const names = new Set(probes.map(probe => probe.name));
+        for (const name of this.cache.keys()) {
+            if (!names.has(name)) this.cache.delete(name);
+        }
+
+        const components = await Promise.all(probes.map(probe => this.cachedRun(probe)));
+        let status: ComponentStatus = 'ok';
+        for (const component of components) {
+            if (component.status === 'ok') continue;
+            if (component.critical && component.status === 'failed') {
+                status = 'failed';
+                break;
+            }
+            status = 'degraded';
+        }
+        return { status, components };
+    }
+
+    private cachedRun(probe: HealthProbe): Promise<ComponentHealth> {
+        const cached = this.cache.get(probe.name);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.result;
+        }
+        const result = this.run(probe);
+        // Expiry counts from when the run finishes; until then callers share the promise
+        const entry: CachedResult = { result, expiresAt: Infinity };
+        this.cache.set(probe.name, entry);
+        result.then(() => { entry.expiresAt = Date.now() + this.options.cacheMs; });
+        return result;
+    }
+
+    private async run(probe: HealthProbe): Promise<ComponentHealth> {
+        const startedAt = Date.now();
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new Error(`Timed out after ${this.options.timeoutMs}ms`);
+                controller.abort(error);
+                reject(error);
+            }, this.options.timeoutMs);
+        });
+
+        const base = { name: probe.name, critical: probe.critical, checkedAt: new Date(startedAt).toISOString() };
+        try {
+            const result = await Promise.race([probe.check(controller.signal), timeout]);
+            return { ...base, status: result?.status ?? 'ok', durationMs: Date.now() - startedAt, details: result?.details };
+        } catch (error) {
+            return {
+                ...base,
+                status: 'failed',
+                durationMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : String(error)
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Liveness and readiness checks
+ */
+export { HealthChecker, healthCheckerOptionsFromEnv, DEFAULT_HEALTH_CACHE_MS, DEFAULT_PROBE_TIMEOUT_MS } from './HealthChecker';
+export type { HealthProbe, ProbeResult, ComponentStatus, ComponentHealth, HealthReport, HealthCheckerOptions } from './HealthChecker';
+export { credentialsProbe, toolProbes, EventLoopLagProbe, DEFAULT_EVENT_LOOP_LAG_THRESHOLD_MS } from './probes';
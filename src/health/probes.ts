@@ -0,0 +1,55 @@
+/**
+ * Readiness probes: AWS credentials per region, tool backends and event-loop lag
+ */
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { ToolRegistry } from '../tools';
+import { HealthProbe, ProbeResult } from './HealthChecker';
+
+export const DEFAULT_EVENT_LOOP_LAG_THRESHOLD_MS = 250;
+
+/** The region's Bedrock client can resolve AWS credentials */
+export function credentialsProbe(client: NovaSonicBidirectionalStreamClient): HealthProbe {
+    return {
+        name: `credentials:${client.getRegion()}`,
+        critical: true,
+        check: () => client.checkCredentials()
+    };
+}
+
+/** One probe per registered tool that has a healthCheck() hook */
+export function toolProbes(registry: ToolRegistry): HealthProbe[] {
+    return registry.getTools()
+        .filter(tool => typeof tool.healthCheck === 'function')
+        .map(tool => ({
+            name: `tool:${tool.name}`,
+            critical: false,
+            check: (signal: AbortSignal) => tool.healthCheck!(signal)
+        }));
+}
+
+/**
+ * Event-loop delay since the previous check. A p99 over the threshold means the
+ * process is too busy to stream audio smoothly, so it shouldn't take more calls.
+ */
+export class EventLoopLagProbe implements HealthProbe {
+    readonly name = 'eventLoop';
+    readonly critical = true;
+    private histogram: IntervalHistogram;
+
+    constructor(private readonly thresholdMs: number = parseFloat(process.env.EVENT_LOOP_LAG_THRESHOLD_MS || '') || DEFAULT_EVENT_LOOP_LAG_THRESHOLD_MS) {
+        this.histogram = monitorEventLoopDelay({ resolution: 20 });
+        this.histogram.enable();
+    }
+
+    async check(): Promise<ProbeResult> {
+        // Histogram values are in nanoseconds
+        const p99Ms = Math.round(this.histogram.percentile(99) / 1e6);
+        const maxMs = Math.round(this.histogram.max / 1e6);
+        this.histogram.reset();
+        if (p99Ms > this.thresholdMs) {
+            throw new Error(`Event loop lag p99 ${p99Ms}ms exceeds ${this.thresholdMs}ms`);
+        }
+        return { details: { p99Ms, maxMs, thresholdMs: this.thresholdMs } };
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * DrainController - Takes the server out of service without cutting off live calls
+ *
+ * Once draining, new sessions are refused and readiness fails so the load balancer
+ * stops routing here. Live sessions may finish on their own until the deadline;
+ * those still running `goodbyeLeadMs` before it are asked to say goodbye, and
+ * whatever remains at the deadline is left to the caller to close.
+ */
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Drain' });
+
+export const DEFAULT_DRAIN_TIMEOUT_MS = 120_000;
+export const DEFAULT_DRAIN_GOODBYE_LEAD_MS = 15_000;
+
+// How often to check whether every session has ended
+const POLL_INTERVAL_MS = 1000;
+
+export interface DrainOptions {
+    /** Longest time live sessions get before drain() resolves */
+    timeoutMs: number;
+    /** How long before the deadline remaining sessions are asked to say goodbye */
+    goodbyeLeadMs: number;
+    /** Live sessions and calls, across every transport */
+    countSessions: () => number;
+    /** Ask every live session to say goodbye */
+    sayGoodbye: () => Promise<void>;
+}
+
+export interface DrainStatus {
+    draining: boolean;
+    startedAt?: string;
+    deadline?: string;
+    reason?: string;
+    activeSessions: number;
+}
+
+export function drainOptionsFromEnv(): Pick<DrainOptions, 'timeoutMs' | 'goodbyeLeadMs'> {
+    const seconds = (name: string, fallbackMs: number) => {
+        const value = parseFloat(process.env[name] || '');
+        return Number.isFinite(value) && value >= 0 ? value * 1000 : fallbackMs;
+    };
+    return {
+        timeoutMs: seconds('DRAIN_TIMEOUT_SEC', DEFAULT_DRAIN_TIMEOUT_MS),
+        goodbyeLeadMs: seconds('DRAIN_GOODBYE_SEC', DEFAULT_DRAIN_GOODBYE_LEAD_MS)
+    };
+}
+
+export class DrainController {
+    private startedAt?: number;
+    private reason?: string;
+    private drained?: Promise<void>;
+
+    constructor(private readonly options: DrainOptions) { }
+
+    isDraining(): boolean {
+        return this.drained !== undefined;
+    }
+
+    status(): DrainStatus {
+        return {
+            draining: this.isDraining(),
+            startedAt: this.startedAt !== undefined ? new Date(this.startedAt).toISOString() : undefined,
+            deadline: this.startedAt !== undefined ? new Date(this.startedAt + this.options.timeoutMs).toISOString() : undefined,
+            reason: this.reason,
+            activeSessions: this.options.countSessions()
+        };
+    }
+
+    /**
+     * Start draining, or join the drain in progress. Resolves once no sessions are
+     * left or the deadline has passed.
+     */
+    drain(reason: string): Promise<void> {
+        if (!this.drained) {
+            this.startedAt = Date.now();
+            this.reason = reason;
+            log.warn('Draining', { reason, activeSessions: this.options.countSessions(), timeoutMs: this.options.timeoutMs });
+            this.drained = this.waitForSessions();
+        }
+        return this.drained;
+    }
+
+    private async waitForSessions(): Promise<void> {
+        const deadline = this.startedAt! + this.options.timeoutMs;
+        const goodbyeAt = deadline - this.options.goodbyeLeadMs;
+        let saidGoodbye = false;
+
+        while (this.options.countSessions() > 0 && Date.now() < deadline) {
+            if (!saidGoodbye && Date.now() >= goodbyeAt) {
+                saidGoodbye = true;
+                log.info('Asking remaining sessions to say goodbye', { activeSessions: this.options.countSessions() });
+                try {
+                    await this.options.sayGoodbye();
+                } catch (error) {
+                    log.error('Error sending goodbye', { error });
+                }
+            }
+            await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL_MS, Math.max(deadline - Date.now(), 0))));
+        }
+
+        const remaining = this.options.countSessions();
+        if (remaining > 0) {
+            log.warn('Drain deadline reached', { activeSessions: remaining });
+        } else {
+            log.info('All sessions finished');
+        }
+    }
+}
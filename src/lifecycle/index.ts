@@ -0,0 +1,5 @@
+/**
+ * Server lifecycle: draining for rolling deployments
+ */
+export { DrainController, drainOptionsFromEnv, DEFAULT_DRAIN_TIMEOUT_MS, DEFAULT_DRAIN_GOODBYE_LEAD_MS } from './DrainController';
+export type { DrainOptions, DrainStatus } from './DrainController';
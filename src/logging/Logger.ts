@@ -0,0 +1,110 @@
+/**
+ * Logger - Leveled, structured logging with PII redaction
+ *
+ * Each entry is one JSON line on stdout: time, level, msg, the logger's bound fields
+ * (sessionId, tenant, turn, component, ...) and the entry's own fields. The message
+ * and entry fields are redacted (see redact.ts); bound fields are identifiers and are
+ * written as-is. LOG_LEVEL sets the minimum level (default info) and LOG_FORMAT=text
+ * prints a single readable line per entry instead of JSON.
+ */
+import { isRedactionEnabled, redactText, redactValue } from './redact';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LoggerOptions {
+    level: LogLevel;
+    format: 'json' | 'text';
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+    const level = value?.trim().toLowerCase();
+    return level && level in LEVELS ? level as LogLevel : 'info';
+}
+
+export function loggerOptionsFromEnv(): LoggerOptions {
+    return {
+        level: parseLevel(process.env.LOG_LEVEL),
+        format: process.env.LOG_FORMAT === 'text' ? 'text' : 'json'
+    };
+}
+
+function serializeErrors(fields: LogFields): LogFields {
+    const result: LogFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+        result[key] = value instanceof Error
+            ? { type: value.name, message: value.message, stack: value.stack }
+            : value;
+    }
+    return result;
+}
+
+function formatText(entry: LogFields): string {
+    const { time, level, msg, component, ...rest } = entry;
+    const prefix = component ? `[${component}] ` : '';
+    const extra = Object.entries(rest)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+        .join(' ');
+    return `${time} ${String(level).toUpperCase().padEnd(5)} ${prefix}${msg}${extra ? ' ' + extra : ''}`;
+}
+
+export class Logger {
+    constructor(
+        private readonly options: LoggerOptions = loggerOptionsFromEnv(),
+        readonly bindings: LogFields = {}
+    ) { }
+
+    /** A logger that adds these fields to every entry */
+    child(fields: LogFields): Logger {
+        return new Logger(this.options, { ...this.bindings, ...fields });
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        return LEVELS[level] >= LEVELS[this.options.level];
+    }
+
+    debug(msg: string, fields?: LogFields): void {
+        this.write('debug', msg, fields);
+    }
+
+    info(msg: string, fields?: LogFields): void {
+        this.write('info', msg, fields);
+    }
+
+    warn(msg: string, fields?: LogFields): void {
+        this.write('warn', msg, fields);
+    }
+
+    error(msg: string, fields?: LogFields): void {
+        this.write('error', msg, fields);
+    }
+
+    private write(level: LogLevel, msg: string, fields?: LogFields): void {
+        if (!this.isLevelEnabled(level)) return;
+
+        const redact = isRedactionEnabled();
+        const own = fields ? serializeErrors(fields) : {};
+        const entry: LogFields = {
+            time: new Date().toISOString(),
+            level,
+            msg: redact ? redactText(msg) : msg,
+            ...this.bindings,
+            ...(redact ? redactValue(own) : own)
+        };
+
+        let line: string;
+        try {
+            line = this.options.format === 'text' ? formatText(entry) : JSON.stringify(entry);
+        } catch {
+            // Circular fields; keep the message
+            line = JSON.stringify({ time: entry.time, level, msg: entry.msg, ...this.bindings });
+        }
+        process.stdout.write(line + '\n');
+    }
+}
+
+/** Root logger; modules take children of it with a component name */
+export const logger = new Logger();
@@ -0,0 +1,6 @@
+/**
+ * Structured logging and PII redaction
+ */
+export { Logger, logger, loggerOptionsFromEnv } from './Logger';
+export type { LogLevel, LogFields, LoggerOptions } from './Logger';
+export { redactText, redactValue, redactIfEnabled, isRedactionEnabled } from './redact';
@@ -0,0 +1,102 @@
+/**
+ * PII redaction applied to everything logged and to persisted transcripts
+ *
+ * Masks email addresses, card numbers (Luhn-checked), Aadhaar numbers, PAN IDs and
+ * phone numbers in free text. Set PII_REDACTION=false to turn it off, e.g. in a
+ * development environment with synthetic data.
+ */
+
+interface RedactionRule {
+    label: string;
+    pattern: RegExp;
+    /** Extra check on a match, for patterns that would otherwise be too broad */
+    accept?: (match: string) => boolean;
+}
+
+function digitCount(text: string): number {
+    return text.replace(/\D/g, '').length;
+}
+
+function passesLuhn(text: string): boolean {
+    const digits = text.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+// Applied in order, so card and Aadhaar numbers are labelled before the phone rule sees them.
+// Digit runs must stand alone, which keeps UUIDs and timestamps intact.
+const RULES: RedactionRule[] = [
+    {
+        label: 'EMAIL',
+        pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+    },
+    {
+        label: 'CARD',
+        pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+        accept: passesLuhn
+    },
+    {
+        label: 'AADHAAR',
+        pattern: /(?<![\w-])[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?![\w-])/g
+    },
+    {
+        label: 'PAN',
+        pattern: /(?<![\w-])[A-Z]{5}\d{4}[A-Z](?![\w-])/gi
+    },
+    {
+        label: 'PHONE',
+        pattern: /(?<![\w-])\+?\(?\d[\d ()-]{7,}\d(?![\w-])/g,
+        accept: match => digitCount(match) >= 10 && digitCount(match) <= 15
+    }
+];
+
+export function isRedactionEnabled(): boolean {
+    return process.env.PII_REDACTION !== 'false';
+}
+
+/** Mask PII in one string */
+export function redactText(text: string): string {
+    let result = text;
+    for (const rule of RULES) {
+        result = result.replace(rule.pattern, match => !rule.accept || rule.accept(match) ? `[${rule.label}]` : match);
+    }
+    return result;
+}
+
+/**
+ * Mask PII in every string of a value, returning a copy. Errors become plain objects.
+ */
+export function redactValue<T>(value: T, depth = 0): T {
+    if (typeof value === 'string') return redactText(value) as T;
+    if (value === null || typeof value !== 'object' || depth > 8) return value;
+    if (Buffer.isBuffer(value) || value instanceof Date) return value;
+
+    if (value instanceof Error) {
+        return {
+            type: value.name,
+            message: redactText(value.message),
+            stack: value.stack ? redactText(value.stack) : undefined
+        } as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redactValue(item, depth + 1)) as T;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        copy[key] = redactValue(item, depth + 1);
+    }
+    return copy as T;
+}
+
+/** redactValue, unless PII_REDACTION=false */
+export function redactIfEnabled<T>(value: T): T {
+    return isRedactionEnabled() ? redactValue(value) : value;
+}
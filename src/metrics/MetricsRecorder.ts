@@ -0,0 +1,105 @@
+/**
+ * MetricsRecorder - Updates the Prometheus metrics from session events
+ *
+ * Attached to each client with addSessionEventListener. usageEvent carries running
+ * totals per stream, so token counters are advanced by the difference from the
+ * previous event (a smaller total means a rollover started a new stream).
+ */
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import {
+    activeSessions, audioInputDropped, bargeIns, regionFailovers, sessionsClosed, sessionsCreated,
+    streamErrors, timeToFirstAudio, toolDuration, toolInvocations, tokens
+} from './registry';
+
+type TokenKey = 'input.speech' | 'input.text' | 'output.speech' | 'output.text';
+
+interface SessionMetricsState {
+    tokenTotals: Partial<Record<TokenKey, number>>;
+}
+
+export class MetricsRecorder {
+    private sessions = new Map<string, SessionMetricsState>();
+
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => this.handleEvent(sessionId, eventType, data));
+    }
+
+    private handleEvent(sessionId: string, eventType: string, data: any): void {
+        if (eventType === 'sessionStart') {
+            this.sessions.set(sessionId, { tokenTotals: {} });
+            sessionsCreated.inc({ source: data?.metadata?.source ?? 'unknown' });
+            activeSessions.inc();
+            return;
+        }
+
+        const state = this.sessions.get(sessionId);
+        if (!state) return;
+
+        switch (eventType) {
+            case 'turnMetrics':
+                if (typeof data?.timeToFirstAudioMs === 'number') {
+                    timeToFirstAudio.observe(data.timeToFirstAudioMs / 1000);
+                }
+                break;
+
+            case 'toolResult': {
+                const labels = { tool: data?.toolName ?? 'unknown', outcome: data?.error ? 'error' : 'success' };
+                toolInvocations.inc(labels);
+                if (typeof data?.executionTimeMs === 'number') {
+                    toolDuration.observe(labels, data.executionTimeMs / 1000);
+                }
+                break;
+            }
+
+            case 'bargeIn':
+                bargeIns.inc();
+                break;
+
+            case 'audioInputDropped':
+                audioInputDropped.inc();
+                break;
+
+            case 'regionFailover':
+                regionFailovers.inc({ from: data?.from ?? 'unknown', to: data?.to ?? 'unknown' });
+                break;
+
+            case 'error':
+                if (data?.source === 'responseStream') {
+                    streamErrors.inc({ type: data.type ?? 'unknown' });
+                }
+                break;
+
+            case 'usageEvent':
+                this.recordUsage(state, data?.usageEvent ?? data);
+                break;
+
+            case 'sessionEnd':
+                this.sessions.delete(sessionId);
+                sessionsClosed.inc({ reason: data?.reason ?? 'unknown' });
+                activeSessions.dec();
+                break;
+        }
+    }
+
+    private recordUsage(state: SessionMetricsState, usage: any): void {
+        const total = usage?.details?.total;
+        if (!total) return;
+
+        const current: Record<TokenKey, number | undefined> = {
+            'input.speech': total.input?.speechTokens,
+            'input.text': total.input?.textTokens,
+            'output.speech': total.output?.speechTokens,
+            'output.text': total.output?.textTokens
+        };
+        for (const [key, value] of Object.entries(current) as Array<[TokenKey, number | undefined]>) {
+            if (typeof value !== 'number') continue;
+            const previous = state.tokenTotals[key] ?? 0;
+            const increment = value >= previous ? value - previous : value;
+            if (increment > 0) {
+                const [direction, modality] = key.split('.');
+                tokens.inc({ direction, modality }, increment);
+            }
+            state.tokenTotals[key] = value;
+        }
+    }
+}
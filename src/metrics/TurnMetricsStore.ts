@@ -0,0 +1,145 @@
+/**
+ * TurnMetricsStore - Per-turn latency breakdowns as JSONL files on local disk
+ *
+ * Attached to each client, it appends every turnMetrics event to one file per UTC
+ * day (turns-YYYY-MM-DD.jsonl) in TURN_METRICS_DIR (default data/turn-metrics), and
+ * summarizes recent days by tool, region, voice or persona.
+ */
+import fs from 'fs';
+import path from 'path';
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { TurnMetrics } from './TurnTracker';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'TurnMetrics' });
+
+export const DEFAULT_TURN_METRICS_DIR = path.join(process.cwd(), 'data', 'turn-metrics');
+
+/** A turn as persisted, with what it can be grouped by */
+export interface TurnRecord extends TurnMetrics {
+    sessionId: string;
+    region: string;
+    voiceId: string;
+    source?: string;
+    persona?: string;
+}
+
+export const TURN_METRICS_GROUPS = ['tool', 'region', 'voiceId', 'persona'] as const;
+export type TurnMetricsGroup = typeof TURN_METRICS_GROUPS[number];
+
+export interface TurnLatencySummary {
+    key: string;
+    turns: number;
+    /** Turns that reached the assistant's first audio */
+    timeToFirstAudioMs: { p50?: number; p90?: number; p95?: number };
+    avgTranscriptionMs?: number;
+    avgToolMs?: number;
+    interruptedTurns: number;
+}
+
+function percentile(sorted: number[], p: number): number | undefined {
+    if (sorted.length === 0) return undefined;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+function average(values: number[]): number | undefined {
+    return values.length === 0 ? undefined : Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
+export class TurnMetricsStore {
+    private write: Promise<void> = Promise.resolve();
+
+    constructor(readonly dir: string = process.env.TURN_METRICS_DIR || DEFAULT_TURN_METRICS_DIR) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => {
+            if (eventType === 'turnMetrics') {
+                this.append({ sessionId, ...data });
+            }
+        });
+    }
+
+    append(record: TurnRecord): Promise<void> {
+        const file = this.filePath(new Date());
+        // Serialized so lines from concurrent sessions never interleave
+        this.write = this.write
+            .then(() => fs.promises.appendFile(file, JSON.stringify(record) + '\n'))
+            .catch(error => log.error('Failed to write turn metrics', { file, error }));
+        return this.write;
+    }
+
+    /**
+     * Turns of the last `days` days (today included), oldest first
+     */
+    async read(days = 1): Promise<TurnRecord[]> {
+        const records: TurnRecord[] = [];
+        for (let i = days - 1; i >= 0; i--) {
+            const day = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
+            let text: string;
+            try {
+                text = await fs.promises.readFile(this.filePath(day), 'utf-8');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+                throw error;
+            }
+            for (const line of text.split('\n')) {
+                if (!line.trim()) continue;
+                try {
+                    records.push(JSON.parse(line));
+                } catch {
+                    // A line cut short by a crash
+                }
+            }
+        }
+        return records;
+    }
+
+    /**
+     * Latency percentiles per group, busiest first. Grouped by tool, a turn counts
+     * once for each tool it called, and turns without tools fall under "(none)".
+     */
+    async summarize(groupBy: TurnMetricsGroup, days = 1): Promise<TurnLatencySummary[]> {
+        const groups = new Map<string, TurnRecord[]>();
+        for (const record of await this.read(days)) {
+            const keys = groupBy === 'tool'
+                ? (record.tools.length > 0 ? [...new Set(record.tools.map(tool => tool.toolName))] : ['(none)'])
+                : [record[groupBy] ?? '(none)'];
+            for (const key of keys) {
+                const group = groups.get(key) ?? [];
+                group.push(record);
+                groups.set(key, group);
+            }
+        }
+
+        return Array.from(groups.entries())
+            .map(([key, records]) => {
+                const ttfa = records
+                    .map(record => record.timeToFirstAudioMs)
+                    .filter((ms): ms is number => typeof ms === 'number')
+                    .sort((a, b) => a - b);
+                const toolMs = groupBy === 'tool'
+                    ? records.flatMap(record => record.tools.filter(tool => tool.toolName === key && tool.durationMs !== undefined).map(tool => tool.durationMs!))
+                    : records.filter(record => record.tools.length > 0).map(record => record.toolMs);
+                return {
+                    key,
+                    turns: records.length,
+                    timeToFirstAudioMs: { p50: percentile(ttfa, 50), p90: percentile(ttfa, 90), p95: percentile(ttfa, 95) },
+                    avgTranscriptionMs: average(records.map(record => record.transcriptionMs).filter((ms): ms is number => typeof ms === 'number')),
+                    avgToolMs: average(toolMs),
+                    interruptedTurns: records.filter(record => record.interrupted).length
+                };
+            })
+            .sort((a, b) => b.turns - a.turns);
+    }
+
+    /** Wait for pending writes, e.g. before shutdown */
+    async flush(): Promise<void> {
+        await this.write;
+    }
+
+    private filePath(day: Date): string {
+        return path.join(this.dir, `turns-${day.toISOString().slice(0, 10)}.jsonl`);
+    }
+}
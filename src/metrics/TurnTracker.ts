@@ -0,0 +1,177 @@
+/**
+ * TurnTracker - Latency breakdown of each conversational turn
+ *
+ * The client feeds it one session's stream events. A turn runs from the end of the
+ * caller's speech (the last input chunk loud enough to be speech) through the final
+ * user transcript, any tool calls, the first assistant audio and the end of the
+ * assistant's audio. Times in TurnMetrics are milliseconds after the end of speech,
+ * or after the transcript for text input.
+ */
+
+// RMS of 16-bit LPCM above which an input chunk counts as speech (about -36 dBFS)
+const SPEECH_RMS_THRESHOLD = 500;
+
+export interface TurnToolTiming {
+    toolName: string;
+    startMs: number;
+    durationMs?: number;
+    error?: boolean;
+}
+
+export interface TurnMetrics {
+    /** 1-based turn number within the session */
+    turn: number;
+    /** When the turn started (end of speech, or the transcript for text input) */
+    timestamp: string;
+    inputMode: 'audio' | 'text';
+    /** End of speech to the final user transcript */
+    transcriptionMs?: number;
+    tools: TurnToolTiming[];
+    /** Sum of the tools' execution times */
+    toolMs: number;
+    timeToFirstAudioMs?: number;
+    /** End of the assistant's audio */
+    assistantEndMs?: number;
+    interrupted: boolean;
+}
+
+interface OpenTurn {
+    turn: number;
+    startedAt: number;
+    inputMode: 'audio' | 'text';
+    transcriptEndAt: number;
+    tools: Map<string, TurnToolTiming>;
+    firstAudioAt?: number;
+    assistantEndAt?: number;
+    interrupted: boolean;
+}
+
+function rms(pcm: Buffer): number {
+    let sum = 0;
+    let count = 0;
+    // Every 4th sample is plenty for a loudness estimate
+    for (let i = 0; i + 1 < pcm.length; i += 8) {
+        const sample = pcm.readInt16LE(i);
+        sum += sample * sample;
+        count++;
+    }
+    return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+export class TurnTracker {
+    private turnCount = 0;
+    private current?: OpenTurn;
+    private userTextContents = new Set<string>();
+    private lastSpeechAt?: number;
+    /** Speech before this belongs to an earlier turn */
+    private lastTurnStartedAt = 0;
+
+    /**
+     * @param onTurn called with each finished turn
+     * @param onTurnStart called when a turn starts, with its number and when it started (epoch ms)
+     */
+    constructor(private onTurn: (metrics: TurnMetrics) => void, private onTurnStart?: (turn: number, startedAt: number) => void) { }
+
+    /** Caller audio as sent to Nova (16-bit LPCM) */
+    audioInput(pcm: Buffer): void {
+        if (rms(pcm) >= SPEECH_RMS_THRESHOLD) {
+            this.lastSpeechAt = Date.now();
+        }
+    }
+
+    contentStart(event: any): void {
+        if (event?.type === 'TEXT' && event.role === 'USER') {
+            this.userTextContents.add(event.contentId);
+        }
+    }
+
+    /**
+     * @param toolsRunning whether tool calls of the turn are still executing
+     */
+    contentEnd(event: any, toolsRunning: boolean): void {
+        if (this.userTextContents.delete(event?.contentId)) {
+            this.userTranscriptEnd();
+        } else if (event?.type === 'AUDIO' && this.current) {
+            this.current.assistantEndAt = Date.now();
+            if (event.stopReason === 'INTERRUPTED') {
+                this.current.interrupted = true;
+            }
+            // More audio follows a partial turn or a tool result
+            if (event.stopReason !== 'PARTIAL_TURN' && !toolsRunning) {
+                this.finish();
+            }
+        }
+    }
+
+    audioOutput(): void {
+        if (this.current && this.current.firstAudioAt === undefined) {
+            this.current.firstAudioAt = Date.now();
+        }
+    }
+
+    bargeIn(): void {
+        if (this.current) this.current.interrupted = true;
+    }
+
+    toolStart(toolUseId: string, toolName: string): void {
+        if (!this.current) return;
+        this.current.tools.set(toolUseId, { toolName, startMs: Date.now() - this.current.startedAt });
+    }
+
+    toolEnd(toolUseId: string, error: boolean): void {
+        const tool = this.current?.tools.get(toolUseId);
+        if (!tool || !this.current) return;
+        tool.durationMs = Date.now() - this.current.startedAt - tool.startMs;
+        tool.error = error || undefined;
+    }
+
+    private userTranscriptEnd(): void {
+        const now = Date.now();
+        const turn = this.current;
+
+        // Another transcript segment before the assistant responded is the same turn
+        if (turn && turn.firstAudioAt === undefined && turn.tools.size === 0) {
+            turn.transcriptEndAt = now;
+            if (this.lastSpeechAt !== undefined && this.lastSpeechAt > turn.startedAt) {
+                turn.startedAt = this.lastSpeechAt;
+                turn.inputMode = 'audio';
+                this.lastTurnStartedAt = turn.startedAt;
+            }
+            return;
+        }
+        if (turn) this.finish();
+
+        const spoke = this.lastSpeechAt !== undefined && this.lastSpeechAt > this.lastTurnStartedAt;
+        const startedAt = spoke ? this.lastSpeechAt! : now;
+        this.lastTurnStartedAt = startedAt;
+        this.current = {
+            turn: ++this.turnCount,
+            startedAt,
+            inputMode: spoke ? 'audio' : 'text',
+            transcriptEndAt: now,
+            tools: new Map(),
+            interrupted: false
+        };
+        this.onTurnStart?.(this.current.turn, startedAt);
+    }
+
+    private finish(): void {
+        const turn = this.current;
+        if (!turn) return;
+        this.current = undefined;
+
+        const since = (at?: number) => at === undefined ? undefined : at - turn.startedAt;
+        const tools = Array.from(turn.tools.values());
+        this.onTurn({
+            turn: turn.turn,
+            timestamp: new Date(turn.startedAt).toISOString(),
+            inputMode: turn.inputMode,
+            transcriptionMs: turn.inputMode === 'audio' ? since(turn.transcriptEndAt) : undefined,
+            tools,
+            toolMs: tools.reduce((total, tool) => total + (tool.durationMs ?? 0), 0),
+            timeToFirstAudioMs: since(turn.firstAudioAt),
+            assistantEndMs: since(turn.assistantEndAt),
+            interrupted: turn.interrupted
+        });
+    }
+}
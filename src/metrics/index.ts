@@ -0,0 +1,8 @@
+/**
+ * Prometheus metrics and per-turn latency tracing
+ */
+export { metricsRegistry } from './registry';
+export { MetricsRecorder } from './MetricsRecorder';
+export type { TurnMetrics, TurnToolTiming } from './TurnTracker';
+export { TurnMetricsStore, DEFAULT_TURN_METRICS_DIR, TURN_METRICS_GROUPS } from './TurnMetricsStore';
+export type { TurnRecord, TurnLatencySummary, TurnMetricsGroup } from './TurnMetricsStore';
@@ -0,0 +1,84 @@
+/**
+ * Prometheus metric definitions, served from /metrics
+ */
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+
+// Process CPU, memory, event loop lag and GC
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'voicebot_' });
+
+export const sessionsCreated = new Counter({
+    name: 'voicebot_sessions_created_total',
+    help: 'Nova Sonic sessions created, by transport',
+    labelNames: ['source'] as const,
+    registers: [metricsRegistry]
+});
+
+export const sessionsClosed = new Counter({
+    name: 'voicebot_sessions_closed_total',
+    help: 'Nova Sonic sessions closed, by reason (closed, error, forceClosed)',
+    labelNames: ['reason'] as const,
+    registers: [metricsRegistry]
+});
+
+export const activeSessions = new Gauge({
+    name: 'voicebot_active_sessions',
+    help: 'Nova Sonic sessions currently open',
+    registers: [metricsRegistry]
+});
+
+export const timeToFirstAudio = new Histogram({
+    name: 'voicebot_time_to_first_audio_seconds',
+    help: 'Time from the end of the caller\'s speech (or text input) to the first assistant audio',
+    buckets: [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5, 8, 13],
+    registers: [metricsRegistry]
+});
+
+export const toolDuration = new Histogram({
+    name: 'voicebot_tool_duration_seconds',
+    help: 'Tool execution time, by tool and outcome',
+    labelNames: ['tool', 'outcome'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+    registers: [metricsRegistry]
+});
+
+export const toolInvocations = new Counter({
+    name: 'voicebot_tool_invocations_total',
+    help: 'Tool invocations, by tool and outcome (success, error)',
+    labelNames: ['tool', 'outcome'] as const,
+    registers: [metricsRegistry]
+});
+
+export const bargeIns = new Counter({
+    name: 'voicebot_barge_ins_total',
+    help: 'Times the caller interrupted the assistant',
+    registers: [metricsRegistry]
+});
+
+export const audioInputDropped = new Counter({
+    name: 'voicebot_audio_input_dropped_total',
+    help: 'Caller audio chunks dropped because the session input queue was full',
+    registers: [metricsRegistry]
+});
+
+export const streamErrors = new Counter({
+    name: 'voicebot_bedrock_stream_errors_total',
+    help: 'Bedrock response stream errors, by exception type',
+    labelNames: ['type'] as const,
+    registers: [metricsRegistry]
+});
+
+export const regionFailovers = new Counter({
+    name: 'voicebot_region_failovers_total',
+    help: 'Streams restarted in another region after a throttling or service error, by region',
+    labelNames: ['from', 'to'] as const,
+    registers: [metricsRegistry]
+});
+
+export const tokens = new Counter({
+    name: 'voicebot_tokens_total',
+    help: 'Tokens reported by usageEvent, by direction (input, output) and modality (speech, text)',
+    labelNames: ['direction', 'modality'] as const,
+    registers: [metricsRegistry]
+});
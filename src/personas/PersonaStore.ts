@@ -0,0 +1,139 @@
+/**
+ * PersonaStore - Persona profiles loaded from config/personas.json (or PERSONAS_CONFIG_PATH)
+ *
+ * Without a config file there is a single built-in persona matching the server's
+ * original hard-wired setup, so existing deployments behave as before.
+ */
+import fs from 'fs';
+import path from 'path';
+import { DefaultAudioOutputConfiguration } from '../consts';
+import { Persona, PersonaConfig, PersonasConfig } from './types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Personas' });
+
+export const DEFAULT_PERSONAS_CONFIG_PATH = path.join(process.cwd(), 'config', 'personas.json');
+
+// Text sent as the first user turn so the model speaks the greeting before the caller does
+export const GREETING_CUE = '[The caller has joined. Greet them now.]';
+
+// Text sent to live sessions shortly before a draining server closes them
+export const GOODBYE_CUE = '[The service is restarting and this call will end in a few seconds. Briefly tell the caller, apologize and say goodbye.]';
+
+// Text sent to a session shortly before it is closed for exceeding its usage budget
+export const BUDGET_GOODBYE_CUE = '[This conversation has reached its usage limit and will end in a few seconds. Briefly tell the caller, apologize and say goodbye.]';
+
+const BUILTIN_PERSONA: Persona = {
+    id: 'default',
+    systemPrompt: 'You are Riya, a sales executive at Jain Sales Corporation. Answer customer queries about pumps, motors, and cables.',
+    voiceId: DefaultAudioOutputConfiguration.voiceId,
+    enabledTools: ['search_knowledge_base']
+};
+
+/**
+ * The system prompt (the persona's unless overridden) with the persona's greeting instruction
+ */
+export function buildSystemPrompt(persona: Persona, systemPrompt: string = persona.systemPrompt): string {
+    if (!persona.greeting) return systemPrompt;
+    return `${systemPrompt}\n\nWhen the conversation starts, greet the caller with: "${persona.greeting}"`;
+}
+
+/**
+ * Per-session tool settings implied by the persona, for StreamSessionOptions.toolSettings
+ */
+export function personaToolSettings(persona: Persona): Record<string, Record<string, unknown>> | undefined {
+    if (!persona.knowledgeBase) return undefined;
+    return { search_knowledge_base: { ...persona.knowledgeBase } };
+}
+
+function resolvePersona(id: string, config: PersonaConfig, baseDir: string): Persona {
+    const { systemPromptFile, systemPrompt, ...rest } = config;
+    let prompt = systemPrompt;
+    if (systemPromptFile) {
+        prompt = fs.readFileSync(path.resolve(baseDir, systemPromptFile), 'utf-8');
+    }
+    if (!prompt) {
+        throw new Error(`persona "${id}" has no systemPrompt or systemPromptFile`);
+    }
+    return { ...rest, id, systemPrompt: prompt };
+}
+
+export class PersonaStore {
+    private personas = new Map<string, Persona>();
+    private phoneNumbers = new Map<string, string>();
+    readonly defaultPersonaId: string;
+
+    constructor(configPath: string = process.env.PERSONAS_CONFIG_PATH || DEFAULT_PERSONAS_CONFIG_PATH) {
+        if (!fs.existsSync(configPath)) {
+            log.info(`No persona config at ${configPath}, using the built-in persona`);
+            this.personas.set(BUILTIN_PERSONA.id, BUILTIN_PERSONA);
+            this.defaultPersonaId = BUILTIN_PERSONA.id;
+            return;
+        }
+
+        let config: PersonasConfig;
+        try {
+            config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+            for (const [id, personaConfig] of Object.entries(config.personas || {})) {
+                this.personas.set(id, resolvePersona(id, personaConfig, path.dirname(configPath)));
+            }
+        } catch (error) {
+            throw new Error(`Invalid persona config ${configPath}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const defaultId = process.env.DEFAULT_PERSONA || config.defaultPersona || this.personas.keys().next().value;
+        if (!defaultId || !this.personas.has(defaultId)) {
+            throw new Error(`Invalid persona config ${configPath}: default persona "${defaultId ?? ''}" is not defined`);
+        }
+        this.defaultPersonaId = defaultId;
+
+        for (const [number, personaId] of Object.entries(config.phoneNumbers || {})) {
+            if (!this.personas.has(personaId)) {
+                log.warn(`Phone number ${number} routes to unknown persona "${personaId}", ignoring`);
+                continue;
+            }
+            this.phoneNumbers.set(normalizeNumber(number), personaId);
+        }
+
+        log.info(`Loaded ${this.personas.size} persona(s) from ${configPath} (default: ${this.defaultPersonaId})`);
+    }
+
+    get(id: string): Persona | undefined {
+        return this.personas.get(id);
+    }
+
+    getDefault(): Persona {
+        return this.personas.get(this.defaultPersonaId)!;
+    }
+
+    list(): Persona[] {
+        return Array.from(this.personas.values());
+    }
+
+    /**
+     * Persona for a session: the requested one, else the fallback (e.g. a tenant's default),
+     * else the store's default. Throws if a requested persona doesn't exist.
+     */
+    resolve(requested?: string, fallback?: string): Persona {
+        const id = requested || fallback;
+        if (!id) return this.getDefault();
+
+        const persona = this.personas.get(id);
+        if (!persona) {
+            throw new Error(`Unknown persona: ${id}`);
+        }
+        return persona;
+    }
+
+    /** Persona routed to a called number, if any */
+    forPhoneNumber(number?: string): Persona | undefined {
+        if (!number) return undefined;
+        const id = this.phoneNumbers.get(normalizeNumber(number));
+        return id ? this.personas.get(id) : undefined;
+    }
+}
+
+// Carriers differ in formatting ("+91 98...", "9198..."); compare digits only
+function normalizeNumber(number: string): string {
+    return number.replace(/\D/g, '').replace(/^0+/, '');
+}
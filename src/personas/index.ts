@@ -0,0 +1,5 @@
+/**
+ * Persona profiles: prompt, voice, tools and knowledge base per business
+ */
+export type { Persona, PersonaConfig, PersonasConfig, PersonaKnowledgeBase } from './types';
+export { PersonaStore, DEFAULT_PERSONAS_CONFIG_PATH, GREETING_CUE, GOODBYE_CUE, BUDGET_GOODBYE_CUE, buildSystemPrompt, personaToolSettings } from './PersonaStore';
@@ -0,0 +1,44 @@
+/**
+ * Persona profiles - everything that makes a session speak for one business
+ */
+import { EndpointingSensitivity, InferenceConfig } from '../types';
+
+export interface PersonaKnowledgeBase {
+    knowledgeBaseId: string;
+    /** Model that generates answers from the retrieved passages */
+    modelArn?: string;
+    region?: string;
+    numberOfResults?: number;
+    /** Bedrock prompt template with a $search_results$ placeholder */
+    promptTemplate?: string;
+}
+
+export interface Persona {
+    id: string;
+    /** Display name, e.g. for a persona picker */
+    name?: string;
+    systemPrompt: string;
+    voiceId?: string;
+    enabledTools?: string[];
+    /** Knowledge base searched by search_knowledge_base */
+    knowledgeBase?: PersonaKnowledgeBase;
+    inferenceConfig?: InferenceConfig;
+    endpointingSensitivity?: EndpointingSensitivity;
+    /** What the assistant says first, before the caller speaks */
+    greeting?: string;
+}
+
+/** A persona as written in the config file */
+export interface PersonaConfig extends Omit<Persona, 'id' | 'systemPrompt'> {
+    systemPrompt?: string;
+    /** File holding the system prompt, relative to the config file */
+    systemPromptFile?: string;
+}
+
+export interface PersonasConfig {
+    /** Persona used when a session doesn't select one */
+    defaultPersona?: string;
+    personas: Record<string, PersonaConfig>;
+    /** Telephony routing: called number (as the carrier reports it) to persona ID */
+    phoneNumbers?: Record<string, string>;
+}
@@ -0,0 +1,233 @@
+/**
+ * CallRecorder - Records sessions to WAV files for quality review
+ *
+ * Attached to a client with addSessionEventListener like the transcript recorder.
+ * Recording is off unless enabled in DefaultRecordingConfiguration or per session
+ * (the `recording` session option). Files live in RECORDINGS_DIR (default data/recordings)
+ * and are deleted after the retention period. A <id>.json file next to each recording
+ * names its session and tenant, so tenants only see their own recordings.
+ */
+import fs from 'fs';
+import path from 'path';
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { DefaultRecordingConfiguration } from '../consts';
+import { RecordingOptions } from '../types';
+import { CallRecording } from './CallRecording';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Recordings' });
+
+export const DEFAULT_RECORDINGS_DIR = path.join(process.cwd(), 'data', 'recordings');
+
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RecordingVariant = 'stereo' | 'mono';
+
+export interface RecordingSummary {
+    id: string;
+    /** Tenant of the recorded session; unset for sessions without one (e.g. phone calls) */
+    tenant?: string;
+    createdAt: string;
+    sizeBytes: number;
+    hasMono: boolean;
+}
+
+export function isValidRecordingId(id: string): boolean {
+    return RECORDING_ID_PATTERN.test(id);
+}
+
+export class CallRecorder {
+    private active = new Map<string, CallRecording>();
+    private finishing = new Set<Promise<void>>();
+    private sweepTimer?: NodeJS.Timeout;
+
+    constructor(
+        readonly dir: string = process.env.RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR,
+        private sampleRate: number = DefaultRecordingConfiguration.sampleRate,
+        private retentionDays: number = DefaultRecordingConfiguration.retentionDays
+    ) {
+        fs.mkdirSync(dir, { recursive: true });
+
+        if (retentionDays > 0) {
+            this.sweep();
+            this.sweepTimer = setInterval(() => this.sweep(), RETENTION_SWEEP_INTERVAL_MS);
+            this.sweepTimer.unref();
+        }
+    }
+
+    /**
+     * Record every session of a client that has recording enabled. Returns a function
+     * that detaches the recorder.
+     */
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => this.handleEvent(sessionId, eventType, data));
+    }
+
+    /** Recording ID of a session that is still running */
+    getRecordingId(sessionId: string): string | undefined {
+        return this.active.get(sessionId)?.id;
+    }
+
+    /**
+     * Most recent recordings first, only the tenant's if `tenant` is given
+     */
+    async list(limit = 50, tenant?: string): Promise<RecordingSummary[]> {
+        const files = await fs.promises.readdir(this.dir);
+        const ids = files
+            .filter(file => file.endsWith('.wav') && !file.endsWith('.mono.wav'))
+            .map(file => path.basename(file, '.wav'))
+            .sort()
+            .reverse();
+
+        const summaries: RecordingSummary[] = [];
+        for (const id of ids) {
+            if (summaries.length >= limit) break;
+            const recordedTenant = await this.readTenant(id);
+            if (tenant !== undefined && recordedTenant !== tenant) continue;
+            try {
+                const stat = await fs.promises.stat(this.filePath(id, 'stereo'));
+                summaries.push({
+                    id,
+                    tenant: recordedTenant,
+                    createdAt: stat.birthtime.toISOString(),
+                    sizeBytes: stat.size,
+                    hasMono: files.includes(`${id}.mono.wav`)
+                });
+            } catch {
+                // Deleted by the retention sweep while listing
+            }
+        }
+        return summaries;
+    }
+
+    /**
+     * Path of a finished recording, or undefined if there is none (or, when `tenant`
+     * is given, it belongs to another tenant)
+     */
+    async getFile(id: string, variant: RecordingVariant = 'stereo', tenant?: string): Promise<string | undefined> {
+        if (!isValidRecordingId(id)) return undefined;
+        if (tenant !== undefined && await this.readTenant(id) !== tenant) return undefined;
+        const file = this.filePath(id, variant);
+        try {
+            await fs.promises.access(file);
+            return file;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Finish recordings of sessions still running, e.g. before shutdown */
+    async flush(): Promise<void> {
+        for (const sessionId of Array.from(this.active.keys())) {
+            this.finish(sessionId);
+        }
+        await Promise.all(this.finishing);
+    }
+
+    stop(): void {
+        if (this.sweepTimer) clearInterval(this.sweepTimer);
+    }
+
+    private handleEvent(sessionId: string, eventType: string, data: any): void {
+        if (eventType === 'sessionStart') {
+            this.start(sessionId, data?.recording, data?.metadata?.tenant);
+            return;
+        }
+
+        const recording = this.active.get(sessionId);
+        if (!recording) return;
+
+        try {
+            switch (eventType) {
+                case 'audioInput':
+                    recording.writeCaller(data.content, data.sampleRateHertz);
+                    break;
+                case 'audioOutput':
+                    if (data?.content) {
+                        recording.writeAssistant(Buffer.from(data.content, 'base64'), data.sampleRateHertz);
+                    }
+                    break;
+                case 'bargeIn':
+                    recording.truncateAssistant();
+                    break;
+                case 'contentEnd':
+                    if (data?.type === 'AUDIO' && data.stopReason === 'INTERRUPTED') {
+                        recording.truncateAssistant();
+                    }
+                    break;
+                case 'sessionEnd':
+                    this.finish(sessionId);
+                    break;
+            }
+        } catch (error) {
+            // A failing disk shouldn't take the call down with it; keep what was recorded so far
+            log.error('Failed to stop recording', { recordingId: recording.id, error });
+            this.finish(sessionId);
+        }
+    }
+
+    private start(sessionId: string, overrides?: Partial<RecordingOptions>, tenant?: string): void {
+        const options: RecordingOptions = { ...DefaultRecordingConfiguration, ...overrides };
+        if (!options.enabled) return;
+
+        const id = `${Date.now()}-${sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+        try {
+            fs.writeFileSync(this.metadataPath(id), JSON.stringify({ sessionId, tenant }));
+            this.active.set(sessionId, new CallRecording(id, this.dir, this.sampleRate, options.mixedMono));
+            log.info('Recording session', { sessionId, recordingId: id });
+        } catch (error) {
+            log.error('Failed to start recording', { sessionId, error });
+        }
+    }
+
+    private finish(sessionId: string): void {
+        const recording = this.active.get(sessionId);
+        if (!recording) return;
+        this.active.delete(sessionId);
+
+        const done = recording.finish()
+            .then(files => log.info(`Saved ${path.basename(files.stereo)}${files.mono ? ` and ${path.basename(files.mono)}` : ''}`))
+            .catch(error => log.error('Failed to save recording', { recordingId: recording.id, error }))
+            .finally(() => this.finishing.delete(done));
+        this.finishing.add(done);
+    }
+
+    /**
+     * Delete recordings past the retention period
+     */
+    private async sweep(): Promise<void> {
+        const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+        try {
+            for (const file of await fs.promises.readdir(this.dir)) {
+                if (!file.endsWith('.wav') && !file.endsWith('.json')) continue;
+                const filePath = path.join(this.dir, file);
+                const stat = await fs.promises.stat(filePath);
+                if (stat.mtimeMs < cutoff) {
+                    await fs.promises.rm(filePath, { force: true });
+                    log.info(`Deleted ${file} (older than ${this.retentionDays} days)`);
+                }
+            }
+        } catch (error) {
+            log.error('Retention sweep failed', { error });
+        }
+    }
+
+    // Tenant from the recording's metadata file; recordings from before it existed have none
+    private async readTenant(id: string): Promise<string | undefined> {
+        try {
+            const metadata = JSON.parse(await fs.promises.readFile(this.metadataPath(id), 'utf-8'));
+            return typeof metadata.tenant === 'string' ? metadata.tenant : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private filePath(id: string, variant: RecordingVariant): string {
+        return path.join(this.dir, variant === 'mono' ? `${id}.mono.wav` : `${id}.wav`);
+    }
+
+    private metadataPath(id: string): string {
+        return path.join(this.dir, `${id}.json`);
+    }
+}
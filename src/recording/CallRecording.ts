@@ -0,0 +1,180 @@
+/**
+ * CallRecording - One session's caller and assistant audio on a shared timeline
+ *
+ * Each channel is written to a raw PCM scratch file at the byte offset matching the
+ * wall-clock time the audio belongs to, so gaps become silence without buffering the
+ * call in memory:
+ * - caller audio streams in real time and is appended, jumping ahead after a pause
+ * - assistant audio arrives faster than it plays, so it is queued after whatever is
+ *   still "playing", and cut at the barge-in time when the caller interrupts
+ * finish() interleaves the two into a stereo WAV (caller left, assistant right).
+ */
+import fs from 'fs';
+import path from 'path';
+import { Resampler } from '../audio';
+import { WAV_HEADER_BYTES, wavHeader } from './wav';
+
+// Caller chunks arriving within this much of the expected position are treated as contiguous
+const JITTER_TOLERANCE_MS = 250;
+const FINISH_BLOCK_SAMPLES = 32768;
+
+interface Channel {
+    file: string;
+    fd: number;
+    /** End of the audio written so far, in bytes */
+    bytes: number;
+    resampler?: Resampler;
+}
+
+export interface RecordingFiles {
+    stereo: string;
+    mono?: string;
+}
+
+function toSamples(pcm: Buffer): Int16Array {
+    const samples = new Int16Array(Math.floor(pcm.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = pcm.readInt16LE(i * 2);
+    }
+    return samples;
+}
+
+export class CallRecording {
+    private caller: Channel;
+    private assistant: Channel;
+    private finished = false;
+
+    constructor(
+        readonly id: string,
+        private dir: string,
+        readonly sampleRate: number,
+        private mixedMono: boolean,
+        private startedAt: number = Date.now()
+    ) {
+        this.caller = this.openChannel('caller');
+        this.assistant = this.openChannel('assistant');
+    }
+
+    writeCaller(pcm: Buffer, sampleRate: number): void {
+        const data = this.resample(this.caller, pcm, sampleRate);
+        const expectedStart = this.elapsedBytes() - data.length;
+        const position = expectedStart - this.caller.bytes > this.msToBytes(JITTER_TOLERANCE_MS)
+            ? this.align(expectedStart)
+            : this.caller.bytes;
+        this.write(this.caller, data, position);
+    }
+
+    writeAssistant(pcm: Buffer, sampleRate: number): void {
+        const data = this.resample(this.assistant, pcm, sampleRate);
+        this.write(this.assistant, data, Math.max(this.assistant.bytes, this.align(this.elapsedBytes())));
+    }
+
+    /**
+     * The caller interrupted: assistant audio scheduled after now was never heard
+     */
+    truncateAssistant(): void {
+        if (this.finished) return;
+        const now = this.align(this.elapsedBytes());
+        if (this.assistant.bytes > now) {
+            fs.ftruncateSync(this.assistant.fd, now);
+            this.assistant.bytes = now;
+        }
+    }
+
+    /**
+     * Close the scratch files and write the WAV file(s)
+     */
+    async finish(): Promise<RecordingFiles> {
+        this.finished = true;
+        fs.closeSync(this.caller.fd);
+        fs.closeSync(this.assistant.fd);
+
+        const files: RecordingFiles = { stereo: path.join(this.dir, `${this.id}.wav`) };
+        if (this.mixedMono) {
+            files.mono = path.join(this.dir, `${this.id}.mono.wav`);
+        }
+
+        try {
+            await this.writeWav(files);
+        } finally {
+            await Promise.all([
+                fs.promises.rm(this.caller.file, { force: true }),
+                fs.promises.rm(this.assistant.file, { force: true })
+            ]);
+        }
+        return files;
+    }
+
+    private async writeWav(files: RecordingFiles): Promise<void> {
+        const totalSamples = Math.max(this.caller.bytes, this.assistant.bytes) / 2;
+        const stereo = await fs.promises.open(files.stereo, 'w');
+        const mono = files.mono ? await fs.promises.open(files.mono, 'w') : undefined;
+        const callerIn = await fs.promises.open(this.caller.file, 'r');
+        const assistantIn = await fs.promises.open(this.assistant.file, 'r');
+
+        try {
+            await stereo.write(wavHeader(totalSamples * 4, this.sampleRate, 2), 0, WAV_HEADER_BYTES, 0);
+            await mono?.write(wavHeader(totalSamples * 2, this.sampleRate, 1), 0, WAV_HEADER_BYTES, 0);
+
+            const callerBlock = Buffer.alloc(FINISH_BLOCK_SAMPLES * 2);
+            const assistantBlock = Buffer.alloc(FINISH_BLOCK_SAMPLES * 2);
+            for (let offset = 0; offset < totalSamples; offset += FINISH_BLOCK_SAMPLES) {
+                const count = Math.min(FINISH_BLOCK_SAMPLES, totalSamples - offset);
+                // Past the end of a shorter channel the buffers read as silence
+                callerBlock.fill(0);
+                assistantBlock.fill(0);
+                await callerIn.read(callerBlock, 0, count * 2, offset * 2);
+                await assistantIn.read(assistantBlock, 0, count * 2, offset * 2);
+
+                const interleaved = Buffer.alloc(count * 4);
+                const mixed = mono ? Buffer.alloc(count * 2) : undefined;
+                for (let i = 0; i < count; i++) {
+                    const left = callerBlock.readInt16LE(i * 2);
+                    const right = assistantBlock.readInt16LE(i * 2);
+                    interleaved.writeInt16LE(left, i * 4);
+                    interleaved.writeInt16LE(right, i * 4 + 2);
+                    mixed?.writeInt16LE(Math.max(-32768, Math.min(32767, left + right)), i * 2);
+                }
+                await stereo.write(interleaved, 0, interleaved.length, WAV_HEADER_BYTES + offset * 4);
+                if (mono && mixed) {
+                    await mono.write(mixed, 0, mixed.length, WAV_HEADER_BYTES + offset * 2);
+                }
+            }
+        } finally {
+            await Promise.all([stereo.close(), mono?.close(), callerIn.close(), assistantIn.close()]);
+        }
+    }
+
+    private openChannel(name: string): Channel {
+        const file = path.join(this.dir, `${this.id}.${name}.pcm`);
+        return { file, fd: fs.openSync(file, 'w+'), bytes: 0 };
+    }
+
+    private resample(channel: Channel, pcm: Buffer, sampleRate: number): Buffer {
+        if (sampleRate === this.sampleRate) return pcm;
+        if (!channel.resampler || channel.resampler.fromRate !== sampleRate) {
+            channel.resampler = new Resampler(sampleRate, this.sampleRate);
+        }
+        const samples = channel.resampler.process(toSamples(pcm));
+        return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+    }
+
+    private write(channel: Channel, data: Buffer, position: number): void {
+        if (this.finished || data.length === 0) return;
+        fs.writeSync(channel.fd, data, 0, data.length, position);
+        channel.bytes = Math.max(channel.bytes, position + data.length);
+    }
+
+    private elapsedBytes(): number {
+        return this.msToBytes(Date.now() - this.startedAt);
+    }
+
+    private msToBytes(ms: number): number {
+        return Math.max(0, Math.round((ms * this.sampleRate) / 1000)) * 2;
+    }
+
+    // Keep positions on sample boundaries
+    private align(bytes: number): number {
+        return Math.max(0, bytes - (bytes % 2));
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Call recording to WAV files
+ */
+export { CallRecorder, DEFAULT_RECORDINGS_DIR, isValidRecordingId } from './CallRecorder';
+export type { RecordingSummary, RecordingVariant } from './CallRecorder';
+export { CallRecording } from './CallRecording';
+export type { RecordingFiles } from './CallRecording';
+export { wavHeader } from './wav';
@@ -0,0 +1,26 @@
+/**
+ * WAV (RIFF) header for 16-bit PCM
+ */
+
+export const WAV_HEADER_BYTES = 44;
+
+export function wavHeader(dataBytes: number, sampleRate: number, channels: number): Buffer {
+    const blockAlign = channels * 2;
+    const header = Buffer.alloc(WAV_HEADER_BYTES);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + dataBytes, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);           // fmt chunk size
+    header.writeUInt16LE(1, 20);            // PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(16, 34);           // bits per sample
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataBytes, 40);
+
+    return header;
+}
@@ -0,0 +1,210 @@
+/**
+ * RegionPolicy - Which Bedrock region a session starts in and where it fails over to
+ *
+ * Every region in AWSConfig.availableRegions (or the comma-separated AWS_REGIONS) is
+ * probed every REGION_PROBE_INTERVAL_SEC (default 60) with a request to its
+ * bedrock-runtime endpoint; any HTTP response counts as reachable and its round
+ * trip as the region's latency. A region whose stream failed with a throttling or
+ * service error is skipped for REGION_COOLDOWN_SEC (default 60). Fallback lists
+ * are the other healthy regions, closest first, then the unhealthy ones.
+ */
+import https from 'https';
+import { AWSConfig } from '../consts';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Regions' });
+
+export const DEFAULT_REGION_PROBE_INTERVAL_MS = 60_000;
+export const DEFAULT_REGION_COOLDOWN_MS = 60_000;
+const PROBE_TIMEOUT_MS = 3000;
+
+// Bedrock errors worth retrying in another region
+const RETRYABLE_ERRORS = new Set([
+    'ThrottlingException',
+    'ServiceUnavailableException',
+    'ServiceQuotaExceededException',
+    'InternalServerException',
+    'ModelStreamErrorException',
+    'ModelTimeoutException',
+    'ModelNotReadyException'
+]);
+
+/**
+ * Whether a stream error is the region's fault (throttling, 5xx, network) rather
+ * than the request's, so the same request may succeed elsewhere
+ */
+export function isRegionFailure(error: unknown): boolean {
+    if (!error || typeof error !== 'object') return false;
+    const { name, code, $metadata } = error as { name?: string; code?: string; $metadata?: { httpStatusCode?: number } };
+    if (name && RETRYABLE_ERRORS.has(name)) return true;
+    const status = $metadata?.httpStatusCode;
+    if (status !== undefined && (status === 429 || status >= 500)) return true;
+    return !!code && ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'].includes(code);
+}
+
+/** What the stream client needs to fail a session over */
+export interface RegionFailover {
+    /** Regions to try after `primary`, in order; `allowed` restricts them (e.g. a tenant's regions) */
+    fallbackRegions(primary: string, allowed?: string[]): string[];
+    /** A stream in this region failed with a region failure */
+    reportFailure(region: string, error: unknown): void;
+}
+
+export interface RegionStatus {
+    region: string;
+    healthy: boolean;
+    latencyMs?: number;
+    checkedAt?: string;
+    error?: string;
+    /** Set while the region is skipped after a stream failure */
+    cooldownUntil?: string;
+}
+
+export interface RegionPolicyOptions {
+    regions: string[];
+    /** Used before any probe has finished */
+    defaultRegion: string;
+    probeIntervalMs: number;
+    cooldownMs: number;
+}
+
+export function regionPolicyOptionsFromEnv(defaultRegion: string): RegionPolicyOptions {
+    const regions = process.env.AWS_REGIONS
+        ? process.env.AWS_REGIONS.split(',').map(region => region.trim()).filter(Boolean)
+        : AWSConfig.availableRegions;
+    const seconds = (name: string, fallbackMs: number) => {
+        const value = parseFloat(process.env[name] || '');
+        return Number.isFinite(value) && value > 0 ? value * 1000 : fallbackMs;
+    };
+    return {
+        regions: regions.includes(defaultRegion) ? regions : [defaultRegion, ...regions],
+        defaultRegion,
+        probeIntervalMs: seconds('REGION_PROBE_INTERVAL_SEC', DEFAULT_REGION_PROBE_INTERVAL_MS),
+        cooldownMs: seconds('REGION_COOLDOWN_SEC', DEFAULT_REGION_COOLDOWN_MS)
+    };
+}
+
+interface ProbeState {
+    reachable: boolean;
+    latencyMs?: number;
+    checkedAt?: number;
+    error?: string;
+    cooldownUntil?: number;
+}
+
+export class RegionPolicy implements RegionFailover {
+    private states = new Map<string, ProbeState>();
+    private timer?: NodeJS.Timeout;
+
+    constructor(private readonly options: RegionPolicyOptions) {
+        for (const region of options.regions) {
+            this.states.set(region, { reachable: true });
+        }
+    }
+
+    get regions(): string[] {
+        return [...this.options.regions];
+    }
+
+    /** Probe now and then every probeIntervalMs */
+    start(): void {
+        if (this.timer) return;
+        this.probeAll();
+        this.timer = setInterval(() => this.probeAll(), this.options.probeIntervalMs);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    isHealthy(region: string): boolean {
+        const state = this.states.get(region);
+        if (!state) return false;
+        return state.reachable && !(state.cooldownUntil && state.cooldownUntil > Date.now());
+    }
+
+    /**
+     * The lowest-latency healthy region among `allowed` (all regions by default). The
+     * default region (or the first allowed one) is used until probes have measured a
+     * latency, unless it is failing, and when no region is healthy.
+     */
+    closestHealthyRegion(allowed?: string[]): string {
+        const fallback = !allowed || allowed.includes(this.options.defaultRegion) ? this.options.defaultRegion : allowed[0];
+        const best = this.ordered(this.options.regions.filter(region => !allowed || allowed.includes(region)))[0];
+        if (!best || !this.isHealthy(best)) return fallback;
+        if (this.states.get(best)!.latencyMs === undefined && this.isHealthy(fallback)) return fallback;
+        return best;
+    }
+
+    fallbackRegions(primary: string, allowed?: string[]): string[] {
+        return this.ordered(this.options.regions.filter(region => region !== primary && (!allowed || allowed.includes(region))));
+    }
+
+    reportFailure(region: string, error: unknown): void {
+        const state = this.states.get(region);
+        if (!state) return;
+        state.cooldownUntil = Date.now() + this.options.cooldownMs;
+        log.warn('Region failed, skipping it for new sessions', {
+            region,
+            cooldownMs: this.options.cooldownMs,
+            error: error instanceof Error ? error.name : String(error)
+        });
+    }
+
+    getStatus(): RegionStatus[] {
+        const now = Date.now();
+        return this.options.regions.map(region => {
+            const state = this.states.get(region)!;
+            return {
+                region,
+                healthy: this.isHealthy(region),
+                latencyMs: state.latencyMs,
+                checkedAt: state.checkedAt !== undefined ? new Date(state.checkedAt).toISOString() : undefined,
+                error: state.error,
+                cooldownUntil: state.cooldownUntil && state.cooldownUntil > now ? new Date(state.cooldownUntil).toISOString() : undefined
+            };
+        });
+    }
+
+    // Healthy regions by latency (unprobed last), then unhealthy ones in configured order
+    private ordered(regions: string[]): string[] {
+        const latency = (region: string) => this.states.get(region)?.latencyMs ?? Infinity;
+        const healthy = regions.filter(region => this.isHealthy(region)).sort((a, b) => latency(a) - latency(b));
+        return [...healthy, ...regions.filter(region => !this.isHealthy(region))];
+    }
+
+    private probeAll(): void {
+        for (const region of this.options.regions) {
+            this.probe(region).catch(error => log.error('Region probe failed', { region, error }));
+        }
+    }
+
+    private async probe(region: string): Promise<void> {
+        const state = this.states.get(region)!;
+        const startedAt = Date.now();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const request = https.request(`https://bedrock-runtime.${region}.amazonaws.com/`, { method: 'HEAD', timeout: PROBE_TIMEOUT_MS }, response => {
+                    response.resume();
+                    resolve();
+                });
+                request.on('timeout', () => request.destroy(new Error(`No response within ${PROBE_TIMEOUT_MS}ms`)));
+                request.on('error', reject);
+                request.end();
+            });
+            state.reachable = true;
+            state.latencyMs = Date.now() - startedAt;
+            state.error = undefined;
+        } catch (error) {
+            if (state.reachable) {
+                log.warn('Region unreachable', { region, error: error instanceof Error ? error.message : String(error) });
+            }
+            state.reachable = false;
+            state.latencyMs = undefined;
+            state.error = error instanceof Error ? error.message : String(error);
+        }
+        state.checkedAt = Date.now();
+    }
+}
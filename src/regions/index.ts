@@ -0,0 +1,5 @@
+/**
+ * Region selection and failover for Bedrock streams
+ */
+export { RegionPolicy, regionPolicyOptionsFromEnv, isRegionFailure, DEFAULT_REGION_PROBE_INTERVAL_MS, DEFAULT_REGION_COOLDOWN_MS } from './RegionPolicy';
+export type { RegionFailover, RegionStatus, RegionPolicyOptions } from './RegionPolicy';
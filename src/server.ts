@@ -3,23 +3,101 @@ import http from 'http';
 import path from 'path';
 import { Server } from 'socket.io';
 import { NovaSonicBidirectionalStreamClient, StreamSession } from './client';
+import { ExotelWebSocketHandler } from './exotelHandler';
+import { TwilioMediaStreamHandler } from './twilioHandler';
 import { Buffer } from 'node:buffer';
 import { AWSConfig } from './consts';
+import { McpToolProvider, loadToolsConfig, isToolAllowed, createDefaultToolRegistry } from './tools';
+import { TranscriptStore, TranscriptRecorder, summarize, toPlainText, toSrt, TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormat, TranscriptSummary } from './transcripts';
+import { CallRecorder } from './recording';
+import { AuthService, AuthError, requireAuth, requireAdmin, isAdmin, socketAuth, getPrincipal, assertRegionAllowed, assertPersonaAllowed, resolveEnabledTools, resolveVoice, AuthPrincipal } from './auth';
+import { Persona, PersonaStore, GREETING_CUE, GOODBYE_CUE, BUDGET_GOODBYE_CUE, buildSystemPrompt, personaToolSettings } from './personas';
+import { MetricsRecorder, metricsRegistry, TurnMetricsStore, TURN_METRICS_GROUPS, TurnMetricsGroup } from './metrics';
+import { setupTracing, shutdownTracing } from './telemetry';
+import { logger } from './logging';
+import { SessionMonitor } from './admin';
+import { DrainController, drainOptionsFromEnv } from './lifecycle';
+import { HealthChecker, EventLoopLagProbe, credentialsProbe, toolProbes } from './health';
+import { RegionPolicy, regionPolicyOptionsFromEnv } from './regions';
+import { AdmissionController, AdmissionError, admissionOptionsFromEnv } from './admission';
+import { UsageTracker, BudgetEvent, usageOptionsFromEnv, budgetsFromEnv } from './usage';
 
 const DEFAULT_REGION = process.env.AWS_REGION || AWSConfig.defaultRegion;
 
+// Streams per region's HTTP/2 connection
+const MAX_CONCURRENT_STREAMS = 10;
+
+const log = logger.child({ component: 'Server' });
+
+// A socket's logger, bound to its session ID and tenant
+function socketLogger(socket: any) {
+    return log.child({ sessionId: socket.id, tenant: getPrincipal(socket)?.tenant.id });
+}
+
+// Session, turn, tool and Bedrock spans go to the OTLP endpoint in OTEL_EXPORTER_OTLP_ENDPOINT, if set
+setupTracing();
+
 // Create Express app and HTTP server
 const app = express();
 const server = http.createServer(app);
 const io = new Server(server);
 
+// API keys / JWTs map each caller to a tenant whose limits apply to its sessions
+const auth = new AuthService();
+io.use(socketAuth(auth));
+app.use(['/api', '/health'], requireAuth(auth));
+
+// MCP server tools are shared by every region's tool registry
+// Tool config and plugins are loaded once; every region's client shares the registry
+const toolsConfig = loadToolsConfig();
+const toolRegistry = createDefaultToolRegistry(toolsConfig);
+const mcpTools = new McpToolProvider(toolsConfig);
+mcpTools.attach(toolRegistry);
+mcpTools.start().catch(error => log.error('Failed to start MCP servers', { error }));
+
+// Every session's turns, tool calls and usage are written to TRANSCRIPTS_DIR
+const transcriptStore = new TranscriptStore();
+const transcriptRecorder = process.env.TRANSCRIPTS_ENABLED !== 'false' ? new TranscriptRecorder(transcriptStore) : undefined;
+
+// Sessions with recording enabled are written to RECORDINGS_DIR as stereo WAV
+const callRecorder = new CallRecorder();
+
+// Session, tool, latency and token metrics for /metrics
+const metricsRecorder = new MetricsRecorder();
+
+// Latency breakdown of every turn, written to TURN_METRICS_DIR for analysis
+const turnMetricsStore = new TurnMetricsStore();
+
+// Tools, token usage and recent events of live sessions for the admin API
+const sessionMonitor = new SessionMonitor();
+
+// Tokens and estimated cost per session, tenant and day, written to USAGE_DIR; budgets warn, then end sessions
+const defaultBudgets = budgetsFromEnv();
+const usageTracker = new UsageTracker({
+    ...usageOptionsFromEnv(),
+    budgetsFor: tenantId => auth.getTenant(tenantId)?.budgets ?? defaultBudgets,
+    onBudget: event => handleBudget(event)
+});
+const BUDGET_GOODBYE_MS = (parseFloat(process.env.BUDGET_GOODBYE_SEC || '') || 10) * 1000;
+
+// Prompt, voice, tools and knowledge base per business, selected per session or call
+const personas = new PersonaStore();
+
+// Closest healthy region for sessions that don't pick one, and failover order when a region fails
+const regionPolicy = new RegionPolicy(regionPolicyOptionsFromEnv(DEFAULT_REGION));
+regionPolicy.start();
+
+// Sessions wait for a free stream in their region and within their tenant's maxConcurrentSessions;
+// one stream per region is kept free for the successor stream of a rollover
+const admission = new AdmissionController(admissionOptionsFromEnv(MAX_CONCURRENT_STREAMS - 1));
+
 // Store clients per region
 const regionClients = new Map<string, NovaSonicBidirectionalStreamClient>();
 
 // Get or create a client for a specific region
 function getClientForRegion(region: string): NovaSonicBidirectionalStreamClient {
     if (!regionClients.has(region)) {
-        console.log(`Creating new Bedrock client for region: ${region}`);
+        log.info('Creating new Bedrock client', { region });
         
         // AWS SDK automatically uses credential chain:
         // 1. Environment variables (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY)
@@ -28,13 +106,22 @@ function getClientForRegion(region: string): NovaSonicBidirectionalStreamClient
         // 4. EC2 instance metadata (IAM role)
         const client = new NovaSonicBidirectionalStreamClient({
             requestHandlerConfig: {
-                maxConcurrentStreams: 10,
+                maxConcurrentStreams: MAX_CONCURRENT_STREAMS,
             },
             clientConfig: {
                 region: region
                 // credentials omitted - SDK uses default chain
-            }
+            },
+            regionFailover: regionPolicy,
+            toolRegistry
         });
+        transcriptRecorder?.attach(client);
+        callRecorder.attach(client);
+        metricsRecorder.attach(client);
+        turnMetricsStore.attach(client);
+        sessionMonitor.attach(client);
+        admission.attach(client);
+        usageTracker.attach(client);
         regionClients.set(region, client);
     }
     return regionClients.get(region)!;
@@ -43,13 +130,65 @@ function getClientForRegion(region: string): NovaSonicBidirectionalStreamClient
 // Initialize default region client
 const defaultClient = getClientForRegion(DEFAULT_REGION);
 
+// Telephony calls stream over plain WebSockets on /exotel and /twilio
+const exotelHandler = new ExotelWebSocketHandler(server, defaultClient, personas, auth, admission, usageTracker);
+const twilioHandler = new TwilioMediaStreamHandler(server, defaultClient, personas, auth, admission, usageTracker);
+
+function countActiveSessions(): number {
+    let total = 0;
+    regionClients.forEach(client => {
+        total += client.getActiveSessions().length;
+    });
+    return total;
+}
+
+// Drain mode (SIGTERM or POST /api/admin/drain): refuse new sessions, let live ones finish
+const drainer = new DrainController({
+    ...drainOptionsFromEnv(),
+    countSessions: countActiveSessions,
+    sayGoodbye: async () => {
+        regionClients.forEach(client => {
+            client.getActiveSessions().forEach(sessionId => client.sendTextInputEvent(sessionId, GOODBYE_CUE));
+        });
+    }
+});
+
+// Readiness probes for /readyz: credentials per region, tool backends and event-loop lag
+const eventLoopLagProbe = new EventLoopLagProbe();
+const healthChecker = new HealthChecker(() => [
+    ...Array.from(regionClients.values()).map(credentialsProbe),
+    ...toolProbes(defaultClient.getToolRegistry()),
+    eventLoopLagProbe
+]);
+
+const DEFAULT_DRAIN_MESSAGE = 'The server is restarting soon. Please finish your conversation.';
+
+// Start draining (or join the drain in progress) and tell connected browsers
+function startDrain(reason: string, notice: { message?: string; retryAfterSec?: number } = {}): Promise<void> {
+    if (drainer.isDraining()) return drainer.drain(reason);
+
+    exotelHandler.stopAcceptingCalls();
+    twilioHandler.stopAcceptingCalls();
+    const drained = drainer.drain(reason);
+    io.emit('drainNotice', {
+        message: notice.message || DEFAULT_DRAIN_MESSAGE,
+        retryAfterSec: notice.retryAfterSec,
+        deadline: drainer.status().deadline
+    });
+    return drained;
+}
+
 // Track active sessions per socket
 const socketSessions = new Map<string, StreamSession>();
 const socketClients = new Map<string, NovaSonicBidirectionalStreamClient>();
 const socketConfigs = new Map<string, any>();
+const socketPersonas = new Map<string, Persona>();
+// Abort a socket's wait in the admission queue
+const socketAdmissions = new Map<string, AbortController>();
 
 // Session states
 enum SessionState {
+    QUEUED = 'queued',
     INITIALIZING = 'initializing',
     READY = 'ready',
     ACTIVE = 'active',
@@ -65,13 +204,17 @@ setInterval(() => {
 
     regionClients.forEach((client, region) => {
         client.getActiveSessions().forEach(sessionId => {
+            // A successor stream is being set up under this ID; leave it alone
+            if (client.isRolloverInProgress(sessionId)) {
+                return;
+            }
             const lastActivity = client.getLastActivityTime(sessionId);
             if (now - lastActivity > 5 * 60 * 1000) {
-                console.log(`Closing inactive session ${sessionId} in region ${region}`);
+                log.info('Closing inactive session', { sessionId, region });
                 try {
                     client.forceCloseSession(sessionId);
                 } catch (error) {
-                    console.error('Error force closing inactive session %s:', sessionId, error);
+                    log.error('Error force closing inactive session', { sessionId, error });
                 }
             }
         });
@@ -84,11 +227,67 @@ setInterval(() => {
 // Helper function to create and initialize a new session
 async function createNewSession(socket: any, config: any = {}): Promise<StreamSession> {
     const sessionId = socket.id;
-    const region = config.region || DEFAULT_REGION;
-    const client = getClientForRegion(region);
+    const tenant = getPrincipal(socket)?.tenant;
+    if (!tenant) {
+        throw new AuthError('Not authenticated');
+    }
+    // Without a requested region, any healthy one the tenant may use can take the session
+    const preferred = config.region || regionPolicy.closestHealthyRegion(tenant.allowedRegions);
+    const candidates = config.region
+        ? [preferred]
+        : [preferred, ...regionPolicy.fallbackRegions(preferred, tenant.allowedRegions).filter(region => regionPolicy.isHealthy(region))];
+    if (drainer.isDraining()) {
+        throw new Error('Server is draining; reconnect to start a new session');
+    }
+    const sessionLog = socketLogger(socket);
 
     try {
-        console.log(`Creating new session for client: ${sessionId} in region: ${region}`);
+        // The persona supplies whatever the client config leaves out
+        const persona = personas.resolve(config.persona, tenant.defaultPersona);
+
+        // Tenant limits are checked before any Bedrock resources are created
+        assertRegionAllowed(tenant, preferred);
+        assertPersonaAllowed(tenant, persona.id);
+        const enabledTools = resolveEnabledTools(tenant, Array.isArray(config.enabledTools) ? config.enabledTools : persona.enabledTools);
+        if (usageTracker.isOverDailyBudget(tenant.id)) {
+            throw new AuthError(`Tenant ${tenant.id} has used up its daily budget`, 403);
+        }
+
+        // Wait in the queue while the regions or the tenant are at capacity; a new request replaces a waiting one
+        socketAdmissions.get(sessionId)?.abort();
+        const waiting = new AbortController();
+        socketAdmissions.set(sessionId, waiting);
+        let queuedAt: number | undefined;
+        let region: string;
+        try {
+            region = await admission.admit({
+                key: sessionId,
+                regions: candidates,
+                tenantId: tenant.id,
+                tenantLimit: tenant.maxConcurrentSessions,
+                signal: waiting.signal,
+                onQueued: (update) => {
+                    if (queuedAt === undefined) {
+                        sessionLog.info('Session queued', { position: update.position, queueLength: update.queueLength });
+                        queuedAt = Date.now();
+                    }
+                    sessionStates.set(sessionId, SessionState.QUEUED);
+                    socket.emit('queueUpdate', update);
+                }
+            });
+        } finally {
+            if (socketAdmissions.get(sessionId) === waiting) socketAdmissions.delete(sessionId);
+        }
+        // Position 0: the wait is over
+        if (queuedAt !== undefined) {
+            socket.emit('queueUpdate', { position: 0, queueLength: admission.getStatus().queueLength, waitedMs: Date.now() - queuedAt });
+        }
+        if (!socket.connected || drainer.isDraining()) {
+            throw new Error('Session no longer needed or server is draining');
+        }
+
+        const client = getClientForRegion(region);
+        sessionLog.info('Creating new session', { region, persona: persona.id });
         sessionStates.set(sessionId, SessionState.INITIALIZING);
 
         // Create session with inference config and turn detection if provided
@@ -100,17 +299,39 @@ async function createNewSession(socket: any, config: any = {}): Promise<StreamSe
                 topP: config.inferenceConfig.topP || 0.9,
                 temperature: config.inferenceConfig.temperature || 1,
             };
+        } else if (persona.inferenceConfig) {
+            sessionConfig.inferenceConfig = persona.inferenceConfig;
         }
 
-        if (config.turnDetectionConfig?.endpointingSensitivity) {
-            sessionConfig.turnDetectionConfig = {
-                endpointingSensitivity: config.turnDetectionConfig.endpointingSensitivity
-            };
+        const endpointingSensitivity = config.turnDetectionConfig?.endpointingSensitivity || persona.endpointingSensitivity;
+        if (endpointingSensitivity) {
+            sessionConfig.turnDetectionConfig = { endpointingSensitivity };
+        }
+
+        // Pass enabled tools filter, narrowed to the tenant's tools
+        if (enabledTools) {
+            sessionConfig.enabledTools = enabledTools;
         }
 
-        // Pass enabled tools filter
-        if (config.enabledTools && Array.isArray(config.enabledTools)) {
-            sessionConfig.enabledTools = config.enabledTools;
+        const toolSettings = personaToolSettings(persona);
+        if (toolSettings) {
+            sessionConfig.toolSettings = toolSettings;
+        }
+
+        sessionConfig.metadata = { source: 'socket', tenant: tenant.id, persona: persona.id };
+        sessionConfig.allowedRegions = tenant.allowedRegions;
+
+        // Native audio format of the client, when it isn't 16kHz in / outputSampleRate out LPCM
+        if (config.audioFormat) {
+            sessionConfig.audioFormat = config.audioFormat;
+        }
+
+        // Per-session override of the recording defaults, e.g. { enabled: true, mixedMono: true }
+        if (config.recording && typeof config.recording === 'object') {
+            sessionConfig.recording = {
+                enabled: config.recording.enabled,
+                mixedMono: config.recording.mixedMono
+            };
         }
 
         const session = client.createStreamSession(sessionId, Object.keys(sessionConfig).length > 0 ? sessionConfig : undefined);
@@ -119,91 +340,145 @@ async function createNewSession(socket: any, config: any = {}): Promise<StreamSe
         socketSessions.set(sessionId, session);
         socketClients.set(sessionId, client);
         socketConfigs.set(sessionId, config);
+        socketPersonas.set(sessionId, persona);
         sessionStates.set(sessionId, SessionState.READY);
 
-        console.log(`Session ${sessionId} created and ready`);
+        sessionLog.info('Session created and ready');
         return session;
     } catch (error) {
-        console.error('Error creating session for %s:', sessionId, error);
+        // The socket left or a newer request replaced this one, and owns the slot now
+        if (error instanceof AdmissionError && error.reason === 'aborted') {
+            throw error;
+        }
+        sessionLog.error('Error creating session', { error });
         sessionStates.set(sessionId, SessionState.CLOSED);
+        if (!socketSessions.has(sessionId)) {
+            admission.release(sessionId);
+        }
         throw error;
     }
 }
 
 // Helper function to set up event handlers for a session
 function setupSessionEventHandlers(session: StreamSession, socket: any) {
-    session.onEvent('usageEvent', (data) => {
+    const sessionLog = socketLogger(socket);
+
+    session.on('usageEvent', (data) => {
         socket.emit('usageEvent', data);
     });
 
-    session.onEvent('completionStart', (data) => {
-        console.log('completionStart:', data);
+    session.on('completionStart', (data) => {
+        sessionLog.debug('completionStart', { event: data });
         socket.emit('completionStart', data);
     });
 
-    session.onEvent('contentStart', (data) => {
+    session.on('contentStart', (data) => {
         const { audioOutputConfiguration, ...logData } = data;
-        console.log('contentStart:', logData);
+        sessionLog.debug('contentStart', { event: logData });
         socket.emit('contentStart', data);
     });
 
-    session.onEvent('textOutput', (data) => {
-        console.log('Text output:', data);
+    session.on('textOutput', (data) => {
+        sessionLog.debug('Text output', { role: data.role, content: data.content });
         socket.emit('textOutput', data);
     });
 
-    session.onEvent('audioOutput', (data) => {
+    session.on('audioOutput', (data) => {
         socket.emit('audioOutput', data);
     });
 
-    session.onEvent('error', (data) => {
-        console.error('Error in session:', data);
+    session.on('error', (data) => {
+        sessionLog.error('Error in session', { event: data });
         socket.emit('error', data);
     });
 
-    session.onEvent('toolUse', (data) => {
-        const params = data.toolUseContent?.content ? JSON.parse(data.toolUseContent.content) : data.toolUseContent;
-        console.log('[Event] Tool requested: %s', data.toolName, params ? 'params: ' + JSON.stringify(params) : '');
+    session.on('toolUse', (data) => {
+        sessionLog.debug('Tool requested', { tool: data.toolName, toolUseId: data.toolUseId, params: data.content });
         socket.emit('toolUse', data);
     });
 
-    session.onEvent('toolResult', (data) => {
-        console.log(`[Event] Tool result ready for ${data.toolUseId?.substring(0, 8)}...`);
+    session.on('toolResult', (data) => {
+        sessionLog.debug('Tool result ready', { tool: data.toolName, toolUseId: data.toolUseId });
         socket.emit('toolResult', data);
     });
 
-    session.onEvent('contentEnd', (data) => {
-        console.log('Content end received: ', data);
+    session.on('contentEnd', (data) => {
+        sessionLog.debug('Content end received', { event: data });
         socket.emit('contentEnd', data);
     });
 
-    session.onEvent('bargeIn', (data) => {
-        console.log('Barge-in detected:', data);
+    session.on('bargeIn', (data) => {
+        sessionLog.debug('Barge-in detected');
         socket.emit('bargeIn', data);
     });
 
-    session.onEvent('streamComplete', () => {
-        console.log('Stream completed for client:', socket.id);
+    session.on('turnMetrics', (data) => {
+        sessionLog.info('Turn completed', {
+            turn: data.turn,
+            timeToFirstAudioMs: data.timeToFirstAudioMs,
+            transcriptionMs: data.transcriptionMs,
+            toolMs: data.toolMs
+        });
+        socket.emit('turnMetrics', data);
+    });
+
+    session.on('streamComplete', () => {
+        sessionLog.info('Stream completed');
         socket.emit('streamComplete');
         sessionStates.set(socket.id, SessionState.CLOSED);
     });
 
-    session.onEvent('streamInterrupted', (data) => {
-        console.log('Stream interrupted for client:', socket.id, data);
-        // Don't emit streamComplete - just log it
-        // The audio might still be playing on the client
-        socket.emit('streamInterrupted', data);
+    session.on('sessionRollover', (data) => {
+        // Transparent to the caller - the same StreamSession keeps streaming
+        sessionLog.info('Session rolled over', { generation: data.generation, historyMessages: data.historyMessages });
+    });
+
+    session.on('regionFailover', (data) => {
+        // Transparent too, apart from the delay of starting over
+        sessionLog.warn('Session failed over to another region', { from: data.from, to: data.to, error: data.error });
+        socket.emit('regionFailover', data);
     });
 }
 
+const budgetClosing = new Set<string>();
+
+// A soft budget only warns the browser; at a hard one the assistant says goodbye, then the session closes
+function handleBudget(event: BudgetEvent): void {
+    const { sessionId, scope, level, spent, limit, currency } = event;
+    const socket = io.sockets.sockets.get(sessionId);
+    socket?.emit(level === 'soft' ? 'budgetWarning' : 'budgetExceeded', { scope, spent, limit, currency });
+
+    const client = findSessionClient(sessionId);
+    if (level === 'soft' || !client || budgetClosing.has(sessionId)) return;
+
+    budgetClosing.add(sessionId);
+    client.sendTextInputEvent(sessionId, BUDGET_GOODBYE_CUE);
+    setTimeout(async () => {
+        budgetClosing.delete(sessionId);
+        if (!client.isSessionActive(sessionId)) return;
+        log.warn('Closing session over budget', { sessionId, tenant: event.tenant, scope });
+        try {
+            await client.closeSession(sessionId);
+        } catch (error) {
+            log.error('Error closing session over budget', { sessionId, error });
+            client.forceCloseSession(sessionId);
+        }
+        if (socket?.connected) {
+            sessionStates.set(sessionId, SessionState.CLOSED);
+            socket.emit('sessionTerminated', { reason: `The ${scope === 'daily' ? 'daily' : 'session'} usage budget has been reached` });
+        }
+    }, BUDGET_GOODBYE_MS);
+}
+
 // Socket.IO connection handler
 io.on('connection', (socket) => {
-    console.log('New client connected:', socket.id);
+    const socketLog = socketLogger(socket);
+    socketLog.info('New client connected');
     sessionStates.set(socket.id, SessionState.CLOSED);
 
     const connectionInterval = setInterval(() => {
         const connectionCount = Object.keys(io.sockets.sockets).length;
-        console.log(`Active socket connections: ${connectionCount}`);
+        log.debug('Active socket connections', { connectionCount });
     }, 60000);
 
     // Handle session initialization request with config
@@ -220,10 +495,10 @@ io.on('connection', (socket) => {
             }
 
             const currentState = sessionStates.get(socket.id);
-            console.log('Initializing session for %s, current state: %s, config:', socket.id, currentState, config);
+            socketLog.info('Initializing session', { state: currentState, configKeys: Object.keys(config) });
             
-            if (currentState === SessionState.INITIALIZING || currentState === SessionState.READY || currentState === SessionState.ACTIVE) {
-                console.log(`Session already exists for ${socket.id}, state: ${currentState}`);
+            if (currentState === SessionState.QUEUED || currentState === SessionState.INITIALIZING || currentState === SessionState.READY || currentState === SessionState.ACTIVE) {
+                socketLog.info('Session already exists', { state: currentState });
                 if (cb) cb({ success: true });
                 return;
             }
@@ -237,7 +512,7 @@ io.on('connection', (socket) => {
             if (cb) cb({ success: true });
 
         } catch (error) {
-            console.error('Error initializing session:', error);
+            socketLog.error('Error initializing session', { error });
             sessionStates.set(socket.id, SessionState.CLOSED);
             const cb = typeof data === 'function' ? data : callback;
             if (cb) cb({ success: false, error: error instanceof Error ? error.message : String(error) });
@@ -252,19 +527,22 @@ io.on('connection', (socket) => {
     socket.on('startNewChat', async (config = {}) => {
         try {
             const currentState = sessionStates.get(socket.id);
-            console.log(`Starting new chat for ${socket.id}, current state: ${currentState}`);
+            socketLog.info('Starting new chat', { state: currentState });
 
             const existingSession = socketSessions.get(socket.id);
             const client = socketClients.get(socket.id) || defaultClient;
+
+            // Let a rollover finish so cleanup closes the successor, not the retired stream
+            await client.awaitRollover(socket.id);
             
             if (existingSession && client.isSessionActive(socket.id)) {
-                console.log(`Cleaning up existing session for ${socket.id}`);
+                socketLog.info('Cleaning up existing session');
                 try {
                     await existingSession.endAudioContent();
                     await existingSession.endPrompt();
                     await existingSession.close();
                 } catch (cleanupError) {
-                    console.error('Error during cleanup for %s:', socket.id, cleanupError);
+                    socketLog.error('Error during cleanup', { error: cleanupError });
                     client.forceCloseSession(socket.id);
                 }
                 socketSessions.delete(socket.id);
@@ -272,7 +550,7 @@ io.on('connection', (socket) => {
 
             await createNewSession(socket, config);
         } catch (error) {
-            console.error('Error starting new chat:', error);
+            socketLog.error('Error starting new chat', { error });
             socket.emit('error', {
                 message: 'Failed to start new chat',
                 details: error instanceof Error ? error.message : String(error)
@@ -287,7 +565,7 @@ io.on('connection', (socket) => {
             const currentState = sessionStates.get(socket.id);
 
             if (!session || currentState !== SessionState.ACTIVE) {
-                console.error(`Invalid session state for audio input: session=${!!session}, state=${currentState}`);
+                socketLog.error('Invalid session state for audio input', { hasSession: !!session, state: currentState });
                 socket.emit('error', {
                     message: 'No active session for audio input',
                     details: `Session exists: ${!!session}, Session state: ${currentState}.`
@@ -301,7 +579,7 @@ io.on('connection', (socket) => {
 
             await session.streamAudio(audioBuffer);
         } catch (error) {
-            console.error('Error processing audio:', error);
+            socketLog.error('Error processing audio', { error });
             socket.emit('error', {
                 message: 'Error processing audio',
                 details: error instanceof Error ? error.message : String(error)
@@ -316,12 +594,13 @@ io.on('connection', (socket) => {
                 socket.emit('error', { message: 'No active session for prompt start' });
                 return;
             }
-            const voiceId = data?.voiceId;
+            const persona = socketPersonas.get(socket.id) ?? personas.getDefault();
+            const voiceId = resolveVoice(getPrincipal(socket)!.tenant, data?.voiceId || persona.voiceId);
             const outputSampleRate = data?.outputSampleRate || 24000;
             await session.setupSessionAndPromptStart(voiceId, outputSampleRate);
-            console.log(`Prompt start completed for ${socket.id} with sample rate ${outputSampleRate}`);
+            socketLog.info('Prompt start completed', { voiceId, outputSampleRate });
         } catch (error) {
-            console.error('Error processing prompt start:', error);
+            socketLog.error('Error processing prompt start', { error });
             socket.emit('error', {
                 message: 'Error processing prompt start',
                 details: error instanceof Error ? error.message : String(error)
@@ -337,23 +616,28 @@ io.on('connection', (socket) => {
                 return;
             }
 
-            // Handle both string (old) and object (new) formats
-            let promptContent: string;
+            // Handle both string (old) and object (new) formats; without content the persona's prompt is used
+            const persona = socketPersonas.get(socket.id) ?? personas.getDefault();
+            let promptContent: string = persona.systemPrompt;
             let voiceId: string | undefined;
             
-            if (typeof data === 'string') {
+            if (typeof data === 'string' && data.trim()) {
                 promptContent = data;
             } else if (data && typeof data === 'object') {
-                promptContent = data.content || data;
+                if (typeof data.content === 'string' && data.content.trim()) {
+                    promptContent = data.content;
+                }
                 voiceId = data.voiceId;
-            } else {
-                promptContent = data;
             }
 
-            await session.setupSystemPrompt(undefined, promptContent, voiceId);
-            console.log(`System prompt completed for ${socket.id}`);
+            await session.setupSystemPrompt(
+                undefined,
+                buildSystemPrompt(persona, promptContent),
+                resolveVoice(getPrincipal(socket)!.tenant, voiceId || persona.voiceId)
+            );
+            socketLog.info('System prompt completed');
         } catch (error) {
-            console.error('Error processing system prompt:', error);
+            socketLog.error('Error processing system prompt', { error });
             socket.emit('error', {
                 message: 'Error processing system prompt',
                 details: error instanceof Error ? error.message : String(error)
@@ -370,18 +654,23 @@ io.on('connection', (socket) => {
             }
 
             await session.setupStartAudio();
-            console.log(`Audio start setup completed for ${socket.id}`);
+            socketLog.info('Audio start setup completed');
             
             // Now that all setup events are queued (sessionStart, promptStart, systemPrompt, audioStart),
             // start the bidirectional streaming
             const client = socketClients.get(socket.id) || defaultClient;
-            console.log(`Starting AWS Bedrock connection for ${socket.id}`);
+            socketLog.info('Starting AWS Bedrock connection');
             client.initiateBidirectionalStreaming(socket.id);
             
             sessionStates.set(socket.id, SessionState.ACTIVE);
             socket.emit('audioReady');
+
+            // Let the assistant speak first
+            if (socketPersonas.get(socket.id)?.greeting) {
+                await session.sendTextInput(GREETING_CUE);
+            }
         } catch (error) {
-            console.error('Error processing audio start:', error);
+            socketLog.error('Error processing audio start', { error });
             sessionStates.set(socket.id, SessionState.CLOSED);
             socket.emit('error', {
                 message: 'Error processing audio start',
@@ -411,7 +700,7 @@ io.on('connection', (socket) => {
             // Send text input to the model
             await session.sendTextInput(data.content);
         } catch (error) {
-            console.error('Error processing text input:', error);
+            socketLog.error('Error processing text input', { error });
             socket.emit('error', {
                 message: 'Error processing text input',
                 details: error instanceof Error ? error.message : String(error)
@@ -425,12 +714,12 @@ io.on('connection', (socket) => {
             const client = socketClients.get(socket.id) || defaultClient;
             
             if (!session || cleanupInProgress.get(socket.id)) {
-                console.log('No active session to stop or cleanup already in progress');
+                socketLog.info('No active session to stop or cleanup already in progress');
                 socket.emit('sessionClosed'); // Still emit so client doesn't hang
                 return;
             }
 
-            console.log('Stop audio requested, beginning proper shutdown sequence');
+            socketLog.info('Stop audio requested, beginning shutdown sequence');
             cleanupInProgress.set(socket.id, true);
             sessionStates.set(socket.id, SessionState.CLOSED);
 
@@ -439,7 +728,7 @@ io.on('connection', (socket) => {
                     await session.endAudioContent();
                     await session.endPrompt();
                     await session.close();
-                    console.log('Session cleanup complete');
+                    socketLog.info('Session cleanup complete');
                 })(),
                 new Promise((_, reject) =>
                     setTimeout(() => reject(new Error('Session cleanup timeout')), 5000)
@@ -451,11 +740,13 @@ io.on('connection', (socket) => {
             socketSessions.delete(socket.id);
             socketClients.delete(socket.id);
             socketConfigs.delete(socket.id);
+            socketPersonas.delete(socket.id);
             cleanupInProgress.delete(socket.id);
+            admission.release(socket.id);
 
             socket.emit('sessionClosed');
         } catch (error) {
-            console.error('Error processing streaming end events:', error);
+            socketLog.error('Error processing streaming end events', { error });
 
             try {
                 const client = socketClients.get(socket.id) || defaultClient;
@@ -463,10 +754,12 @@ io.on('connection', (socket) => {
                 socketSessions.delete(socket.id);
                 socketClients.delete(socket.id);
                 socketConfigs.delete(socket.id);
+                socketPersonas.delete(socket.id);
                 cleanupInProgress.delete(socket.id);
+                admission.release(socket.id);
                 sessionStates.set(socket.id, SessionState.CLOSED);
             } catch (forceError) {
-                console.error('Error during force cleanup:', forceError);
+                socketLog.error('Error during force cleanup', { error: forceError });
             }
 
             // Always emit sessionClosed so client can proceed with renewal
@@ -479,8 +772,9 @@ io.on('connection', (socket) => {
     });
 
     socket.on('disconnect', async () => {
-        console.log('Client disconnected:', socket.id);
+        socketLog.info('Client disconnected');
         clearInterval(connectionInterval);
+        socketAdmissions.get(socket.id)?.abort();
 
         const session = socketSessions.get(socket.id);
         const client = socketClients.get(socket.id) || defaultClient;
@@ -488,7 +782,7 @@ io.on('connection', (socket) => {
 
         if (session && client.isSessionActive(sessionId) && !cleanupInProgress.get(socket.id)) {
             try {
-                console.log(`Beginning cleanup for disconnected session: ${socket.id}`);
+                socketLog.info('Beginning cleanup for disconnected session');
                 cleanupInProgress.set(socket.id, true);
 
                 const cleanupPromise = Promise.race([
@@ -503,13 +797,13 @@ io.on('connection', (socket) => {
                 ]);
 
                 await cleanupPromise;
-                console.log(`Successfully cleaned up session: ${socket.id}`);
+                socketLog.info('Successfully cleaned up session');
             } catch (error) {
-                console.error('Error cleaning up session: %s', socket.id, error);
+                socketLog.error('Error cleaning up session', { error });
                 try {
                     client.forceCloseSession(sessionId);
                 } catch (e) {
-                    console.error('Failed force close for session: %s', sessionId, e);
+                    socketLog.error('Failed force close for session', { error: e });
                 }
             }
         }
@@ -517,17 +811,177 @@ io.on('connection', (socket) => {
         socketSessions.delete(socket.id);
         socketClients.delete(socket.id);
         socketConfigs.delete(socket.id);
+        socketPersonas.delete(socket.id);
         sessionStates.delete(socket.id);
         cleanupInProgress.delete(socket.id);
+        admission.release(socket.id);
 
-        console.log(`Cleanup complete for client: ${socket.id}`);
+        socketLog.info('Cleanup complete for client');
     });
 });
 
+// Usage and estimated cost per day and tenant; tenants see their own, admins everyone's (or ?tenant=)
+app.get('/api/usage', async (req, res) => {
+    const principal = res.locals.principal;
+    const tenant = isAdmin(principal) ? (typeof req.query.tenant === 'string' ? req.query.tenant : undefined) : principal.tenant.id;
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '1')) || 1, 1), 31);
+    try {
+        const usage = await usageTracker.summarize(days, tenant);
+        res.status(200).json({
+            currency: usageTracker.currency,
+            days,
+            usage,
+            ...(tenant !== undefined && {
+                budgets: auth.getTenant(tenant)?.budgets ?? defaultBudgets,
+                spentToday: usageTracker.spentToday(tenant)
+            })
+        });
+    } catch (error) {
+        log.error('Error summarizing usage', { error });
+        res.status(500).json({ error: 'Failed to summarize usage' });
+    }
+});
+
+// Token usage and estimated cost of live sessions
+app.get('/api/usage/sessions', (_req, res) => {
+    const principal = res.locals.principal;
+    const sessions = usageTracker.listSessions(isAdmin(principal) ? undefined : principal.tenant.id);
+    res.status(200).json({ currency: usageTracker.currency, sessions });
+});
+
+app.get('/api/usage/sessions/:id', (req, res) => {
+    const principal = res.locals.principal;
+    const usage = usageTracker.getSession(req.params.id);
+    if (!usage || (!isAdmin(principal) && usage.tenant !== principal.tenant.id)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+    }
+    res.status(200).json({ currency: usageTracker.currency, ...usage });
+});
+
+// Turn latency percentiles over the last `days` days, grouped by tool, region, voice or persona
+app.get('/api/turn-metrics', async (req, res) => {
+    const groupBy = String(req.query.groupBy || 'tool') as TurnMetricsGroup;
+    if (!TURN_METRICS_GROUPS.includes(groupBy)) {
+        res.status(400).json({ error: `groupBy must be one of ${TURN_METRICS_GROUPS.join(', ')}` });
+        return;
+    }
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '1')) || 1, 1), 31);
+    try {
+        res.status(200).json({ groupBy, days, groups: await turnMetricsStore.summarize(groupBy, days) });
+    } catch (error) {
+        log.error('Error summarizing turn metrics', { error });
+        res.status(500).json({ error: 'Failed to summarize turn metrics' });
+    }
+});
+
+// Transcripts and recordings of another tenant's sessions are hidden from all but admins
+function tenantScope(principal: AuthPrincipal): string | undefined {
+    return isAdmin(principal) ? undefined : principal.tenant.id;
+}
+
+function isTranscriptVisible(principal: AuthPrincipal, summary: TranscriptSummary): boolean {
+    return isAdmin(principal) || summary.metadata?.tenant === principal.tenant.id;
+}
+
+// List recorded transcripts, newest first
+app.get('/api/transcripts', async (req, res) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50')) || 50, 1), 500);
+    try {
+        res.status(200).json({ transcripts: await transcriptStore.list(limit, tenantScope(res.locals.principal)) });
+    } catch (error) {
+        log.error('Error listing transcripts', { error });
+        res.status(500).json({ error: 'Failed to list transcripts' });
+    }
+});
+
+// Fetch one transcript with all its entries
+app.get('/api/transcripts/:id', async (req, res) => {
+    const entries = await transcriptStore.get(req.params.id);
+    const summary = entries && summarize(req.params.id, entries);
+    if (!summary || !isTranscriptVisible(res.locals.principal, summary)) {
+        res.status(404).json({ error: 'Transcript not found' });
+        return;
+    }
+    res.status(200).json({ ...summary, entries });
+});
+
+// Download a transcript as JSON, plain text or SRT captions
+app.get('/api/transcripts/:id/export', async (req, res) => {
+    const format = String(req.query.format || 'json') as TranscriptExportFormat;
+    if (!TRANSCRIPT_EXPORT_FORMATS.includes(format)) {
+        res.status(400).json({ error: `format must be one of ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}` });
+        return;
+    }
+
+    const id = req.params.id;
+    const entries = await transcriptStore.get(id);
+    const summary = entries && summarize(id, entries);
+    if (!entries || !summary || !isTranscriptVisible(res.locals.principal, summary)) {
+        res.status(404).json({ error: 'Transcript not found' });
+        return;
+    }
+
+    const extension = format === 'text' ? 'txt' : format;
+    res.setHeader('Content-Disposition', `attachment; filename="${id}.${extension}"`);
+    if (format === 'json') {
+        res.status(200).json({ ...summary, entries });
+    } else {
+        res.status(200).type(format === 'srt' ? 'application/x-subrip' : 'text/plain')
+            .send(format === 'srt' ? toSrt(entries) : toPlainText(entries));
+    }
+});
+
+// List call recordings, newest first
+app.get('/api/recordings', async (req, res) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50')) || 50, 1), 500);
+    try {
+        res.status(200).json({ recordings: await callRecorder.list(limit, tenantScope(res.locals.principal)) });
+    } catch (error) {
+        log.error('Error listing recordings', { error });
+        res.status(500).json({ error: 'Failed to list recordings' });
+    }
+});
+
+// Download a recording: stereo (caller left, assistant right) or the mixed-mono version
+app.get('/api/recordings/:id', async (req, res) => {
+    const variant = String(req.query.variant || 'stereo');
+    if (variant !== 'stereo' && variant !== 'mono') {
+        res.status(400).json({ error: 'variant must be one of stereo, mono' });
+        return;
+    }
+
+    const file = await callRecorder.getFile(req.params.id, variant, tenantScope(res.locals.principal));
+    if (!file) {
+        res.status(404).json({ error: 'Recording not found' });
+        return;
+    }
+    res.download(file, path.basename(file));
+});
+
+// Personas the caller's tenant may select
+app.get('/api/personas', (_req, res) => {
+    const { tenant } = res.locals.principal;
+    const defaultId = tenant.defaultPersona || personas.defaultPersonaId;
+    const list = personas.list()
+        .filter(p => !tenant.allowedPersonas || tenant.allowedPersonas.includes(p.id))
+        .map(p => ({
+            id: p.id,
+            name: p.name,
+            voiceId: p.voiceId,
+            enabledTools: p.enabledTools,
+            greeting: p.greeting,
+            default: p.id === defaultId
+        }));
+    res.status(200).json({ personas: list });
+});
+
 // Get available tools endpoint
 app.get('/api/tools', (_req, res) => {
     const client = getClientForRegion(DEFAULT_REGION);
-    const toolSpecs = client.getToolRegistry().getToolSpecs();
+    const { tenant } = res.locals.principal;
+    const toolSpecs = client.getToolRegistry().getToolSpecs()
+        .filter(t => !tenant.allowedTools || isToolAllowed(t.toolSpec.name, tenant.allowedTools));
     const tools = toolSpecs.map(t => ({
         name: t.toolSpec.name,
         description: t.toolSpec.description
@@ -535,62 +989,226 @@ app.get('/api/tools', (_req, res) => {
     res.status(200).json({ tools });
 });
 
-// Health check endpoint
-app.get('/health', (_req, res) => {
-    let totalActiveSessions = 0;
-    regionClients.forEach(client => {
-        totalActiveSessions += client.getActiveSessions().length;
+// Admin API: live sessions across all regions, for tenants with "admin": true
+app.use('/api/admin', requireAdmin(), express.json());
+
+// The region client a live session runs on
+function findSessionClient(sessionId: string): NovaSonicBidirectionalStreamClient | undefined {
+    for (const client of regionClients.values()) {
+        if (client.isSessionActive(sessionId)) return client;
+    }
+    return undefined;
+}
+
+// Active sessions with their state, age, activity, tools and token usage
+app.get('/api/admin/sessions', (_req, res) => {
+    const now = Date.now();
+    const sessions: any[] = [];
+    regionClients.forEach((client, region) => {
+        client.getActiveSessions().forEach(sessionId => {
+            const monitored = sessionMonitor.get(sessionId);
+            const lastActivity = client.getLastActivityTime(sessionId);
+            sessions.push({
+                sessionId,
+                // The session's own region differs from its client's after a failover
+                region: monitored?.region ?? region,
+                // Only Socket.IO sessions have a state; telephony calls don't
+                state: sessionStates.get(sessionId),
+                tenant: monitored?.tenant,
+                source: monitored?.source,
+                persona: monitored?.persona,
+                startedAt: monitored ? new Date(monitored.startedAt).toISOString() : undefined,
+                ageMs: monitored ? now - monitored.startedAt : undefined,
+                lastActivity: lastActivity ? new Date(lastActivity).toISOString() : undefined,
+                idleMs: lastActivity ? now - lastActivity : undefined,
+                rolloverInProgress: client.isRolloverInProgress(sessionId),
+                rollovers: monitored?.rollovers,
+                toolsUsed: monitored?.toolsUsed ?? [],
+                tokens: monitored?.tokens,
+                audioInputChunks: monitored?.audioInputChunks,
+                audioOutputChunks: monitored?.audioOutputChunks
+            });
+        });
     });
+    res.status(200).json({ sessions });
+});
+
+// A live session's most recent events (audio and usage events are only counted)
+app.get('/api/admin/sessions/:id/events', (req, res) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50')) || 50, 1), 500);
+    const events = sessionMonitor.getEvents(req.params.id, limit);
+    if (!events) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+    }
+    res.status(200).json({ sessionId: req.params.id, events });
+});
+
+// Force-close a live session; a connected browser is told why
+app.post('/api/admin/sessions/:id/close', (req, res) => {
+    const sessionId = req.params.id;
+    const client = findSessionClient(sessionId);
+    if (!client) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+    }
 
-    res.status(200).json({
-        status: 'ok',
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'Closed by an administrator';
+    log.warn('Admin closing session', { sessionId, tenant: res.locals.principal.tenant.id, reason });
+    client.forceCloseSession(sessionId);
+
+    const socket = io.sockets.sockets.get(sessionId);
+    if (socket) {
+        sessionStates.set(sessionId, SessionState.CLOSED);
+        admission.release(sessionId);
+        socket.emit('sessionTerminated', { reason });
+    }
+    res.status(200).json({ sessionId, closed: true });
+});
+
+// Put the server in drain mode; it stays up, refusing new sessions, until it is stopped
+app.post('/api/admin/drain', (req, res) => {
+    const tenantId = res.locals.principal.tenant.id;
+    startDrain(`admin request by ${tenantId}`, {
+        message: typeof req.body?.message === 'string' ? req.body.message : undefined,
+        retryAfterSec: typeof req.body?.retryAfterSec === 'number' ? req.body.retryAfterSec : undefined
+    }).then(closeAllSessions)
+        .catch(error => log.error('Error draining server', { error }));
+    res.status(202).json({ ...drainer.status(), sockets: io.sockets.sockets.size });
+});
+
+app.get('/api/admin/drain', (_req, res) => {
+    res.status(200).json(drainer.status());
+});
+
+// Prometheus metrics; set METRICS_TOKEN to require "Authorization: Bearer <token>" from the scraper
+app.get('/metrics', async (req, res) => {
+    const token = process.env.METRICS_TOKEN;
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+        res.status(401).json({ error: 'Invalid metrics token' });
+        return;
+    }
+    try {
+        res.status(200).type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
+    } catch (error) {
+        log.error('Error collecting metrics', { error });
+        res.status(500).json({ error: 'Failed to collect metrics' });
+    }
+});
+
+// Health check endpoint; 503 while draining so load balancers stop routing new calls here
+app.get('/health', (_req, res) => {
+    const draining = drainer.isDraining();
+    res.status(draining ? 503 : 200).json({
+        status: draining ? 'draining' : 'ok',
         timestamp: new Date().toISOString(),
-        activeSessions: totalActiveSessions,
+        activeSessions: countActiveSessions(),
         socketConnections: Object.keys(io.sockets.sockets).length,
-        regions: Array.from(regionClients.keys())
+        regions: Array.from(regionClients.keys()),
+        regionHealth: regionPolicy.getStatus(),
+        admission: admission.getStatus(),
+        telephonyCalls: {
+            exotel: exotelHandler.getActiveCalls().length,
+            twilio: twilioHandler.getActiveCalls().length
+        },
+        mcpServers: mcpTools.getStatus()
     });
 });
 
+// Liveness: the process is up and serving requests
+app.get('/livez', (_req, res) => {
+    res.status(200).json({ status: 'ok', uptimeSec: Math.round(process.uptime()) });
+});
+
+// Readiness: 503 while draining or when a critical component (credentials, event loop) fails;
+// a failing tool backend only degrades the report
+app.get('/readyz', async (_req, res) => {
+    try {
+        const report = await healthChecker.check();
+        const draining = drainer.isDraining();
+        const ready = !draining && report.status !== 'failed';
+        res.status(ready ? 200 : 503).json({
+            status: draining ? 'draining' : report.status,
+            timestamp: new Date().toISOString(),
+            components: report.components
+        });
+    } catch (error) {
+        log.error('Error running readiness checks', { error });
+        res.status(503).json({ status: 'failed', error: 'Readiness checks failed to run' });
+    }
+});
+
 // Start the server
 const PORT = process.env.PORT || 3000;
 const HOST = process.env.HOST || 'localhost';
 server.listen(Number(PORT), HOST, () => {
-    console.log(`Server listening on ${HOST}:${PORT}`);
-    console.log(`Open http://localhost:${PORT} in your browser`);
+    log.info(`Server listening on ${HOST}:${PORT}`);
+    log.info(`Open http://localhost:${PORT} in your browser`);
 });
 
-process.on('SIGINT', async () => {
-    console.log('Shutting down server...');
+// Close every region's sessions, forcing those that don't close cleanly
+async function closeAllSessions(): Promise<void> {
+    for (const [region, client] of regionClients) {
+        const activeSessions = client.getActiveSessions();
+        log.info('Closing sessions', { region, count: activeSessions.length });
+
+        await Promise.all(activeSessions.map(async (sessionId) => {
+            try {
+                await client.closeSession(sessionId);
+            } catch (error) {
+                log.error('Error closing session', { sessionId, error });
+                client.forceCloseSession(sessionId);
+            }
+        }));
+    }
+}
+
+let shuttingDown = false;
+
+// Close every session and flush stores, then exit
+async function shutdown(): Promise<void> {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    log.info('Shutting down server...');
 
     const forceExitTimer = setTimeout(() => {
-        console.error('Forcing server shutdown after timeout');
+        log.error('Forcing server shutdown after timeout');
         process.exit(1);
     }, 5000);
 
     try {
         await new Promise(resolve => io.close(resolve));
-        console.log('Socket.IO server closed');
+        log.info('Socket.IO server closed');
 
-        for (const [region, client] of regionClients) {
-            const activeSessions = client.getActiveSessions();
-            console.log(`Closing ${activeSessions.length} sessions in region ${region}...`);
+        await closeAllSessions();
 
-            await Promise.all(activeSessions.map(async (sessionId) => {
-                try {
-                    await client.closeSession(sessionId);
-                } catch (error) {
-                    console.error('Error closing session %s:', sessionId, error);
-                    client.forceCloseSession(sessionId);
-                }
-            }));
-        }
+        await mcpTools.stop();
+        await transcriptStore.flush();
+        await callRecorder.flush();
+        await turnMetricsStore.flush();
+        await usageTracker.flush();
+        await shutdownTracing();
 
         await new Promise(resolve => server.close(resolve));
         clearTimeout(forceExitTimer);
-        console.log('Server shut down');
+        log.info('Server shut down');
         process.exit(0);
     } catch (error) {
-        console.error('Error during server shutdown:', error);
+        log.error('Error during server shutdown', { error });
         process.exit(1);
     }
+}
+
+process.on('SIGINT', () => {
+    shutdown();
+});
+
+// Rolling deployments: drain first, so live calls can finish before the container stops
+process.on('SIGTERM', async () => {
+    try {
+        await startDrain('SIGTERM');
+    } catch (error) {
+        log.error('Error draining server', { error });
+    }
+    await shutdown();
 });
@@ -0,0 +1,6 @@
+/**
+ * OpenTelemetry tracing
+ */
+export { tracer, withSpan, recordError, traceBedrockCall } from './tracing';
+export type { BedrockCallInfo } from './tracing';
+export { setupTracing, shutdownTracing, DEFAULT_SERVICE_NAME } from './setup';
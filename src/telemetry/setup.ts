@@ -0,0 +1,65 @@
+/**
+ * Registers the OpenTelemetry trace provider and exporter chosen by environment
+ *
+ * OTEL_TRACES_EXPORTER selects otlp, console or none. It defaults to otlp when
+ * OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT is set and to
+ * none otherwise, which leaves tracing a no-op. The OTLP/HTTP exporter reads its
+ * endpoint and headers from the standard OTEL_EXPORTER_OTLP_* variables.
+ */
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ConsoleSpanExporter, NodeTracerProvider, SimpleSpanProcessor, SpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tracing' });
+
+export const DEFAULT_SERVICE_NAME = 'nova-sonic-voicebot';
+
+let provider: NodeTracerProvider | undefined;
+
+function createSpanProcessor(exporter: string): SpanProcessor | undefined {
+    switch (exporter) {
+        case 'otlp':
+            return new BatchSpanProcessor(new OTLPTraceExporter());
+        case 'console':
+            return new SimpleSpanProcessor(new ConsoleSpanExporter());
+        case 'none':
+            return undefined;
+        default:
+            log.warn(`Unknown OTEL_TRACES_EXPORTER "${exporter}", tracing disabled`);
+            return undefined;
+    }
+}
+
+/**
+ * Call once at startup, before sessions are created. Returns whether spans are exported.
+ */
+export function setupTracing(): boolean {
+    if (provider) return true;
+
+    const hasEndpoint = !!(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+    const exporter = (process.env.OTEL_TRACES_EXPORTER || (hasEndpoint ? 'otlp' : 'none')).trim().toLowerCase();
+    const processor = createSpanProcessor(exporter);
+    if (!processor) return false;
+
+    provider = new NodeTracerProvider({
+        resource: new Resource({ [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME }),
+        spanProcessors: [processor]
+    });
+    // Also installs the AsyncLocalStorage context manager that parents tool and Bedrock spans
+    provider.register();
+    log.info(`Exporting spans via ${exporter}`);
+    return true;
+}
+
+/** Export buffered spans and stop the provider, e.g. before shutdown */
+export async function shutdownTracing(): Promise<void> {
+    if (!provider) return;
+    try {
+        await provider.shutdown();
+    } catch (error) {
+        log.error('Failed to flush spans', { error });
+    }
+    provider = undefined;
+}
@@ -0,0 +1,69 @@
+/**
+ * OpenTelemetry spans for sessions, turns, tools and Bedrock calls
+ *
+ * Only the API is used here, so until setupTracing() registers a provider every span
+ * is a no-op.
+ */
+import { Attributes, Span, SpanOptions, SpanStatusCode, trace } from '@opentelemetry/api';
+
+export const tracer = trace.getTracer('nova-sonic-voicebot');
+
+/** Mark a span failed with the error that ended it */
+export function recordError(span: Span, error: unknown): void {
+    if (error instanceof Error) {
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    } else {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) });
+    }
+}
+
+/**
+ * Run fn in a new active span, so spans started inside it are its children.
+ * The span ends when fn settles and is marked failed if fn throws.
+ */
+export function withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    return tracer.startActiveSpan(name, options, async span => {
+        try {
+            return await fn(span);
+        } catch (error) {
+            recordError(span, error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
+
+export interface BedrockCallInfo {
+    /** GenAI operation, e.g. "chat" */
+    operation: string;
+    modelId: string;
+    region?: string;
+    attributes?: Attributes;
+}
+
+/**
+ * A Bedrock model call, named and attributed per the GenAI semantic conventions.
+ * Token usage is recorded when the response has it (Converse does).
+ */
+export function traceBedrockCall<T>(info: BedrockCallInfo, call: () => Promise<T>): Promise<T> {
+    const attributes: Attributes = {
+        'gen_ai.system': 'aws.bedrock',
+        'gen_ai.operation.name': info.operation,
+        'gen_ai.request.model': info.modelId,
+        'cloud.region': info.region,
+        ...info.attributes
+    };
+    return withSpan(`${info.operation} ${info.modelId}`, { attributes }, async span => {
+        const response = await call();
+        const usage = (response as { usage?: { inputTokens?: number; outputTokens?: number } })?.usage;
+        if (usage) {
+            span.setAttributes({
+                'gen_ai.usage.input_tokens': usage.inputTokens,
+                'gen_ai.usage.output_tokens': usage.outputTokens
+            });
+        }
+        return response;
+    });
+}
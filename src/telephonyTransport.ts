@@ -0,0 +1,594 @@
+/**
+ * Shared session lifecycle for telephony WebSocket transports (Exotel, Twilio)
+ *
+ * Subclasses translate their carrier's message protocol into startCall / receiveAudio /
+ * markPlayed / endCall calls and build the carrier's outbound frames. This class owns the
+ * Nova Sonic session for each call, chunks model audio into media frames, sends a mark
+ * after each response and clears the carrier's playback buffer on barge-in. With an
+ * admission controller, calls wait for a free session slot listening to hold audio
+ * (TELEPHONY_HOLD_AUDIO, a WAV file, or a chime).
+ *
+ * Connections authenticate like the Socket.IO API, with X-API-Key or Authorization: Bearer,
+ * or with apiKey / token query parameters since carriers can't always set headers. Twilio
+ * sends neither, so a connection without credentials gets START_AUTH_TIMEOUT_MS to pass
+ * apiKey / token custom parameters in its start message. The caller's tenant then limits
+ * the persona, tools and voice the call parameters select, and its concurrent session and
+ * daily budget limits apply to the call as they do to browser sessions.
+ */
+
+import http, { IncomingHttpHeaders } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { NovaSonicBidirectionalStreamClient, StreamSession } from './client';
+import { DefaultAudioOutputConfiguration } from './consts';
+import { AudioFormat } from './types';
+import { Persona, PersonaStore, GREETING_CUE, buildSystemPrompt, personaToolSettings } from './personas';
+import { Buffer } from 'node:buffer';
+import { Logger, logger } from './logging';
+import { AdmissionController } from './admission';
+import { loadHoldAudio } from './audio';
+import { AuthError, AuthPrincipal, AuthService, Credentials, Tenant, assertPersonaAllowed, assertRegionAllowed, credentialsFromHeaders, resolveEnabledTools, resolveVoice } from './auth';
+import { UsageTracker } from './usage';
+
+// How long a connection that upgraded without credentials may take to send them
+const START_AUTH_TIMEOUT_MS = 10000;
+
+export interface TelephonyCallInfo {
+    streamSid: string;
+    callSid?: string;
+    from?: string;
+    to?: string;
+    /** Carrier-supplied parameters; persona, voiceId, systemPrompt, enabledTools and record route the call */
+    customParameters?: Record<string, string>;
+}
+
+// What the call's parameters selected, within its tenant's limits
+interface CallRoute {
+    persona: Persona;
+    enabledTools?: string[];
+    voiceId: string;
+}
+
+// Per-call state for audio sent back to the carrier
+export interface TelephonyCall {
+    ws: WebSocket;
+    info: TelephonyCallInfo;
+    tenant: Tenant;
+    route: CallRoute;
+    session?: StreamSession;
+    /** Model audio not yet sent because it doesn't fill a whole chunk */
+    pendingAudio: Buffer;
+    /** Sequence number of the next message we send */
+    sequenceNumber: number;
+    /** Media chunk counter and playback offset of the next outbound frame */
+    chunk: number;
+    timestampMs: number;
+    /** Marks sent to the carrier that it hasn't played back yet */
+    pendingMarks: Set<string>;
+    markCounter: number;
+    /** Last sequence number received from the carrier, to spot dropped messages */
+    lastInboundSequence?: number;
+    /** Aborts the wait for a session slot */
+    admissionWait?: AbortController;
+    /** Sends hold audio while the call waits */
+    holdTimer?: NodeJS.Timeout;
+}
+
+// One WebSocket from the carrier; the call exists once its start message arrives
+export interface TelephonyConnection {
+    ws: WebSocket;
+    call: TelephonyCall | null;
+    /** Set on upgrade, or by the start message's credentials */
+    principal?: AuthPrincipal;
+}
+
+export interface MediaFrame {
+    payload: string; // base64 encoded audio in the transport's format
+    chunk: number;
+    timestampMs: number;
+}
+
+export interface TelephonyTransportOptions {
+    /** Log prefix, e.g. "Exotel" */
+    name: string;
+    /** WebSocket path claimed on the HTTP server */
+    path: string;
+    /** Audio format the carrier sends and plays */
+    audioFormat: AudioFormat;
+    /** Size of the carrier's 20ms playback unit in bytes; media frames are a multiple of it */
+    frameUnitBytes: number;
+    /** Units per outbound media message */
+    framesPerChunk: number;
+    /** System prompt that replaces the persona's, unless the call passes its own */
+    systemPrompt?: string;
+    /** Persona for calls that don't select one and whose number isn't routed */
+    persona?: string;
+}
+
+function silenceByte(format: AudioFormat): number {
+    switch (format.encoding) {
+        case 'mulaw': return 0xff;
+        case 'alaw': return 0xd5;
+        default: return 0;
+    }
+}
+
+export abstract class TelephonyWebSocketHandler {
+    protected wss: WebSocketServer;
+    protected calls = new Map<string, TelephonyCall>();
+    protected readonly log: Logger;
+    private acceptingCalls = true;
+    private readonly chunkBytes: number;
+    private readonly bytesPerMs: number;
+    private holdAudio?: Buffer;
+
+    constructor(
+        server: http.Server,
+        protected bedrockClient: NovaSonicBidirectionalStreamClient,
+        protected personas: PersonaStore,
+        protected options: TelephonyTransportOptions,
+        protected auth: AuthService,
+        protected admission?: AdmissionController,
+        protected usage?: UsageTracker
+    ) {
+        const { audioFormat } = options;
+        this.log = logger.child({ component: options.name });
+        this.chunkBytes = options.frameUnitBytes * options.framesPerChunk;
+        this.bytesPerMs = (audioFormat.sampleRate * audioFormat.channels * (audioFormat.encoding === 'pcm16' ? 2 : 1)) / 1000;
+
+        // Socket.IO shares the HTTP server, so only claim upgrades on our own path
+        this.wss = new WebSocketServer({ noServer: true });
+        server.on('upgrade', async (req, socket, head) => {
+            const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+            if (pathname !== options.path) return;
+
+            let principal: AuthPrincipal | undefined;
+            try {
+                principal = await this.authenticateUpgrade(req.headers, searchParams);
+            } catch (error) {
+                this.log.warn('Rejected connection', { reason: error instanceof Error ? error.message : String(error) });
+                socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+                return;
+            }
+            this.wss.handleUpgrade(req, socket, head, (ws) => this.wss.emit('connection', ws, req, principal));
+        });
+
+        this.wss.on('connection', (ws: WebSocket, _req: http.IncomingMessage, principal?: AuthPrincipal) => {
+            this.log.info('New connection established', { tenant: principal?.tenant.id });
+            this.handleConnection(ws, principal);
+        });
+
+        this.log.info(`WebSocket server initialized on ${options.path}`);
+    }
+
+    getActiveCalls(): string[] {
+        return Array.from(this.calls.keys());
+    }
+
+    /** Refuse calls that start from now on, e.g. while the server drains; live calls go on */
+    stopAcceptingCalls(): void {
+        this.acceptingCalls = false;
+    }
+
+    /** Handle one parsed message from the carrier */
+    protected abstract handleMessage(connection: TelephonyConnection, message: any): Promise<void>;
+
+    protected abstract buildMediaMessage(call: TelephonyCall, frame: MediaFrame): object;
+    protected abstract buildMarkMessage(call: TelephonyCall, name: string): object;
+    protected abstract buildClearMessage(call: TelephonyCall): object;
+
+    private handleConnection(ws: WebSocket, principal?: AuthPrincipal) {
+        const connection: TelephonyConnection = { ws, call: null, principal };
+        const authTimer = principal ? undefined : setTimeout(() => {
+            if (!connection.principal && ws.readyState === WebSocket.OPEN) {
+                this.log.warn('No credentials in time, closing connection');
+                ws.close(1008, 'Authentication required');
+            }
+        }, START_AUTH_TIMEOUT_MS);
+
+        ws.on('message', async (data: Buffer) => {
+            try {
+                await this.handleMessage(connection, JSON.parse(data.toString()));
+            } catch (error) {
+                this.log.error('Error processing message', { sessionId: connection.call?.info.streamSid, error });
+            }
+        });
+
+        ws.on('close', async () => {
+            clearTimeout(authTimer);
+            this.log.info('Connection closed', { sessionId: connection.call?.info.streamSid });
+            try {
+                await this.endCall(connection);
+            } catch (error) {
+                this.log.error('Error closing session', { sessionId: connection.call?.info.streamSid, error });
+            }
+        });
+
+        ws.on('error', (error) => {
+            this.log.error('WebSocket error', { sessionId: connection.call?.info.streamSid, error });
+        });
+    }
+
+    protected async startCall(connection: TelephonyConnection, info: TelephonyCallInfo): Promise<void> {
+        if (!this.acceptingCalls) {
+            // Closed before any Bedrock session is created
+            this.log.warn('Rejecting call while draining', { sessionId: info.streamSid });
+            connection.ws.close(1013, 'Server is draining');
+            return;
+        }
+        const { apiKey, token, ...customParameters } = info.customParameters || {};
+        info = { ...info, customParameters };
+
+        let route: CallRoute;
+        try {
+            connection.principal ??= await this.auth.authenticate({ apiKey: apiKey || undefined, bearerToken: token || undefined });
+            route = this.routeCall(connection.principal.tenant, info);
+        } catch (error) {
+            if (!(error instanceof AuthError)) throw error;
+            this.log.warn('Rejecting call', { sessionId: info.streamSid, reason: error.message });
+            connection.ws.close(1008, error.message);
+            return;
+        }
+        const { tenant } = connection.principal;
+        this.log.info('Call started', { sessionId: info.streamSid, from: info.from, tenant: tenant.id });
+
+        const call: TelephonyCall = {
+            ws: connection.ws,
+            info,
+            tenant,
+            route,
+            pendingAudio: Buffer.alloc(0),
+            sequenceNumber: 1,
+            chunk: 1,
+            timestampMs: 0,
+            pendingMarks: new Set(),
+            markCounter: 0
+        };
+        connection.call = call;
+        if (this.admission && !(await this.awaitAdmission(call))) {
+            return;
+        }
+
+        let session: StreamSession;
+        try {
+            session = await this.initializeNovaSession(call);
+        } catch (error) {
+            this.admission?.release(info.streamSid);
+            throw error;
+        }
+        // Hung up while the session was being set up; endCall had no session to close yet
+        if (call.ws.readyState !== WebSocket.OPEN) {
+            this.log.info('Call ended during session setup', { sessionId: info.streamSid });
+            try {
+                await session.close();
+            } finally {
+                this.admission?.release(info.streamSid);
+            }
+            return;
+        }
+        call.session = session;
+        this.calls.set(info.streamSid, call);
+    }
+
+    /** Audio data from the caller */
+    protected async receiveAudio(connection: TelephonyConnection, payload: string): Promise<void> {
+        const session = connection.call?.session;
+        if (session && payload) {
+            await session.streamAudio(Buffer.from(payload, 'base64'));
+        }
+    }
+
+    /** The carrier has played all audio sent before this mark */
+    protected markPlayed(connection: TelephonyConnection, name: string): void {
+        const call = connection.call;
+        if (!call || !call.pendingMarks.delete(name)) return;
+        if (call.pendingMarks.size === 0) {
+            this.log.debug('Playback finished', { sessionId: call.info.streamSid });
+        }
+    }
+
+    protected async endCall(connection: TelephonyConnection): Promise<void> {
+        const call = connection.call;
+        if (!call) return;
+        // Hung up while waiting for a slot
+        call.admissionWait?.abort();
+
+        const session = call.session;
+        if (!session) return;
+
+        call.session = undefined;
+        this.calls.delete(call.info.streamSid);
+        try {
+            await session.close();
+        } finally {
+            this.admission?.release(call.info.streamSid);
+        }
+    }
+
+    protected checkSequence(connection: TelephonyConnection, sequenceNumber?: number | string): void {
+        const call = connection.call;
+        if (!call || sequenceNumber === undefined) return;
+
+        const sequence = Number(sequenceNumber);
+        if (call.lastInboundSequence !== undefined && sequence !== call.lastInboundSequence + 1) {
+            this.log.warn('Sequence gap', { sessionId: call.info.streamSid, expected: call.lastInboundSequence + 1, received: sequence });
+        }
+        call.lastInboundSequence = sequence;
+    }
+
+    /**
+     * Wait for a session slot, playing hold audio if the call is queued. Returns false
+     * (having closed the connection if it is still open) when the call can't go ahead.
+     */
+    private async awaitAdmission(call: TelephonyCall): Promise<boolean> {
+        const sessionId = call.info.streamSid;
+        const waiting = new AbortController();
+        call.admissionWait = waiting;
+        try {
+            await this.admission!.admit({
+                key: sessionId,
+                regions: [this.bedrockClient.getRegion()],
+                tenantId: call.tenant.id,
+                tenantLimit: call.tenant.maxConcurrentSessions,
+                signal: waiting.signal,
+                onQueued: ({ position, queueLength }) => {
+                    this.log.info('Call waiting for a session slot', { sessionId, position, queueLength });
+                    this.startHold(call);
+                }
+            });
+        } catch (error) {
+            this.log.warn('Call not admitted', { sessionId, error: error instanceof Error ? error.message : String(error) });
+            this.stopHold(call);
+            if (call.ws.readyState === WebSocket.OPEN) {
+                call.ws.close(1013, 'Server is busy');
+            }
+            return false;
+        } finally {
+            call.admissionWait = undefined;
+        }
+
+        this.stopHold(call);
+        // Hung up just as the slot freed, or the server started draining meanwhile
+        if (call.ws.readyState !== WebSocket.OPEN || !this.acceptingCalls) {
+            this.admission!.release(sessionId);
+            if (call.ws.readyState === WebSocket.OPEN) {
+                call.ws.close(1013, 'Server is draining');
+            }
+            return false;
+        }
+        return true;
+    }
+
+    /** Loop hold audio in real time, one chunk per chunk duration */
+    private startHold(call: TelephonyCall): void {
+        if (call.holdTimer) return;
+        const audio = this.getHoldAudio();
+        let offset = 0;
+        call.holdTimer = setInterval(() => {
+            const frame = Buffer.alloc(this.chunkBytes, silenceByte(this.options.audioFormat));
+            for (let written = 0; written < frame.length && audio.length > 0;) {
+                const copied = audio.copy(frame, written, offset, Math.min(audio.length, offset + frame.length - written));
+                written += copied;
+                offset = (offset + copied) % audio.length;
+            }
+            this.sendMedia(call, frame);
+        }, this.chunkBytes / this.bytesPerMs);
+    }
+
+    // Stop hold audio and drop what the carrier still has buffered before the assistant speaks
+    private stopHold(call: TelephonyCall): void {
+        if (!call.holdTimer) return;
+        clearInterval(call.holdTimer);
+        call.holdTimer = undefined;
+        this.send(call, this.buildClearMessage(call));
+    }
+
+    private getHoldAudio(): Buffer {
+        if (!this.holdAudio) {
+            const file = process.env.TELEPHONY_HOLD_AUDIO;
+            try {
+                this.holdAudio = loadHoldAudio(this.options.audioFormat, file);
+            } catch (error) {
+                this.log.error('Failed to load hold audio, using the chime', { file, error });
+                this.holdAudio = loadHoldAudio(this.options.audioFormat);
+            }
+        }
+        return this.holdAudio;
+    }
+
+    /**
+     * Principal for the credentials given on upgrade, in headers or the query string;
+     * undefined when there are none and the start message has to bring them
+     */
+    private async authenticateUpgrade(headers: IncomingHttpHeaders, query: URLSearchParams): Promise<AuthPrincipal | undefined> {
+        const fromHeaders = credentialsFromHeaders(headers);
+        const credentials: Credentials = {
+            apiKey: fromHeaders.apiKey ?? (query.get('apiKey') || undefined),
+            bearerToken: fromHeaders.bearerToken ?? (query.get('token') || undefined)
+        };
+        if (this.auth.enabled && !credentials.apiKey && !credentials.bearerToken) return undefined;
+        return this.auth.authenticate(credentials);
+    }
+
+    /**
+     * Persona, tools and voice for a call, checked against its tenant. Throws AuthError
+     * (403) when the tenant may not use the region, the persona or the requested voice,
+     * or has used up its daily budget.
+     */
+    private routeCall(tenant: Tenant, info: TelephonyCallInfo): CallRoute {
+        const params = info.customParameters || {};
+        const persona = this.selectPersona(tenant, info);
+        assertRegionAllowed(tenant, this.bedrockClient.getRegion());
+        assertPersonaAllowed(tenant, persona.id);
+        if (this.usage?.isOverDailyBudget(tenant.id)) {
+            throw new AuthError(`Tenant ${tenant.id} has used up its daily budget`, 403);
+        }
+
+        const requestedTools = params.enabledTools
+            ? params.enabledTools.split(',').map(tool => tool.trim()).filter(Boolean)
+            : persona.enabledTools;
+        return {
+            persona,
+            enabledTools: resolveEnabledTools(tenant, requestedTools),
+            voiceId: resolveVoice(tenant, params.voiceId || persona.voiceId) || DefaultAudioOutputConfiguration.voiceId
+        };
+    }
+
+    /**
+     * Persona for a call: the persona parameter, then the called number's route, then the
+     * tenant's, the transport's and the store's default
+     */
+    private selectPersona(tenant: Tenant, info: TelephonyCallInfo): Persona {
+        const requested = info.customParameters?.persona;
+        if (requested) {
+            const persona = this.personas.get(requested);
+            if (persona) return persona;
+            this.log.warn(`Unknown persona "${requested}", using the default`, { sessionId: info.streamSid });
+        }
+        return this.personas.forPhoneNumber(info.to)
+            ?? (tenant.defaultPersona ? this.personas.get(tenant.defaultPersona) : undefined)
+            ?? (this.options.persona ? this.personas.get(this.options.persona) : undefined)
+            ?? this.personas.getDefault();
+    }
+
+    private async initializeNovaSession(call: TelephonyCall): Promise<StreamSession> {
+        const sessionId = call.info.streamSid;
+        const params = call.info.customParameters || {};
+        const { name, audioFormat } = this.options;
+        const { persona, enabledTools, voiceId } = call.route;
+        const callLog = this.log.child({ sessionId });
+        callLog.info('Call uses persona', { persona: persona.id });
+
+        // Create Nova Sonic session; the client converts between the carrier's format and LPCM
+        const session = this.bedrockClient.createStreamSession(sessionId, {
+            enabledTools,
+            inferenceConfig: persona.inferenceConfig,
+            turnDetectionConfig: persona.endpointingSensitivity
+                ? { endpointingSensitivity: persona.endpointingSensitivity }
+                : undefined,
+            toolSettings: personaToolSettings(persona),
+            audioFormat: { input: audioFormat, output: audioFormat },
+            recording: params.record !== undefined ? { enabled: params.record === 'true' } : undefined,
+            metadata: Object.fromEntries(Object.entries({
+                source: name.toLowerCase(),
+                tenant: call.tenant.id,
+                persona: persona.id,
+                callSid: call.info.callSid,
+                from: call.info.from,
+                to: call.info.to
+            }).filter((entry): entry is [string, string] => entry[1] !== undefined))
+        });
+
+        // Register handlers before streaming starts so no audio is missed
+        session.on('audioOutput', (data) => {
+            if (data?.content) {
+                this.queueAudio(call, Buffer.from(data.content, 'base64'));
+            }
+        });
+
+        session.on('contentEnd', (data) => {
+            if (data?.type !== 'AUDIO') return;
+            if (data.stopReason === 'INTERRUPTED') {
+                this.clearPlayback(call);
+            } else {
+                this.flushAudio(call);
+            }
+        });
+
+        session.on('bargeIn', () => {
+            callLog.info('Barge-in, clearing playback');
+            this.clearPlayback(call);
+        });
+
+        session.on('textOutput', (data) => {
+            callLog.debug('Text output', { role: data.role, content: data.content });
+        });
+
+        session.on('error', (data) => {
+            callLog.error('Session error', { event: data });
+        });
+
+        session.on('streamComplete', () => {
+            if (call.ws.readyState === WebSocket.OPEN) {
+                call.ws.close();
+            }
+        });
+
+        try {
+            // Nova produces audio at the carrier's rate, so only the encoding may need converting
+            await session.setupSessionAndPromptStart(voiceId, audioFormat.sampleRate);
+
+            const systemPrompt = buildSystemPrompt(persona, params.systemPrompt || this.options.systemPrompt || persona.systemPrompt);
+            await session.setupSystemPrompt(undefined, systemPrompt, voiceId);
+
+            // Start audio; caller audio is upsampled to Nova's 16kHz input
+            await session.setupStartAudio();
+
+            // Initialize streaming
+            this.bedrockClient.initiateBidirectionalStreaming(sessionId);
+
+            // Let the assistant speak first
+            if (persona.greeting) {
+                await session.sendTextInput(GREETING_CUE);
+            }
+        } catch (error) {
+            // Don't leave a half set-up session for the stale-session sweep
+            callLog.error('Session setup failed', { error });
+            this.bedrockClient.forceCloseSession(sessionId);
+            throw error;
+        }
+
+        return session;
+    }
+
+    /**
+     * Buffer model audio and send it in whole chunks
+     */
+    private queueAudio(call: TelephonyCall, audio: Buffer): void {
+        call.pendingAudio = Buffer.concat([call.pendingAudio, audio]);
+        while (call.pendingAudio.length >= this.chunkBytes) {
+            this.sendMedia(call, call.pendingAudio.subarray(0, this.chunkBytes));
+            call.pendingAudio = call.pendingAudio.subarray(this.chunkBytes);
+        }
+    }
+
+    /**
+     * End of a response: send the remainder padded with silence, then a mark
+     */
+    private flushAudio(call: TelephonyCall): void {
+        const { frameUnitBytes, audioFormat } = this.options;
+        if (call.pendingAudio.length > 0) {
+            const paddedLength = Math.ceil(call.pendingAudio.length / frameUnitBytes) * frameUnitBytes;
+            const frame = Buffer.alloc(paddedLength, silenceByte(audioFormat));
+            call.pendingAudio.copy(frame);
+            call.pendingAudio = Buffer.alloc(0);
+            this.sendMedia(call, frame);
+        }
+
+        const name = `response-${++call.markCounter}`;
+        call.pendingMarks.add(name);
+        this.send(call, this.buildMarkMessage(call, name));
+    }
+
+    /**
+     * Barge-in: drop unsent audio and tell the carrier to discard what it has buffered
+     */
+    private clearPlayback(call: TelephonyCall): void {
+        call.pendingAudio = Buffer.alloc(0);
+        call.pendingMarks.clear();
+        this.send(call, this.buildClearMessage(call));
+    }
+
+    private sendMedia(call: TelephonyCall, frame: Buffer): void {
+        this.send(call, this.buildMediaMessage(call, {
+            payload: frame.toString('base64'),
+            chunk: call.chunk++,
+            timestampMs: call.timestampMs
+        }));
+        call.timestampMs += Math.round(frame.length / this.bytesPerMs);
+    }
+
+    private send(call: TelephonyCall, message: object): void {
+        if (call.ws.readyState !== WebSocket.OPEN) return;
+        call.ws.send(JSON.stringify(message));
+    }
+}
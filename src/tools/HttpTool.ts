@@ -0,0 +1,200 @@
+/**
+ * HttpTool - Declarative tools that wrap a REST endpoint
+ *
+ * Each definition file (JSON or YAML) in the HTTP tools directory describes the
+ * tool name, description, input schema, request template and which response
+ * fields to return, so new endpoints can be exposed without writing TypeScript.
+ *
+ * Templates:
+ * - {param}       replaced with the tool parameter (URL-encoded inside the url)
+ * - ${env:NAME}   replaced with an environment variable (e.g. API tokens in headers)
+ */
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Tool, ToolExecutionContext } from './Tool';
+import { DefaultToolConfiguration } from '../consts';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools' });
+
+export interface HttpToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: object;
+    request: {
+        method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+        url: string;
+        headers?: Record<string, string>;
+        /** Extra query parameters, appended to the url */
+        query?: Record<string, string>;
+        /** JSON body template; a string that is exactly "{param}" keeps the param's type */
+        body?: unknown;
+    };
+    response?: {
+        /** Dot paths to return, e.g. "status" or "items[].name"; whole body when omitted */
+        fields?: string[];
+        /** Arrays in the result are cut to this many items */
+        maxItems?: number;
+        /** Serialized result is truncated to this many characters */
+        maxLength?: number;
+    };
+    timeoutMs?: number;
+}
+
+const HTTP_TOOL_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const TEMPLATE_PATTERN = /\$\{env:([A-Za-z0-9_]+)\}|\{([A-Za-z0-9_]+)\}/g;
+
+function renderTemplate(template: string, params: Record<string, unknown>, encode: boolean): string {
+    return template.replace(TEMPLATE_PATTERN, (_match, envName: string | undefined, paramName: string | undefined) => {
+        if (envName) {
+            return process.env[envName] ?? '';
+        }
+        const value = params[paramName!];
+        if (value === undefined || value === null) return '';
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return encode ? encodeURIComponent(text) : text;
+    });
+}
+
+function renderBody(template: unknown, params: Record<string, unknown>): unknown {
+    if (typeof template === 'string') {
+        const exact = template.match(/^\{([A-Za-z0-9_]+)\}$/);
+        return exact ? params[exact[1]] : renderTemplate(template, params, false);
+    }
+    if (Array.isArray(template)) {
+        return template.map(item => renderBody(item, params));
+    }
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderBody(value, params)]));
+    }
+    return template;
+}
+
+/**
+ * Resolve a dot path with [] array mapping, e.g. "items[].price.amount"
+ */
+function selectPath(data: unknown, fieldPath: string): unknown {
+    const [head, ...rest] = fieldPath.split('.');
+    if (!head) return data;
+
+    const isArray = head.endsWith('[]');
+    const key = isArray ? head.slice(0, -2) : head;
+    const value = key ? (data as Record<string, unknown> | undefined)?.[key] : data;
+
+    if (isArray) {
+        return Array.isArray(value) ? value.map(item => selectPath(item, rest.join('.'))) : undefined;
+    }
+    return rest.length > 0 ? selectPath(value, rest.join('.')) : value;
+}
+
+function limitArrays(value: unknown, maxItems: number): unknown {
+    if (Array.isArray(value)) {
+        return value.slice(0, maxItems).map(item => limitArrays(item, maxItems));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, limitArrays(item, maxItems)]));
+    }
+    return value;
+}
+
+export function createHttpTool(definition: HttpToolDefinition): Tool {
+    const { request, response = {} } = definition;
+    const method = (request.method || 'GET').toUpperCase();
+    const maxLength = Math.min(response.maxLength ?? DefaultToolConfiguration.maxResultLength, DefaultToolConfiguration.maxResultLength);
+
+    return {
+        name: definition.name,
+        description: definition.description,
+        inputSchema: definition.inputSchema,
+        timeoutMs: definition.timeoutMs,
+
+        async execute(params: unknown, context?: ToolExecutionContext): Promise<unknown> {
+            const input = (params || {}) as Record<string, unknown>;
+
+            const url = new URL(renderTemplate(request.url, input, true));
+            for (const [key, value] of Object.entries(request.query || {})) {
+                const rendered = renderTemplate(value, input, false);
+                if (rendered) url.searchParams.set(key, rendered);
+            }
+
+            const headers: Record<string, string> = {
+                'User-Agent': 'NovaSonicVoicebot/1.0',
+                'Accept': 'application/json'
+            };
+            for (const [key, value] of Object.entries(request.headers || {})) {
+                headers[key] = renderTemplate(value, input, false);
+            }
+
+            let body: string | undefined;
+            if (request.body !== undefined && method !== 'GET') {
+                body = JSON.stringify(renderBody(request.body, input));
+                headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+            }
+
+            log.debug(`${method} ${url.origin}${url.pathname}`, { tool: definition.name });
+
+            const res = await fetch(url, { method, headers, body, signal: context?.signal });
+            if (!res.ok) {
+                throw new Error(`${definition.name} endpoint returned ${res.status}`);
+            }
+
+            const contentType = res.headers.get('content-type') || '';
+            let data: unknown = contentType.includes('json') ? await res.json() : await res.text();
+
+            if (response.fields && response.fields.length > 0) {
+                data = Object.fromEntries(response.fields.map(field => [field, selectPath(data, field)]));
+            }
+            if (response.maxItems !== undefined) {
+                data = limitArrays(data, response.maxItems);
+            }
+
+            const serialized = typeof data === 'string' ? data : JSON.stringify(data);
+            if (serialized.length > maxLength) {
+                return { result: serialized.substring(0, maxLength), truncated: true };
+            }
+            return data;
+        }
+    };
+}
+
+function assertDefinition(definition: Partial<HttpToolDefinition>, file: string): asserts definition is HttpToolDefinition {
+    const missing: string[] = [];
+    if (!definition.name) missing.push('name');
+    if (!definition.description) missing.push('description');
+    if (!definition.inputSchema) missing.push('inputSchema');
+    if (!definition.request?.url) missing.push('request.url');
+    if (missing.length > 0) {
+        throw new Error(`${file}: missing ${missing.join(', ')}`);
+    }
+}
+
+/**
+ * Read every HTTP tool definition in a directory. A file may hold one
+ * definition or an array of them; invalid files are logged and skipped.
+ */
+export function loadHttpTools(dir: string): Tool[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+
+    const tools: Tool[] = [];
+    const files = fs.readdirSync(dir).filter(file => HTTP_TOOL_EXTENSIONS.includes(path.extname(file))).sort();
+
+    for (const file of files) {
+        try {
+            const text = fs.readFileSync(path.join(dir, file), 'utf-8');
+            const parsed = path.extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+            const definitions: Partial<HttpToolDefinition>[] = Array.isArray(parsed) ? parsed : [parsed];
+
+            for (const definition of definitions) {
+                assertDefinition(definition, file);
+                tools.push(createHttpTool(definition));
+            }
+            log.info(`Loaded HTTP tool definitions from ${file}`);
+        } catch (error) {
+            log.error(`Invalid HTTP tool definition ${file}`, { error });
+        }
+    }
+    return tools;
+}
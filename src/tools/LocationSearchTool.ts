@@ -1,7 +1,10 @@
 /**
  * LocationSearchTool - Searches for location coordinates using Open-Meteo Geocoding API
  */
-import { Tool } from './Tool';
+import { Tool, ToolExecutionContext } from './Tool';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools', tool: 'searchLocationTool' });
 
 interface LocationSearchParams {
     query: string;
@@ -34,14 +37,15 @@ function parseParams(params: unknown): LocationSearchParams | null {
     return null;
 }
 
-async function searchLocation(query: string, count: number = 3): Promise<object> {
+async function searchLocation(query: string, count: number = 3, signal?: AbortSignal): Promise<object> {
     const url = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(query)}&count=${count}&language=en`;
 
     const response = await fetch(url, {
         headers: {
             'User-Agent': 'NovaSonicVoicebot/1.0',
             'Accept': 'application/json'
-        }
+        },
+        signal
     });
 
     if (!response.ok) {
@@ -72,14 +76,16 @@ export const LocationSearchTool: Tool = {
                 description: 'City name, country name, or postal code to search for. Must be in English.'
             },
             count: {
-                type: 'number',
+                type: 'integer',
+                minimum: 1,
+                maximum: 10,
                 description: 'Number of results to return (1-10). Default is 3.'
             }
         },
         required: ['query']
     },
 
-    async execute(params: unknown): Promise<object> {
+    async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
         const parsed = parseParams(params);
         
         if (!parsed || !parsed.query) {
@@ -88,7 +94,7 @@ export const LocationSearchTool: Tool = {
 
         const count = Math.min(Math.max(parsed.count || 3, 1), 10);
         
-        console.log(`Searching location: "${parsed.query}" (count: ${count})`);
-        return searchLocation(parsed.query, count);
+        log.debug('Searching location', { query: parsed.query, count });
+        return searchLocation(parsed.query, count, context?.signal);
     }
 };
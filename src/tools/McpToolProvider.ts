@@ -0,0 +1,282 @@
+/**
+ * McpToolProvider - Exposes Model Context Protocol server tools to Nova Sonic
+ *
+ * Launches each server configured under mcpServers in config/tools.json over stdio,
+ * turns its tool listing into Tools named "<server>_<tool>" and registers them in every
+ * attached ToolRegistry. Tool calls are routed back to the owning server. When a server
+ * exits its tools are unregistered and the connection is retried with backoff.
+ */
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Tool, ToolExecutionContext, ToolRegistry } from './Tool';
+import { McpServerConfig, ToolsConfig, getToolSettings, isToolEnabled } from './ToolConfig';
+import { DefaultToolConfiguration } from '../consts';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'MCP' });
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Nova Sonic tool names: letters, digits, _ and -, at most 64 characters
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface McpServerState {
+    name: string;
+    config: McpServerConfig;
+    client?: Client;
+    connected: boolean;
+    tools: Tool[];
+    reconnectAttempts: number;
+    reconnectTimer?: NodeJS.Timeout;
+}
+
+export interface McpServerStatus {
+    name: string;
+    connected: boolean;
+    tools: string[];
+}
+
+interface McpContent {
+    type: string;
+    text?: string;
+    [key: string]: unknown;
+}
+
+function toToolName(prefix: string, name: string): string {
+    return `${prefix}${name}`.replace(/[^A-Za-z0-9_-]/g, '_').substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+function renderEnv(env: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(env).map(([key, value]) => [
+        key,
+        value.replace(/\$\{env:([A-Za-z0-9_]+)\}/g, (_match, name: string) => process.env[name] ?? '')
+    ]));
+}
+
+/**
+ * Convert an MCP tools/call result into a tool result for the model:
+ * structured content when the server provides it, otherwise the joined text content
+ */
+function toToolResult(toolName: string, result: Record<string, unknown>): unknown {
+    // Servers on the 2024-10-07 protocol reply with a bare toolResult
+    if ('toolResult' in result) {
+        return result.toolResult;
+    }
+
+    const content = (Array.isArray(result.content) ? result.content : []) as McpContent[];
+    const text = content
+        .map(item => item.type === 'text' ? item.text : `[${item.type} content omitted]`)
+        .filter(Boolean)
+        .join('\n');
+
+    if (result.isError) {
+        return { error: true, message: text || `${toolName} failed` };
+    }
+    if (result.structuredContent !== undefined) {
+        return result.structuredContent;
+    }
+
+    const maxLength = DefaultToolConfiguration.maxResultLength;
+    if (text.length > maxLength) {
+        return { result: text.substring(0, maxLength), truncated: true };
+    }
+    return { result: text };
+}
+
+export class McpToolProvider {
+    private servers = new Map<string, McpServerState>();
+    private registries = new Set<ToolRegistry>();
+    private stopped = false;
+
+    constructor(private config: ToolsConfig) {
+        for (const [name, serverConfig] of Object.entries(config.mcpServers || {})) {
+            if (serverConfig.enabled === false) {
+                log.info('Disabled in config, skipping', { server: name });
+                continue;
+            }
+            this.servers.set(name, { name, config: serverConfig, connected: false, tools: [], reconnectAttempts: 0 });
+        }
+    }
+
+    /**
+     * Connect to every configured server. Servers that fail to start are retried
+     * in the background, so this never rejects.
+     */
+    async start(): Promise<void> {
+        await Promise.all(Array.from(this.servers.values()).map(server => this.connect(server)));
+    }
+
+    /**
+     * Register MCP tools in a registry now and whenever a server's tool list changes
+     */
+    attach(registry: ToolRegistry): void {
+        this.registries.add(registry);
+        for (const server of this.servers.values()) {
+            this.registerTools(registry, server.tools, server.config);
+        }
+    }
+
+    getStatus(): McpServerStatus[] {
+        return Array.from(this.servers.values()).map(server => ({
+            name: server.name,
+            connected: server.connected,
+            tools: server.tools.map(tool => tool.name)
+        }));
+    }
+
+    async stop(): Promise<void> {
+        this.stopped = true;
+        await Promise.all(Array.from(this.servers.values()).map(async server => {
+            clearTimeout(server.reconnectTimer);
+            this.setTools(server, []);
+            server.connected = false;
+            try {
+                await server.client?.close();
+            } catch (error) {
+                log.error('Error closing connection', { server: server.name, error });
+            }
+        }));
+    }
+
+    private async connect(server: McpServerState): Promise<void> {
+        if (this.stopped) return;
+
+        const { command, args = [], env, cwd } = server.config;
+        const client = new Client({ name: 'nova-sonic-voicebot', version: '1.0.0' });
+        const transport = new StdioClientTransport({
+            command,
+            args,
+            env: { ...getDefaultEnvironment(), ...renderEnv(env) },
+            cwd,
+            stderr: 'inherit'
+        });
+
+        client.onerror = (error) => log.error('Transport error', { server: server.name, error: error.message });
+        client.onclose = () => {
+            if (server.client === client) {
+                this.handleDisconnect(server);
+            }
+        };
+
+        try {
+            log.info(`Starting ${command} ${args.join(' ')}`, { server: server.name });
+            server.client = client;
+            await client.connect(transport);
+            client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+                log.info('Tool list changed, refreshing', { server: server.name });
+                await this.refreshTools(server).catch(error =>
+                    log.error('Failed to refresh tools', { server: server.name, error })
+                );
+            });
+
+            server.connected = true;
+            server.reconnectAttempts = 0;
+            await this.refreshTools(server);
+        } catch (error) {
+            log.error('Failed to connect', { server: server.name, error });
+            server.client = undefined;
+            server.connected = false;
+            await client.close().catch(() => undefined);
+            this.scheduleReconnect(server);
+        }
+    }
+
+    private handleDisconnect(server: McpServerState): void {
+        log.warn('Connection closed', { server: server.name });
+        server.client = undefined;
+        server.connected = false;
+        this.setTools(server, []);
+        this.scheduleReconnect(server);
+    }
+
+    private scheduleReconnect(server: McpServerState): void {
+        if (this.stopped || server.reconnectTimer) return;
+
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** server.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+        server.reconnectAttempts++;
+        log.info(`Reconnecting in ${delay}ms (attempt ${server.reconnectAttempts})`, { server: server.name });
+
+        server.reconnectTimer = setTimeout(() => {
+            server.reconnectTimer = undefined;
+            void this.connect(server);
+        }, delay);
+    }
+
+    private async refreshTools(server: McpServerState): Promise<void> {
+        const client = server.client;
+        if (!client) return;
+
+        const listed: Array<{ name: string; description?: string; inputSchema: object }> = [];
+        let cursor: string | undefined;
+        do {
+            const page = await client.listTools(cursor ? { cursor } : undefined);
+            listed.push(...page.tools);
+            cursor = page.nextCursor;
+        } while (cursor);
+
+        const prefix = server.config.toolPrefix ?? `${server.name}_`;
+        const tools = listed.map(mcpTool => this.createTool(server, mcpTool, toToolName(prefix, mcpTool.name)));
+        this.setTools(server, tools);
+        log.info(`Registered tools: ${tools.map(t => t.name).join(', ') || '(none)'}`, { server: server.name });
+    }
+
+    private createTool(server: McpServerState, mcpTool: { name: string; description?: string; inputSchema: object }, name: string): Tool {
+        return {
+            name,
+            description: mcpTool.description || `${mcpTool.name} (from MCP server ${server.name})`,
+            inputSchema: mcpTool.inputSchema,
+            timeoutMs: server.config.timeoutMs,
+
+            async execute(params: unknown, context?: ToolExecutionContext): Promise<unknown> {
+                const client = server.client;
+                if (!client || !server.connected) {
+                    throw new Error(`MCP server ${server.name} is not connected`);
+                }
+
+                const result = await client.callTool(
+                    { name: mcpTool.name, arguments: (params || {}) as Record<string, unknown> },
+                    undefined,
+                    { signal: context?.signal }
+                );
+                return toToolResult(name, result);
+            },
+
+            async healthCheck(signal: AbortSignal): Promise<void> {
+                if (!server.client || !server.connected) {
+                    throw new Error(`MCP server ${server.name} is not connected`);
+                }
+                await server.client.ping({ signal });
+            }
+        };
+    }
+
+    /**
+     * Replace a server's tools in every attached registry
+     */
+    private setTools(server: McpServerState, tools: Tool[]): void {
+        for (const registry of this.registries) {
+            for (const tool of server.tools) {
+                if (registry.get(tool.name) === tool) {
+                    registry.unregister(tool.name);
+                }
+            }
+            this.registerTools(registry, tools, server.config);
+        }
+        server.tools = tools;
+    }
+
+    private registerTools(registry: ToolRegistry, tools: Tool[], serverConfig: McpServerConfig): void {
+        for (const tool of tools) {
+            if (!isToolEnabled(this.config, tool.name, true)) continue;
+            if (registry.has(tool.name) && !this.isMcpTool(registry.get(tool.name)!)) {
+                log.warn(`${tool.name} replaces an already registered tool`);
+            }
+            registry.register(tool, { timeoutMs: getToolSettings(this.config, tool.name)?.timeoutMs ?? serverConfig.timeoutMs });
+        }
+    }
+
+    private isMcpTool(tool: Tool): boolean {
+        return Array.from(this.servers.values()).some(server => server.tools.includes(tool));
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Loads third-party tool modules from a plugins directory at startup
+ *
+ * A plugin module exports (as `default`, `tool`, `tools` or `createTool`) either a
+ * Tool, an array of Tools, or a factory `(settings) => Tool | Tool[]`. Factories
+ * receive the config/tools.json entry named after the module file (without extension).
+ * Plugins must be JavaScript: the server runs compiled code under plain node, which
+ * can't require TypeScript, so compile .ts plugins before dropping them in.
+ */
+import fs from 'fs';
+import path from 'path';
+import { Tool } from './Tool';
+import { ToolSettings, ToolsConfig, getToolSettings } from './ToolConfig';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools' });
+
+const PLUGIN_EXTENSIONS = ['.js', '.cjs'];
+
+type PluginExport = Tool | Tool[] | ((settings: ToolSettings) => Tool | Tool[]);
+
+function isTool(value: unknown): value is Tool {
+    const tool = value as Tool;
+    return !!tool
+        && typeof tool.name === 'string'
+        && typeof tool.description === 'string'
+        && typeof tool.inputSchema === 'object'
+        && typeof tool.execute === 'function';
+}
+
+function resolveTools(exported: PluginExport, settings: ToolSettings): Tool[] {
+    const value = typeof exported === 'function' ? exported(settings) : exported;
+    const tools = Array.isArray(value) ? value : [value];
+    return tools.filter(isTool);
+}
+
+/**
+ * Require every plugin module in the directory and collect the tools it exports.
+ * A broken plugin is logged and skipped so it can't take the server down.
+ */
+export function loadToolPlugins(pluginsDir: string, config: ToolsConfig): Tool[] {
+    if (!fs.existsSync(pluginsDir)) {
+        log.info(`Plugins directory ${pluginsDir} not found, skipping plugins`);
+        return [];
+    }
+
+    const entries = fs.readdirSync(pluginsDir);
+    for (const file of entries.filter(file => file.endsWith('.ts') && !file.endsWith('.d.ts'))) {
+        log.warn(`Skipping plugin ${file}: compile it to JavaScript first`);
+    }
+    const files = entries
+        .filter(file => PLUGIN_EXTENSIONS.includes(path.extname(file)))
+        .sort();
+
+    const tools: Tool[] = [];
+    for (const file of files) {
+        const modulePath = path.join(pluginsDir, file);
+        const pluginName = path.basename(file, path.extname(file));
+        try {
+            const mod = require(modulePath);
+            const exported: PluginExport | undefined = mod.default ?? mod.tools ?? mod.tool ?? mod.createTool ?? mod;
+            const pluginTools = exported ? resolveTools(exported, getToolSettings(config, pluginName) || {}) : [];
+
+            if (pluginTools.length === 0) {
+                log.warn(`Plugin ${file} does not export any tools`);
+                continue;
+            }
+
+            log.info(`Loaded plugin ${file}: ${pluginTools.map(t => t.name).join(', ')}`);
+            tools.push(...pluginTools);
+        } catch (error) {
+            log.error(`Failed to load plugin ${file}`, { error });
+        }
+    }
+    return tools;
+}
@@ -3,18 +3,38 @@
  */
 
 import { Tool, ToolExecutionContext } from './Tool';
+import { ToolSettings } from './ToolConfig';
+import { traceBedrockCall } from '../telemetry';
 import { 
     BedrockAgentRuntimeClient, 
     RetrieveAndGenerateCommand,
-    RetrieveAndGenerateCommandInput
+    RetrieveAndGenerateCommandInput,
+    RetrieveCommand
 } from '@aws-sdk/client-bedrock-agent-runtime';
+import { logger } from '../logging';
 
-// Configuration - Update these with your KB details
-const KB_REGION = process.env.KB_REGION || 'ap-south-1';
-const KB_KNOWLEDGE_BASE_ID = process.env.KB_KNOWLEDGE_BASE_ID || 'KYSHCFGHSC';
-const KB_MODEL_ARN = process.env.KB_MODEL_ARN || 'arn:aws:bedrock:ap-south-1:968396880463:inference-profile/apac.amazon.nova-micro-v1:0';
-const KB_CHUNK_CONFIDENCE_THRESHOLD = parseFloat(process.env.KB_CHUNK_CONFIDENCE_THRESHOLD || '0.8');
-const KB_MIN_HIGH_CONFIDENCE_CHUNKS = parseInt(process.env.KB_MIN_HIGH_CONFIDENCE_CHUNKS || '1');
+const log = logger.child({ component: 'Tools', tool: 'search_knowledge_base' });
+
+// RetrieveAndGenerate doesn't report token usage; estimated at ~4 characters per token
+const CHARS_PER_TOKEN = 4;
+
+export interface RAGKnowledgeBaseSettings extends ToolSettings {
+    region?: string;
+    knowledgeBaseId?: string;
+    modelArn?: string;
+    numberOfResults?: number;
+    /** Bedrock prompt template with a $search_results$ placeholder */
+    promptTemplate?: string;
+}
+
+// Defaults - override in config/tools.json or with KB_* env vars
+const DEFAULT_SETTINGS = {
+    region: 'ap-south-1',
+    knowledgeBaseId: 'KYSHCFGHSC',
+    modelArn: 'arn:aws:bedrock:ap-south-1:968396880463:inference-profile/apac.amazon.nova-micro-v1:0',
+    numberOfResults: 5,
+    timeoutMs: 15000,
+};
 
 const KB_SYSTEM_PROMPT = `You are a retrieval assistant for Jain Sales Corporation. Your job is to extract and return the exact answer from the knowledge base context below.
 
@@ -38,17 +58,28 @@ Example of BAD format (do not do this):
 "* 7 inch Borewell Submersible (Type: KS7)\\n* 9 inch Borewell (Type: KS9)"
 `;
 
-// Initialize Bedrock Agent Runtime client
-const bedrockAgentClient = new BedrockAgentRuntimeClient({ region: KB_REGION });
-
 interface RAGToolInput {
     query: string;
     language?: string;
 }
 
-export const RAGKnowledgeBaseTool: Tool = {
-    name: 'search_knowledge_base',
-    description: `Call this tool for ANY question about which product to use, product recommendations, specifications, or technical details.
+export function createRAGKnowledgeBaseTool(overrides: RAGKnowledgeBaseSettings = {}): Tool {
+    const defaults = { ...DEFAULT_SETTINGS, promptTemplate: KB_SYSTEM_PROMPT, ...overrides };
+
+    // A persona's knowledge base may live in another region
+    const clients = new Map<string, BedrockAgentRuntimeClient>();
+    const clientFor = (region: string) => {
+        if (!clients.has(region)) {
+            clients.set(region, new BedrockAgentRuntimeClient({ region }));
+        }
+        return clients.get(region)!;
+    };
+    clientFor(defaults.region);
+
+    return {
+        name: 'search_knowledge_base',
+        timeoutMs: defaults.timeoutMs,
+        description: `Call this tool for ANY question about which product to use, product recommendations, specifications, or technical details.
 
 ALWAYS call this tool when customer asks:
 - "Which pump for..." (borewell, domestic, irrigation, etc.)
@@ -65,94 +96,125 @@ DO NOT call for:
 
 If unsure whether to call - CALL THE TOOL. Better to call unnecessarily than to answer from memory.`,
 
-    inputSchema: {
-        type: 'object',
-        properties: {
-            query: {
-                type: 'string',
-                description: 'The customer\'s question or search query in their original language (English/Hindi/Hinglish)'
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'The customer\'s question or search query in their original language (English/Hindi/Hinglish)'
+                },
+                language: {
+                    type: 'string',
+                    enum: ['english', 'hindi', 'hinglish'],
+                    description: 'The language of the query for better context'
+                }
             },
-            language: {
-                type: 'string',
-                enum: ['english', 'hindi', 'hinglish'],
-                description: 'The language of the query for better context'
-            }
+            required: ['query']
         },
-        required: ['query']
-    },
 
-    async execute(params: unknown, context?: ToolExecutionContext): Promise<unknown> {
-        const input = params as RAGToolInput;
+        async execute(params: unknown, context?: ToolExecutionContext): Promise<unknown> {
+            const input = params as RAGToolInput;
         
-        if (!input.query || typeof input.query !== 'string') {
-            return {
-                error: 'Invalid input: query is required and must be a string'
-            };
-        }
-
-        try {
-            console.log(`[RAG Tool] Querying Knowledge Base with: "${input.query}"`);
+            if (!input.query || typeof input.query !== 'string') {
+                return {
+                    error: 'Invalid input: query is required and must be a string'
+                };
+            }
 
-            // Use RetrieveAndGenerate for better accuracy
-            const commandInput: RetrieveAndGenerateCommandInput = {
-                input: {
-                    text: input.query
-                },
-                retrieveAndGenerateConfiguration: {
-                    type: 'KNOWLEDGE_BASE',
-                    knowledgeBaseConfiguration: {
-                        knowledgeBaseId: KB_KNOWLEDGE_BASE_ID,
-                        modelArn: KB_MODEL_ARN,
-                        generationConfiguration: {
-                            promptTemplate: {
-                                textPromptTemplate: KB_SYSTEM_PROMPT
-                            }
-                        },
-                        retrievalConfiguration: {
-                            vectorSearchConfiguration: {
-                                numberOfResults: 5,
-                                overrideSearchType: 'SEMANTIC'
+            // Session settings (from the persona) take precedence over the configured ones
+            const settings = { ...defaults, ...(context?.settings as RAGKnowledgeBaseSettings | undefined) };
+
+            try {
+                log.debug('Querying knowledge base', { knowledgeBaseId: settings.knowledgeBaseId, query: input.query });
+
+                // Use RetrieveAndGenerate for better accuracy
+                const commandInput: RetrieveAndGenerateCommandInput = {
+                    input: {
+                        text: input.query
+                    },
+                    retrieveAndGenerateConfiguration: {
+                        type: 'KNOWLEDGE_BASE',
+                        knowledgeBaseConfiguration: {
+                            knowledgeBaseId: settings.knowledgeBaseId,
+                            modelArn: settings.modelArn,
+                            generationConfiguration: {
+                                promptTemplate: {
+                                    textPromptTemplate: settings.promptTemplate
+                                }
+                            },
+                            retrievalConfiguration: {
+                                vectorSearchConfiguration: {
+                                    numberOfResults: settings.numberOfResults,
+                                    overrideSearchType: 'SEMANTIC'
+                                }
                             }
                         }
                     }
+                };
+
+                const command = new RetrieveAndGenerateCommand(commandInput);
+                const response = await traceBedrockCall({
+                    operation: 'retrieve_and_generate',
+                    modelId: settings.modelArn,
+                    region: settings.region,
+                    attributes: { 'voicebot.knowledge_base_id': settings.knowledgeBaseId }
+                }, () => clientFor(settings.region).send(command, { abortSignal: context?.signal }));
+
+                if (!response.output?.text) {
+                    throw new Error('No response from Knowledge Base');
                 }
-            };
 
-            const command = new RetrieveAndGenerateCommand(commandInput);
-            const response = await bedrockAgentClient.send(command);
+                // The generation prompt holds the template, the query and the retrieved passages
+                const passages = (response.citations ?? [])
+                    .flatMap(citation => citation.retrievedReferences ?? [])
+                    .reduce((chars, reference) => chars + (reference.content?.text?.length ?? 0), 0);
+                context?.reportUsage?.({
+                    modelId: settings.modelArn,
+                    inputTokens: Math.ceil((settings.promptTemplate.length + input.query.length + passages) / CHARS_PER_TOKEN),
+                    outputTokens: Math.ceil(response.output.text.length / CHARS_PER_TOKEN),
+                    estimated: true
+                });
+
+                // Remove quotes from answer
+                let answer = response.output.text.trim().replace(/^["']|["']$/g, '');
+
+                // Check if no information found
+                if (answer === 'NO_INFORMATION_FOUND') {
+                    log.info('Knowledge base returned NO_INFORMATION_FOUND', { knowledgeBaseId: settings.knowledgeBaseId });
+                    return {
+                        answer: null,
+                        noInformation: true,
+                        fallback: 'I don\'t have that specific information in our system right now. Let me check with our technical team and get back to you with the exact details.'
+                    };
+                }
 
-            if (!response.output?.text) {
-                throw new Error('No response from Knowledge Base');
-            }
+                log.debug('Retrieved answer from knowledge base', { knowledgeBaseId: settings.knowledgeBaseId, length: answer.length });
 
-            // Remove quotes from answer
-            let answer = response.output.text.trim().replace(/^["']|["']$/g, '');
+                return {
+                    answer: answer,
+                    fromKnowledgeBase: true
+                };
 
-            // Check if no information found
-            if (answer === 'NO_INFORMATION_FOUND') {
-                console.log('[RAG Tool] KB returned NO_INFORMATION_FOUND');
+            } catch (error) {
+                log.error('Error querying knowledge base', { knowledgeBaseId: settings.knowledgeBaseId, error });
+            
                 return {
-                    answer: null,
-                    noInformation: true,
-                    fallback: 'I don\'t have that specific information in our system right now. Let me check with our technical team and get back to you with the exact details.'
+                    error: 'Unable to query knowledge base at this time',
+                    details: error instanceof Error ? error.message : String(error),
+                    fallback: 'I\'ll check with our technical team and get back to you with the exact details.'
                 };
             }
+        },
 
-            console.log(`[RAG Tool] Retrieved answer from KB (${answer.length} chars)`);
-
-            return {
-                answer: answer,
-                fromKnowledgeBase: true
-            };
-
-        } catch (error) {
-            console.error('[RAG Tool] Error querying knowledge base:', error);
-            
-            return {
-                error: 'Unable to query knowledge base at this time',
-                details: error instanceof Error ? error.message : String(error),
-                fallback: 'I\'ll check with our technical team and get back to you with the exact details.'
-            };
+        // A one-result vector search: checks the knowledge base is reachable without invoking a model
+        async healthCheck(signal: AbortSignal): Promise<void> {
+            await clientFor(defaults.region).send(new RetrieveCommand({
+                knowledgeBaseId: defaults.knowledgeBaseId,
+                retrievalQuery: { text: 'health check' },
+                retrievalConfiguration: { vectorSearchConfiguration: { numberOfResults: 1 } }
+            }), { abortSignal: signal });
         }
-    }
-};
+    };
+}
+
+export const RAGKnowledgeBaseTool: Tool = createRAGKnowledgeBaseTool();
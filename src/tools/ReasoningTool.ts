@@ -5,6 +5,11 @@
 import { Tool, ToolExecutionContext } from './Tool';
 import { BedrockRuntimeClient, ConverseCommand, Message } from '@aws-sdk/client-bedrock-runtime';
 import { ToolModels } from '../consts';
+import { ToolSettings } from './ToolConfig';
+import { traceBedrockCall } from '../telemetry';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools', tool: 'reasoningTool' });
 
 interface ReasoningParams {
     content?: string;
@@ -13,27 +18,23 @@ interface ReasoningParams {
     task?: 'reason' | 'analyze' | 'solve' | 'explain' | 'verify' | 'brainstorm' | 'summarize';
 }
 
-// Lazy-initialized Bedrock client
-let bedrockClient: BedrockRuntimeClient | null = null;
-
-function getBedrockClient(): BedrockRuntimeClient {
-    if (!bedrockClient) {
-        bedrockClient = new BedrockRuntimeClient({
-            region: ToolModels.reasoning.region
-            // credentials omitted - SDK uses default chain (env vars, profile, IAM role, etc.)
-        });
-    }
-    return bedrockClient;
+export interface ReasoningToolSettings extends ToolSettings {
+    modelId?: string;
+    region?: string;
+    maxTokens?: number;
+    extendedThinking?: boolean;
+    maxReasoningEffort?: 'low' | 'medium' | 'high';
+    webGrounding?: boolean;
 }
 
+type ResolvedReasoningSettings = typeof ToolModels.reasoning & { maxTokens: number };
+
 function parseParams(params: unknown): ReasoningParams {
     const content = params as ReasoningParams;
     return content || {};
 }
 
-async function invokeReasoningModel(question: string, context?: string, task?: string, inferenceConfig?: ToolExecutionContext['inferenceConfig']): Promise<object> {
-    const client = getBedrockClient();
-    
+async function invokeReasoningModel(client: BedrockRuntimeClient, config: ResolvedReasoningSettings, question: string, context?: string, task?: string, inferenceConfig?: ToolExecutionContext['inferenceConfig'], signal?: AbortSignal, reportUsage?: ToolExecutionContext['reportUsage']): Promise<object> {
     // Build the prompt based on task type
     let systemPrompt = `You are an advanced reasoning assistant embedded within a voice-based AI system. Your role is to provide deeper analysis, fact-checking, and complex problem-solving support when the primary voice assistant needs backup.
 
@@ -91,7 +92,6 @@ Never make up facts, statistics, dates, names, or any specific data. If you do n
     ];
 
     try {
-        const config = ToolModels.reasoning;
         const isNovaModel = config.modelId.includes('nova');
         
         // Build base command input
@@ -100,7 +100,7 @@ Never make up facts, statistics, dates, names, or any specific data. If you do n
             messages,
             system: [{ text: systemPrompt }],
             inferenceConfig: {
-                maxTokens: 2048,
+                maxTokens: config.maxTokens,
                 temperature,
                 topP
             }
@@ -125,7 +125,11 @@ Never make up facts, statistics, dates, names, or any specific data. If you do n
 
         const command = new ConverseCommand(commandInput as any);
 
-        const response = await client.send(command);
+        const response = await traceBedrockCall({ operation: 'chat', modelId: config.modelId, region: config.region },
+            () => client.send(command, { abortSignal: signal }));
+        if (response.usage) {
+            reportUsage?.({ modelId: config.modelId, inputTokens: response.usage.inputTokens ?? 0, outputTokens: response.usage.outputTokens ?? 0 });
+        }
         
         // Extract text from Converse API response
         const contentList = response.output?.message?.content || [];
@@ -145,60 +149,75 @@ Never make up facts, statistics, dates, names, or any specific data. If you do n
             outputText = 'No response generated';
         }
         
-        console.log(`Reasoning model response (${outputText.length} chars)`);
+        log.debug('Reasoning model response', { length: outputText.length });
 
         return {
             answer: outputText,
             ...(reasoningText && { reasoning: reasoningText })
         };
     } catch (error) {
-        console.error('Error invoking reasoning model:', error);
+        log.error('Error invoking reasoning model', { error });
         throw error;
     }
 }
 
-export const ReasoningTool: Tool = {
-    name: 'reasoningTool',
-    description: `Use this tool for complex reasoning, fact-checking, and deep thinking. It calls a more powerful reasoning model to help with challenging questions, complex math or logic problems, multi-step analysis, pros and cons comparisons, creative brainstorming, or when you want to verify your answer. Better to be accurate than fast.`,
+export function createReasoningTool(overrides: ReasoningToolSettings = {}): Tool {
+    const config: ResolvedReasoningSettings = { ...ToolModels.reasoning, maxTokens: 2048, ...overrides };
+    // Lazy-initialized Bedrock client
+    let bedrockClient: BedrockRuntimeClient | null = null;
+
+    return {
+        name: 'reasoningTool',
+        timeoutMs: overrides.timeoutMs ?? 30000,
+        description: `Use this tool for complex reasoning, fact-checking, and deep thinking. It calls a more powerful reasoning model to help with challenging questions, complex math or logic problems, multi-step analysis, pros and cons comparisons, creative brainstorming, or when you want to verify your answer. Better to be accurate than fast.`,
     
-    inputSchema: {
-        type: 'object',
-        properties: {
-            question: {
-                type: 'string',
-                description: 'The question, problem, or topic to think deeply about'
-            },
-            context: {
-                type: 'string',
-                description: 'Relevant background info, conversation history, or constraints'
+        inputSchema: {
+            type: 'object',
+            properties: {
+                question: {
+                    type: 'string',
+                    description: 'The question, problem, or topic to think deeply about'
+                },
+                context: {
+                    type: 'string',
+                    description: 'Relevant background info, conversation history, or constraints'
+                },
+                task: {
+                    type: 'string',
+                    enum: ['reason', 'analyze', 'solve', 'explain', 'verify', 'brainstorm', 'summarize'],
+                    description: 'Type of thinking needed: reason (step-by-step logic), analyze (multi-perspective), solve (find solutions), explain (teach clearly), verify (fact-check), brainstorm (creative ideas), summarize (distill key points)'
+                }
             },
-            task: {
-                type: 'string',
-                enum: ['reason', 'analyze', 'solve', 'explain', 'verify', 'brainstorm', 'summarize'],
-                description: 'Type of thinking needed: reason (step-by-step logic), analyze (multi-perspective), solve (find solutions), explain (teach clearly), verify (fact-check), brainstorm (creative ideas), summarize (distill key points)'
-            }
+            required: ['question']
         },
-        required: ['question']
-    },
 
-    async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
-        const parsed = parseParams(params);
+        async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
+            const parsed = parseParams(params);
         
-        if (!parsed.question) {
-            return {
-                error: true,
-                message: 'A question is required for the reasoning model to process'
-            };
-        }
+            if (!parsed.question) {
+                return {
+                    error: true,
+                    message: 'A question is required for the reasoning model to process'
+                };
+            }
 
-        try {
-            return await invokeReasoningModel(parsed.question, parsed.context, parsed.task, context?.inferenceConfig);
-        } catch (error) {
-            return {
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error occurred',
-                question: parsed.question
-            };
+            try {
+                if (!bedrockClient) {
+                    bedrockClient = new BedrockRuntimeClient({
+                        region: config.region
+                        // credentials omitted - SDK uses default chain (env vars, profile, IAM role, etc.)
+                    });
+                }
+                return await invokeReasoningModel(bedrockClient, config, parsed.question, parsed.context, parsed.task, context?.inferenceConfig, context?.signal, context?.reportUsage);
+            } catch (error) {
+                return {
+                    error: true,
+                    message: error instanceof Error ? error.message : 'Unknown error occurred',
+                    question: parsed.question
+                };
+            }
         }
-    }
-};
+    };
+}
+
+export const ReasoningTool: Tool = createReasoningTool();
@@ -0,0 +1,148 @@
+/**
+ * Minimal JSON Schema validation for tool parameters
+ *
+ * Covers the subset of JSON Schema used by tool inputSchemas (type, properties,
+ * required, enum, items, numeric and length bounds) and coerces simple types,
+ * since the model often sends numbers as strings and vice versa.
+ */
+
+export interface JsonSchema {
+    type?: string | string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    enum?: unknown[];
+    items?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
+    default?: unknown;
+    description?: string;
+}
+
+export type ValidationResult =
+    | { valid: true; value: unknown }
+    | { valid: false; errors: string[] };
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Try to convert a value to the requested primitive type, returning undefined if it can't be
+ */
+function coerce(value: unknown, type: string): unknown {
+    switch (type) {
+        case 'number':
+        case 'integer': {
+            if (typeof value !== 'string' || !value.trim()) return undefined;
+            const num = Number(value.trim());
+            if (isNaN(num) || (type === 'integer' && !Number.isInteger(num))) return undefined;
+            return num;
+        }
+        case 'boolean':
+            if (value === 'true') return true;
+            if (value === 'false') return false;
+            return undefined;
+        case 'string':
+            return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+        case 'array':
+            return value === undefined || value === null ? undefined : [value];
+        default:
+            return undefined;
+    }
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+    const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+        const coerced = types.map(t => coerce(value, t)).find(v => v !== undefined);
+        if (coerced === undefined) {
+            errors.push(`${path} must be of type ${types.join(' or ')}, got ${typeOf(value)}`);
+            return value;
+        }
+        value = coerced;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        // Enum values are usually lowercase keywords; accept a case-insensitive match
+        const text = typeof value === 'string' ? value.toLowerCase() : undefined;
+        const match = text !== undefined
+            ? schema.enum.find(e => typeof e === 'string' && e.toLowerCase() === text)
+            : undefined;
+        if (match === undefined) {
+            errors.push(`${path} must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`);
+            return value;
+        }
+        value = match;
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path} must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path} must be at most ${schema.maxLength} characters`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path} must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path} must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value = value.map((item, i) => validateValue(schema.items!, item, `${path}[${i}]`, errors));
+        }
+    }
+
+    if (typeOf(value) === 'object' && (schema.properties || schema.required)) {
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = { ...input };
+
+        for (const key of schema.required || []) {
+            if (input[key] === undefined || input[key] === null || input[key] === '') {
+                errors.push(`${path}.${key} is required`);
+            }
+        }
+
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (input[key] === undefined || input[key] === null) continue;
+            output[key] = validateValue(propertySchema, input[key], `${path}.${key}`, errors);
+        }
+        value = output;
+    }
+
+    return value;
+}
+
+/**
+ * Validate (and coerce) params against a tool's inputSchema
+ */
+export function validateParams(schema: JsonSchema, params: unknown): ValidationResult {
+    const errors: string[] = [];
+    const value = validateValue(schema, params ?? {}, 'params', errors);
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, value };
+}
@@ -2,6 +2,9 @@
  * Tool interface and registry for Nova Sonic function calling
  */
 
+import { DefaultToolConfiguration } from '../consts';
+import { JsonSchema, validateParams } from './SchemaValidator';
+
 export interface ToolSpec {
     name: string;
     description: string;
@@ -17,6 +20,21 @@ export interface ToolExecutionContext {
         topP: number;
         temperature: number;
     };
+    /** Aborted when the tool times out or the session closes */
+    signal?: AbortSignal;
+    /** Per-session overrides of the tool's configured settings (e.g. a persona's knowledgeBaseId) */
+    settings?: Record<string, unknown>;
+    /** Report the tokens of a model call the tool made, for usage accounting */
+    reportUsage?(usage: ToolModelUsage): void;
+}
+
+export interface ToolModelUsage {
+    /** Model ID or ARN, matched against the price table */
+    modelId: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Counted from text length because the API doesn't report usage */
+    estimated?: boolean;
 }
 
 export interface Tool {
@@ -26,15 +44,86 @@ export interface Tool {
     description: string;
     /** JSON Schema for input parameters */
     inputSchema: object;
+    /** Execution deadline in milliseconds (defaults to DefaultToolConfiguration.timeoutMs) */
+    timeoutMs?: number;
     /** Execute the tool with parsed parameters and optional context */
     execute(params: unknown, context?: ToolExecutionContext): Promise<unknown>;
+    /**
+     * Optional readiness probe: resolves when the tool's backend is reachable and
+     * rejects with the reason when it isn't. The signal aborts at the probe's deadline.
+     */
+    healthCheck?(signal: AbortSignal): Promise<void>;
+}
+
+export interface ToolRegistrationOptions {
+    /** Overrides the tool's own timeoutMs */
+    timeoutMs?: number;
+}
+
+/**
+ * Thrown when a tool does not finish before its deadline
+ */
+export class ToolTimeoutError extends Error {
+    constructor(public readonly toolName: string, public readonly timeoutMs: number) {
+        super(`Tool "${toolName}" timed out after ${timeoutMs}ms`);
+        this.name = 'ToolTimeoutError';
+    }
+}
+
+/**
+ * Thrown when a tool execution is cancelled by the caller (e.g. session closed)
+ */
+export class ToolAbortedError extends Error {
+    constructor(public readonly toolName: string, reason?: string) {
+        super(`Tool "${toolName}" was cancelled${reason ? `: ${reason}` : ''}`);
+        this.name = 'ToolAbortedError';
+    }
+}
+
+/**
+ * Thrown when the model's arguments don't match the tool's inputSchema
+ */
+export class ToolValidationError extends Error {
+    constructor(public readonly toolName: string, public readonly errors: string[]) {
+        super(`Invalid parameters for tool "${toolName}": ${errors.join('; ')}`);
+        this.name = 'ToolValidationError';
+    }
+}
+
+/**
+ * Whether a tool passes a session's enabledTools allow-list. Entries match
+ * case-insensitively; a trailing * matches by prefix (e.g. "github_*").
+ * A missing list allows every tool; an empty one allows none.
+ */
+export function isToolAllowed(name: string, enabledTools?: string[]): boolean {
+    if (!enabledTools) {
+        return true;
+    }
+    const toolName = name.toLowerCase();
+    return enabledTools.some(pattern => {
+        const entry = pattern.toLowerCase();
+        return entry.endsWith('*') ? toolName.startsWith(entry.slice(0, -1)) : toolName === entry;
+    });
 }
 
 export class ToolRegistry {
     private tools = new Map<string, Tool>();
+    private timeouts = new Map<string, number>();
 
-    register(tool: Tool): void {
-        this.tools.set(tool.name.toLowerCase(), tool);
+    register(tool: Tool, options?: ToolRegistrationOptions): void {
+        const key = tool.name.toLowerCase();
+        this.tools.set(key, tool);
+        if (options?.timeoutMs) {
+            this.timeouts.set(key, options.timeoutMs);
+        } else {
+            this.timeouts.delete(key);
+        }
+    }
+
+    unregister(name: string): boolean {
+        const key = name.toLowerCase();
+        this.timeouts.delete(key);
+        return this.tools.delete(key);
     }
 
     get(name: string): Tool | undefined {
@@ -45,6 +134,10 @@ export class ToolRegistry {
         return this.tools.has(name.toLowerCase());
     }
 
+    getTools(): Tool[] {
+        return Array.from(this.tools.values());
+    }
+
     /**
      * Get all tool specs formatted for Nova Sonic promptStart event
      * Note: Nova Sonic expects inputSchema.json as a stringified JSON string
@@ -62,13 +155,53 @@ export class ToolRegistry {
     }
 
     /**
-     * Execute a tool by name with optional context
+     * Get the effective execution deadline for a tool
+     */
+    getTimeout(name: string): number {
+        const key = name.toLowerCase();
+        return this.timeouts.get(key) ?? this.tools.get(key)?.timeoutMs ?? DefaultToolConfiguration.timeoutMs;
+    }
+
+    /**
+     * Execute a tool by name with optional context.
+     * Params are validated and coerced against the tool's inputSchema first
+     * (ToolValidationError on mismatch). Rejects with ToolTimeoutError past the tool's deadline, or ToolAbortedError
+     * when context.signal is aborted; either way the tool's own signal is aborted.
      */
     async execute(name: string, params: unknown, context?: ToolExecutionContext): Promise<unknown> {
         const tool = this.get(name);
         if (!tool) {
             throw new Error(`Tool "${name}" not found in registry`);
         }
-        return tool.execute(params, context);
+
+        const validation = validateParams(tool.inputSchema as JsonSchema, params);
+        if (!validation.valid) {
+            throw new ToolValidationError(tool.name, validation.errors);
+        }
+
+        const parentSignal = context?.signal;
+        if (parentSignal?.aborted) {
+            throw new ToolAbortedError(tool.name, String(parentSignal.reason ?? ''));
+        }
+
+        const timeoutMs = this.getTimeout(tool.name);
+        const controller = new AbortController();
+        const onParentAbort = () => controller.abort(new ToolAbortedError(tool.name, String(parentSignal?.reason ?? '')));
+        parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+        const timer = setTimeout(() => controller.abort(new ToolTimeoutError(tool.name, timeoutMs)), timeoutMs);
+
+        const cancelled = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+
+        try {
+            return await Promise.race([
+                tool.execute(validation.value, { ...context, signal: controller.signal }),
+                cancelled
+            ]);
+        } finally {
+            clearTimeout(timer);
+            parentSignal?.removeEventListener('abort', onParentAbort);
+        }
     }
 }
@@ -0,0 +1,141 @@
+/**
+ * Tool configuration - which tools are enabled and their per-tool settings
+ *
+ * Loaded from config/tools.json (or TOOLS_CONFIG_PATH), then overridden by
+ * environment variables so deployments can tweak settings without editing the file.
+ */
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools' });
+
+export interface ToolSettings {
+    /** Whether the tool is registered at startup (falls back to the tool's default) */
+    enabled?: boolean;
+    /** Execution deadline in milliseconds */
+    timeoutMs?: number;
+    /** Tool-specific settings (region, modelId, knowledgeBaseId, limits, ...) */
+    [key: string]: unknown;
+}
+
+export interface McpServerConfig {
+    /** Executable that starts the server (spoken to over stdio) */
+    command: string;
+    args?: string[];
+    /** Extra environment variables; values may use ${env:NAME} */
+    env?: Record<string, string>;
+    /** Working directory, relative to the config file */
+    cwd?: string;
+    /** Set to false to skip the server without removing it */
+    enabled?: boolean;
+    /** Prefix for the server's tool names (defaults to "<server>_") */
+    toolPrefix?: string;
+    /** Execution deadline for the server's tools in milliseconds */
+    timeoutMs?: number;
+}
+
+export interface ToolsConfig {
+    /** Directory of third-party tool modules, relative to the config file */
+    pluginsDir?: string;
+    /** Directory of declarative HTTP tool definitions (JSON/YAML), relative to the config file */
+    httpToolsDir?: string;
+    tools: Record<string, ToolSettings>;
+    /** MCP servers whose tools are exposed to the model, keyed by server name */
+    mcpServers?: Record<string, McpServerConfig>;
+    /** When set (from TOOLS_ENABLED), exactly these tools are enabled */
+    enabledOverride?: string[];
+}
+
+export const DEFAULT_TOOLS_CONFIG_PATH = path.join(process.cwd(), 'config', 'tools.json');
+
+// Environment variables mapped onto tool settings: [env var, tool name, setting, parser]
+const ENV_OVERRIDES: Array<[string, string, string, (value: string) => unknown]> = [
+    ['KB_REGION', 'search_knowledge_base', 'region', String],
+    ['KB_KNOWLEDGE_BASE_ID', 'search_knowledge_base', 'knowledgeBaseId', String],
+    ['KB_MODEL_ARN', 'search_knowledge_base', 'modelArn', String],
+    ['KB_NUMBER_OF_RESULTS', 'search_knowledge_base', 'numberOfResults', Number],
+    ['REASONING_MODEL_ID', 'reasoningTool', 'modelId', String],
+    ['REASONING_REGION', 'reasoningTool', 'region', String],
+    ['TRANSCRIPT_CORRECTION_MODEL_ID', 'transcriptCorrectionTool', 'modelId', String],
+    ['TRANSCRIPT_CORRECTION_REGION', 'transcriptCorrectionTool', 'region', String],
+];
+
+function resolveMcpServers(servers: Record<string, McpServerConfig> | undefined, baseDir: string): Record<string, McpServerConfig> | undefined {
+    if (!servers) return undefined;
+    return Object.fromEntries(Object.entries(servers).map(([name, server]) => [
+        name,
+        { ...server, cwd: server.cwd ? path.resolve(baseDir, server.cwd) : undefined }
+    ]));
+}
+
+/**
+ * Load the tool configuration file and apply environment overrides.
+ * A missing file yields an empty config so built-in defaults apply.
+ *
+ * Env:
+ * - TOOLS_CONFIG_PATH: path to the JSON config file
+ * - TOOLS_ENABLED: comma-separated tool names; replaces the file's enabled flags
+ * - TOOLS_PLUGINS_DIR: plugins directory (overrides pluginsDir)
+ * - HTTP_TOOLS_DIR: HTTP tool definitions directory (overrides httpToolsDir)
+ */
+export function loadToolsConfig(configPath: string = process.env.TOOLS_CONFIG_PATH || DEFAULT_TOOLS_CONFIG_PATH): ToolsConfig {
+    let config: ToolsConfig = { tools: {} };
+
+    if (fs.existsSync(configPath)) {
+        try {
+            const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+            config = {
+                pluginsDir: parsed.pluginsDir ? path.resolve(path.dirname(configPath), parsed.pluginsDir) : undefined,
+                httpToolsDir: parsed.httpToolsDir ? path.resolve(path.dirname(configPath), parsed.httpToolsDir) : undefined,
+                tools: parsed.tools || {},
+                mcpServers: resolveMcpServers(parsed.mcpServers, path.dirname(configPath))
+            };
+            log.info(`Loaded tool config from ${configPath}`);
+        } catch (error) {
+            throw new Error(`Invalid tool config ${configPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    } else {
+        log.info(`No tool config at ${configPath}, using defaults`);
+    }
+
+    for (const [envVar, toolName, setting, parse] of ENV_OVERRIDES) {
+        const value = process.env[envVar];
+        if (value !== undefined && value !== '') {
+            config.tools[toolName] = { ...config.tools[toolName], [setting]: parse(value) };
+        }
+    }
+
+    if (process.env.TOOLS_ENABLED !== undefined) {
+        config.enabledOverride = process.env.TOOLS_ENABLED.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    }
+
+    if (process.env.TOOLS_PLUGINS_DIR) {
+        config.pluginsDir = path.resolve(process.env.TOOLS_PLUGINS_DIR);
+    }
+
+    if (process.env.HTTP_TOOLS_DIR) {
+        config.httpToolsDir = path.resolve(process.env.HTTP_TOOLS_DIR);
+    }
+
+    return config;
+}
+
+/**
+ * Settings for a tool, matched case-insensitively like ToolRegistry
+ */
+export function getToolSettings(config: ToolsConfig, name: string): ToolSettings | undefined {
+    const key = Object.keys(config.tools).find(k => k.toLowerCase() === name.toLowerCase());
+    return key ? config.tools[key] : undefined;
+}
+
+/**
+ * Whether a tool should be registered: TOOLS_ENABLED wins, then the tool's
+ * enabled flag, then its default
+ */
+export function isToolEnabled(config: ToolsConfig, name: string, enabledByDefault: boolean): boolean {
+    if (config.enabledOverride) {
+        return config.enabledOverride.includes(name.toLowerCase());
+    }
+    return getToolSettings(config, name)?.enabled ?? enabledByDefault;
+}
@@ -4,6 +4,11 @@
 import { Tool, ToolExecutionContext } from './Tool';
 import { BedrockRuntimeClient, ConverseCommand, Message } from '@aws-sdk/client-bedrock-runtime';
 import { ToolModels } from '../consts';
+import { ToolSettings } from './ToolConfig';
+import { traceBedrockCall } from '../telemetry';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools', tool: 'transcriptCorrectionTool' });
 
 interface ConversationMessage {
     role: 'user' | 'assistant';
@@ -16,19 +21,17 @@ interface TranscriptCorrectionParams {
     conversations?: ConversationMessage[];
 }
 
-// Lazy-initialized Bedrock client
-let bedrockClient: BedrockRuntimeClient | null = null;
-
-function getBedrockClient(): BedrockRuntimeClient {
-    if (!bedrockClient) {
-        bedrockClient = new BedrockRuntimeClient({
-            region: ToolModels.transcriptCorrection.region
-            // credentials omitted - SDK uses default chain (env vars, profile, IAM role, etc.)
-        });
-    }
-    return bedrockClient;
+export interface TranscriptCorrectionToolSettings extends ToolSettings {
+    modelId?: string;
+    region?: string;
+    maxTokens?: number;
+    extendedThinking?: boolean;
+    maxReasoningEffort?: 'low' | 'medium' | 'high';
+    webGrounding?: boolean;
 }
 
+type ResolvedCorrectionSettings = typeof ToolModels.transcriptCorrection & { maxTokens: number };
+
 function parseParams(params: unknown): TranscriptCorrectionParams {
     if (!params || typeof params !== 'object') {
         return { unclearTerm: '' };
@@ -50,12 +53,14 @@ function formatConversationContext(conversations?: ConversationMessage[]): strin
 }
 
 async function invokeCorrectionModel(
+    client: BedrockRuntimeClient,
+    config: ResolvedCorrectionSettings,
     unclearTerm: string, 
     conversations?: ConversationMessage[],
-    inferenceConfig?: ToolExecutionContext['inferenceConfig']
+    inferenceConfig?: ToolExecutionContext['inferenceConfig'],
+    signal?: AbortSignal,
+    reportUsage?: ToolExecutionContext['reportUsage']
 ): Promise<object> {
-    const client = getBedrockClient();
-    
     const conversationContext = formatConversationContext(conversations);
     
     const systemPrompt = `You are a speech-to-text correction assistant specialized in identifying misheard terms from audio transcripts.`;
@@ -85,7 +90,6 @@ List a bullet point of at most 5 most-likely possible words without any other te
     ];
 
     try {
-        const config = ToolModels.transcriptCorrection;
         const isNovaModel = config.modelId.includes('nova');
         
         // Build base command input
@@ -94,7 +98,7 @@ List a bullet point of at most 5 most-likely possible words without any other te
             messages,
             system: [{ text: systemPrompt }],
             inferenceConfig: {
-                maxTokens: 1024,
+                maxTokens: config.maxTokens,
                 temperature,
                 topP
             }
@@ -119,12 +123,16 @@ List a bullet point of at most 5 most-likely possible words without any other te
         
         const command = new ConverseCommand(commandInput as any);
 
-        const response = await client.send(command);
+        const response = await traceBedrockCall({ operation: 'chat', modelId: config.modelId, region: config.region },
+            () => client.send(command, { abortSignal: signal }));
+        if (response.usage) {
+            reportUsage?.({ modelId: config.modelId, inputTokens: response.usage.inputTokens ?? 0, outputTokens: response.usage.outputTokens ?? 0 });
+        }
         
         // Extract text from Converse API response
         const outputText = response.output?.message?.content?.[0]?.text || '{}';
         
-        console.log(`Transcript correction response for "${unclearTerm}"`);
+        log.debug('Transcript correction response', { unclearTerm });
 
         // Return the raw suggestions list
         return {
@@ -132,67 +140,86 @@ List a bullet point of at most 5 most-likely possible words without any other te
             suggestions: outputText
         };
     } catch (error) {
-        console.error('Error invoking transcript correction model:', error);
+        log.error('Error invoking transcript correction model', { error });
         throw error;
     }
 }
 
-export const TranscriptCorrectionTool: Tool = {
-    name: 'transcriptCorrectionTool',
-    description: `Fixes speech recognition errors by analyzing phonetic similarities. Use this tool when a user corrects you, repeats themselves, or when a name, place, or term does not match any known entity. Also use it when the user sounds frustrated, when proper nouns seem misspelled, or when the conversation context suggests a different word than what was transcribed. Input the unclear term and recent conversation for context. The tool returns likely corrections based on similar pronunciations.`,
+export function createTranscriptCorrectionTool(overrides: TranscriptCorrectionToolSettings = {}): Tool {
+    const config: ResolvedCorrectionSettings = { ...ToolModels.transcriptCorrection, maxTokens: 1024, ...overrides };
+    // Lazy-initialized Bedrock client
+    let bedrockClient: BedrockRuntimeClient | null = null;
+
+    return {
+        name: 'transcriptCorrectionTool',
+        timeoutMs: overrides.timeoutMs,
+        description: `Fixes speech recognition errors by analyzing phonetic similarities. Use this tool when a user corrects you, repeats themselves, or when a name, place, or term does not match any known entity. Also use it when the user sounds frustrated, when proper nouns seem misspelled, or when the conversation context suggests a different word than what was transcribed. Input the unclear term and recent conversation for context. The tool returns likely corrections based on similar pronunciations.`,
     
-    inputSchema: {
-        type: 'object',
-        properties: {
-            unclearTerm: {
-                type: 'string',
-                description: 'The unclear or potentially misheard term that needs correction'
-            },
-            conversations: {
-                type: 'array',
-                description: 'Recent conversation messages (last 3) for context',
-                items: {
-                    type: 'object',
-                    properties: {
-                        role: {
-                            type: 'string',
-                            enum: ['user', 'assistant'],
-                            description: 'Who said this message'
+        inputSchema: {
+            type: 'object',
+            properties: {
+                unclearTerm: {
+                    type: 'string',
+                    description: 'The unclear or potentially misheard term that needs correction'
+                },
+                conversations: {
+                    type: 'array',
+                    description: 'Recent conversation messages (last 3) for context',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            role: {
+                                type: 'string',
+                                enum: ['user', 'assistant'],
+                                description: 'Who said this message'
+                            },
+                            content: {
+                                type: 'string',
+                                description: 'The message content'
+                            }
                         },
-                        content: {
-                            type: 'string',
-                            description: 'The message content'
-                        }
-                    },
-                    required: ['role', 'content']
+                        required: ['role', 'content']
+                    }
                 }
-            }
+            },
+            required: ['unclearTerm']
         },
-        required: ['unclearTerm']
-    },
 
-    async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
-        const parsed = parseParams(params);
+        async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
+            const parsed = parseParams(params);
         
-        if (!parsed.unclearTerm) {
-            return {
-                error: true,
-                message: 'An unclear term is required for correction'
-            };
-        }
+            if (!parsed.unclearTerm) {
+                return {
+                    error: true,
+                    message: 'An unclear term is required for correction'
+                };
+            }
 
-        try {
-            return await invokeCorrectionModel(
-                parsed.unclearTerm, 
-                parsed.conversations,
-                context?.inferenceConfig
-            );
-        } catch (error) {
-            return {
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error occurred',
-                unclearTerm: parsed.unclearTerm
-            };
+            try {
+                if (!bedrockClient) {
+                    bedrockClient = new BedrockRuntimeClient({
+                        region: config.region
+                        // credentials omitted - SDK uses default chain (env vars, profile, IAM role, etc.)
+                    });
+                }
+                return await invokeCorrectionModel(
+                    bedrockClient,
+                    config,
+                    parsed.unclearTerm, 
+                    parsed.conversations,
+                    context?.inferenceConfig,
+                    context?.signal,
+                    context?.reportUsage
+                );
+            } catch (error) {
+                return {
+                    error: true,
+                    message: error instanceof Error ? error.message : 'Unknown error occurred',
+                    unclearTerm: parsed.unclearTerm
+                };
+            }
         }
-    }
-};
+    };
+}
+
+export const TranscriptCorrectionTool: Tool = createTranscriptCorrectionTool();
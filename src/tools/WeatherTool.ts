@@ -1,7 +1,10 @@
 /**
  * WeatherTool - Fetches weather data from Open-Meteo API
  */
-import { Tool } from './Tool';
+import { Tool, ToolExecutionContext } from './Tool';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools', tool: 'getWeatherTool' });
 
 type WeatherMode = 'current' | 'forecast';
 
@@ -62,14 +65,15 @@ function parseParams(params: unknown): WeatherParams | null {
     return null;
 }
 
-async function fetchCurrentWeather(latitude: number, longitude: number): Promise<object> {
+async function fetchCurrentWeather(latitude: number, longitude: number, signal?: AbortSignal): Promise<object> {
     const url = `https://api.open-meteo.com/v1/forecast?` +
         `latitude=${latitude}&longitude=${longitude}` +
         `&current=temperature_2m,relative_humidity_2m,cloud_cover,weather_code` +
         `&timezone=auto`;
 
     const response = await fetch(url, {
-        headers: { 'User-Agent': 'NovaSonicVoicebot/1.0', 'Accept': 'application/json' }
+        headers: { 'User-Agent': 'NovaSonicVoicebot/1.0', 'Accept': 'application/json' },
+        signal
     });
 
     if (!response.ok) throw new Error(`Weather API returned ${response.status}`);
@@ -89,14 +93,15 @@ async function fetchCurrentWeather(latitude: number, longitude: number): Promise
     };
 }
 
-async function fetchForecast(latitude: number, longitude: number): Promise<object> {
+async function fetchForecast(latitude: number, longitude: number, signal?: AbortSignal): Promise<object> {
     const url = `https://api.open-meteo.com/v1/forecast?` +
         `latitude=${latitude}&longitude=${longitude}` +
         `&daily=weather_code,temperature_2m_max,temperature_2m_min,relative_humidity_2m_max,relative_humidity_2m_min` +
         `&forecast_days=7&timezone=auto`;
 
     const response = await fetch(url, {
-        headers: { 'User-Agent': 'NovaSonicVoicebot/1.0', 'Accept': 'application/json' }
+        headers: { 'User-Agent': 'NovaSonicVoicebot/1.0', 'Accept': 'application/json' },
+        signal
     });
 
     if (!response.ok) throw new Error(`Weather API returned ${response.status}`);
@@ -125,11 +130,15 @@ export const WeatherTool: Tool = {
         type: 'object',
         properties: {
             latitude: {
-                type: 'string',
+                type: 'number',
+                minimum: -90,
+                maximum: 90,
                 description: 'Geographical WGS84 latitude of the location.'
             },
             longitude: {
-                type: 'string',
+                type: 'number',
+                minimum: -180,
+                maximum: 180,
                 description: 'Geographical WGS84 longitude of the location.'
             },
             mode: {
@@ -141,7 +150,7 @@ export const WeatherTool: Tool = {
         required: ['latitude', 'longitude']
     },
 
-    async execute(params: unknown): Promise<object> {
+    async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
         const parsed = parseParams(params);
         
         if (!parsed) {
@@ -156,10 +165,10 @@ export const WeatherTool: Tool = {
             throw new Error('Invalid coordinates: latitude and longitude must be numbers');
         }
 
-        console.log(`Fetching ${mode} weather for coordinates: ${lat}, ${lon}`);
+        log.debug(`Fetching ${mode} weather`, { lat, lon });
         
         return mode === 'forecast' 
-            ? fetchForecast(lat, lon) 
-            : fetchCurrentWeather(lat, lon);
+            ? fetchForecast(lat, lon, context?.signal) 
+            : fetchCurrentWeather(lat, lon, context?.signal);
     }
 };
@@ -2,11 +2,22 @@
  * WikipediaTool - Search and retrieve content from Wikipedia
  * Uses Wikipedia's action=query API which handles multilingual queries
  */
-import { Tool } from './Tool';
+import { Tool, ToolExecutionContext } from './Tool';
 import { DefaultToolConfiguration } from '../consts';
+import { ToolSettings } from './ToolConfig';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools', tool: 'searchWikipedia' });
 
 const MAX_CONTENT_LENGTH = DefaultToolConfiguration.maxResultLength - 1000;
 
+export interface WikipediaToolSettings extends ToolSettings {
+    /** Article text is truncated to this many characters in content mode */
+    maxContentLength?: number;
+    /** Upper bound for the search limit the model may request */
+    maxResults?: number;
+}
+
 interface WikipediaParams {
     query: string;
     mode?: 'search' | 'summary' | 'content';
@@ -49,14 +60,15 @@ function parseParams(params: unknown): WikipediaParams | null {
 /**
  * Search Wikipedia using action=query&list=search API
  */
-async function searchWikipedia(query: string, limit: number): Promise<SearchResult[]> {
+async function searchWikipedia(query: string, limit: number, signal?: AbortSignal): Promise<SearchResult[]> {
     const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&prop=info&origin=*&srlimit=${limit}&utf8=&format=json&srsearch=${encodeURIComponent(query)}`;
 
     const response = await fetch(url, {
         headers: { 
             'User-Agent': 'NovaSonicVoicebot/1.0',
             'Accept': 'application/json'
-        }
+        },
+        signal
     });
 
     if (!response.ok) {
@@ -76,8 +88,8 @@ async function searchWikipedia(query: string, limit: number): Promise<SearchResu
 /**
  * Get Wikipedia article summary
  */
-async function getWikipediaSummary(query: string): Promise<object> {
-    const searchResults = await searchWikipedia(query, 1);
+async function getWikipediaSummary(query: string, signal?: AbortSignal): Promise<object> {
+    const searchResults = await searchWikipedia(query, 1, signal);
     
     if (searchResults.length === 0) {
         throw new Error(`No Wikipedia articles found for "${query}"`);
@@ -91,7 +103,8 @@ async function getWikipediaSummary(query: string): Promise<object> {
         headers: { 
             'User-Agent': 'NovaSonicVoicebot/1.0',
             'Accept': 'application/json'
-        }
+        },
+        signal
     });
 
     if (!response.ok) {
@@ -113,8 +126,8 @@ async function getWikipediaSummary(query: string): Promise<object> {
 /**
  * Get full Wikipedia article content (plain text)
  */
-async function getWikipediaContent(query: string): Promise<object> {
-    const searchResults = await searchWikipedia(query, 1);
+async function getWikipediaContent(query: string, maxContentLength: number, signal?: AbortSignal): Promise<object> {
+    const searchResults = await searchWikipedia(query, 1, signal);
     
     if (searchResults.length === 0) {
         throw new Error(`No Wikipedia articles found for "${query}"`);
@@ -127,7 +140,8 @@ async function getWikipediaContent(query: string): Promise<object> {
         headers: { 
             'User-Agent': 'NovaSonicVoicebot/1.0',
             'Accept': 'application/json'
-        }
+        },
+        signal
     });
 
     if (!response.ok) {
@@ -147,8 +161,8 @@ async function getWikipediaContent(query: string): Promise<object> {
     }
 
     // Truncate if too long
-    const content = page.extract.length > MAX_CONTENT_LENGTH
-        ? page.extract.substring(0, MAX_CONTENT_LENGTH) + '...' 
+    const content = page.extract.length > maxContentLength
+        ? page.extract.substring(0, maxContentLength) + '...' 
         : page.extract;
 
     return {
@@ -158,54 +172,62 @@ async function getWikipediaContent(query: string): Promise<object> {
     };
 }
 
-export const WikipediaTool: Tool = {
-    name: 'searchWikipedia',
-    description: `Look up factual information on Wikipedia. Use this tool for questions about people, places, events, science, technology, companies, movies, music, books, or any topic requiring accurate details. Your training data may be outdated, so verify facts here first. Use search mode to find relevant articles, summary mode for quick facts, or content mode for detailed information. For non-English names or terms, preserve the original characters without encode.`,
-    inputSchema: {
-        type: 'object',
-        properties: {
-            query: {
-                type: 'string',
-                description: 'Search query. MUST preserve original script for non-English terms (Chinese, Japanese, Korean, etc.). Do NOT romanize.'
-            },
-            mode: {
-                type: 'string',
-                enum: ['search', 'summary', 'content'],
-                description: '"search": list matching articles; "summary": brief 2-3 sentence overview; "content": full detailed article text.'
+export function createWikipediaTool(settings: WikipediaToolSettings = {}): Tool {
+    const maxContentLength = Math.min(settings.maxContentLength ?? MAX_CONTENT_LENGTH, MAX_CONTENT_LENGTH);
+    const maxResults = settings.maxResults ?? 10;
+
+    return {
+        name: 'searchWikipedia',
+        timeoutMs: settings.timeoutMs,
+        description: `Look up factual information on Wikipedia. Use this tool for questions about people, places, events, science, technology, companies, movies, music, books, or any topic requiring accurate details. Your training data may be outdated, so verify facts here first. Use search mode to find relevant articles, summary mode for quick facts, or content mode for detailed information. For non-English names or terms, preserve the original characters without encode.`,
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: {
+                    type: 'string',
+                    description: 'Search query. MUST preserve original script for non-English terms (Chinese, Japanese, Korean, etc.). Do NOT romanize.'
+                },
+                mode: {
+                    type: 'string',
+                    enum: ['search', 'summary', 'content'],
+                    description: '"search": list matching articles; "summary": brief 2-3 sentence overview; "content": full detailed article text.'
+                },
+                limit: {
+                    type: 'number',
+                    description: 'Max search results (1-10, default 5). Only for search mode.'
+                }
             },
-            limit: {
-                type: 'number',
-                description: 'Max search results (1-10, default 5). Only for search mode.'
-            }
+            required: ['query']
         },
-        required: ['query']
-    },
 
-    async execute(params: unknown): Promise<object> {
-        const parsed = parseParams(params);
+        async execute(params: unknown, context?: ToolExecutionContext): Promise<object> {
+            const parsed = parseParams(params);
         
-        if (!parsed || !parsed.query) {
-            throw new Error('Invalid Wikipedia tool parameters: query is required');
-        }
+            if (!parsed || !parsed.query) {
+                throw new Error('Invalid Wikipedia tool parameters: query is required');
+            }
 
-        const { query, mode = 'search', limit = 5 } = parsed;
-        const clampedLimit = Math.min(Math.max(1, limit), 10);
+            const { query, mode = 'search', limit = 5 } = parsed;
+            const clampedLimit = Math.min(Math.max(1, limit), maxResults);
 
-        console.log(`Wikipedia ${mode}: "${query}"${mode === 'search' ? ` (limit: ${clampedLimit})` : ''}`);
+            log.debug(`Wikipedia ${mode}`, { query, limit: mode === 'search' ? clampedLimit : undefined });
 
-        if (mode === 'summary') {
-            return await getWikipediaSummary(query);
-        }
+            if (mode === 'summary') {
+                return await getWikipediaSummary(query, context?.signal);
+            }
+
+            if (mode === 'content') {
+                return await getWikipediaContent(query, maxContentLength, context?.signal);
+            }
 
-        if (mode === 'content') {
-            return await getWikipediaContent(query);
+            const results = await searchWikipedia(query, clampedLimit, context?.signal);
+            return {
+                query,
+                count: results.length,
+                results
+            };
         }
+    };
+}
 
-        const results = await searchWikipedia(query, clampedLimit);
-        return {
-            query,
-            count: results.length,
-            results
-        };
-    }
-};
+export const WikipediaTool: Tool = createWikipediaTool();
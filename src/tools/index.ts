@@ -1,18 +1,82 @@
 /**
  * Tool exports and default registry setup
  */
-export type { Tool, ToolSpec } from './Tool';
-export { ToolRegistry } from './Tool';
-export { RAGKnowledgeBaseTool } from './RAGKnowledgeBaseTool';
+export type { Tool, ToolSpec, ToolExecutionContext, ToolModelUsage, ToolRegistrationOptions } from './Tool';
+export { ToolRegistry, ToolTimeoutError, ToolAbortedError, ToolValidationError, isToolAllowed } from './Tool';
+export { validateParams } from './SchemaValidator';
+export type { JsonSchema, ValidationResult } from './SchemaValidator';
+export type { ToolSettings, ToolsConfig, McpServerConfig } from './ToolConfig';
+export { loadToolsConfig, getToolSettings, isToolEnabled } from './ToolConfig';
+export { loadToolPlugins } from './PluginLoader';
+export type { HttpToolDefinition } from './HttpTool';
+export { createHttpTool, loadHttpTools } from './HttpTool';
+export { McpToolProvider } from './McpToolProvider';
+export type { McpServerStatus } from './McpToolProvider';
+export { RAGKnowledgeBaseTool, createRAGKnowledgeBaseTool } from './RAGKnowledgeBaseTool';
+export { ReasoningTool, createReasoningTool } from './ReasoningTool';
+export { TranscriptCorrectionTool, createTranscriptCorrectionTool } from './TranscriptCorrectionTool';
+export { WikipediaTool, createWikipediaTool } from './WikipediaTool';
+export { WeatherTool } from './WeatherTool';
+export { LocationSearchTool } from './LocationSearchTool';
+export { DateTimeTool } from './DateTimeTool';
 
-import { ToolRegistry } from './Tool';
-import { RAGKnowledgeBaseTool } from './RAGKnowledgeBaseTool';
+import { Tool, ToolRegistry } from './Tool';
+import { ToolSettings, ToolsConfig, loadToolsConfig, getToolSettings, isToolEnabled } from './ToolConfig';
+import { loadToolPlugins } from './PluginLoader';
+import { loadHttpTools } from './HttpTool';
+import { createRAGKnowledgeBaseTool } from './RAGKnowledgeBaseTool';
+import { createReasoningTool } from './ReasoningTool';
+import { createTranscriptCorrectionTool } from './TranscriptCorrectionTool';
+import { createWikipediaTool } from './WikipediaTool';
+import { WeatherTool } from './WeatherTool';
+import { LocationSearchTool } from './LocationSearchTool';
+import { DateTimeTool } from './DateTimeTool';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Tools' });
+
+interface BuiltinTool {
+    name: string;
+    /** Registered when the config doesn't say otherwise */
+    enabledByDefault: boolean;
+    create: (settings: ToolSettings) => Tool;
+}
+
+const BUILTIN_TOOLS: BuiltinTool[] = [
+    { name: 'search_knowledge_base', enabledByDefault: true, create: createRAGKnowledgeBaseTool },
+    { name: 'reasoningTool', enabledByDefault: false, create: createReasoningTool },
+    { name: 'transcriptCorrectionTool', enabledByDefault: false, create: createTranscriptCorrectionTool },
+    { name: 'searchWikipedia', enabledByDefault: false, create: createWikipediaTool },
+    { name: 'getWeatherTool', enabledByDefault: false, create: () => WeatherTool },
+    { name: 'searchLocationTool', enabledByDefault: false, create: () => LocationSearchTool },
+    { name: 'getDateAndTimeTool', enabledByDefault: false, create: () => DateTimeTool },
+];
 
 /**
- * Creates a ToolRegistry with RAG tool only
+ * Creates a ToolRegistry from the tool configuration: enabled built-in tools
+ * with their settings, declarative HTTP tools, and tools from the plugins directory
  */
-export function createDefaultToolRegistry(): ToolRegistry {
+export function createDefaultToolRegistry(config: ToolsConfig = loadToolsConfig()): ToolRegistry {
     const registry = new ToolRegistry();
-    registry.register(RAGKnowledgeBaseTool);
+
+    for (const builtin of BUILTIN_TOOLS) {
+        if (!isToolEnabled(config, builtin.name, builtin.enabledByDefault)) continue;
+        const settings = getToolSettings(config, builtin.name) || {};
+        registry.register(builtin.create(settings), { timeoutMs: settings.timeoutMs });
+    }
+
+    const extraTools = [
+        ...(config.httpToolsDir ? loadHttpTools(config.httpToolsDir) : []),
+        ...(config.pluginsDir ? loadToolPlugins(config.pluginsDir, config) : [])
+    ];
+    for (const tool of extraTools) {
+        if (!isToolEnabled(config, tool.name, true)) continue;
+        if (registry.has(tool.name)) {
+            log.warn(`${tool.name} replaces an already registered tool`);
+        }
+        registry.register(tool, { timeoutMs: getToolSettings(config, tool.name)?.timeoutMs });
+    }
+
+    log.info(`Registered tools: ${registry.getToolSpecs().map(t => t.toolSpec.name).join(', ') || '(none)'}`);
     return registry;
 }
@@ -0,0 +1,224 @@
+/**
+ * TranscriptRecorder - Turns session events into transcript entries
+ *
+ * Attached to a client with addSessionEventListener, so every transport's sessions
+ * (browser, Exotel, Twilio) are recorded the same way. Text is collected per content
+ * block and written when the block ends; speculative assistant text is skipped since
+ * the final text of the same turn follows.
+ */
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { TranscriptStore } from './TranscriptStore';
+import { TranscriptEntry, UsageEntry } from './types';
+
+// An entry before the recorder stamps its times
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type EntryInput = DistributiveOmit<TranscriptEntry, 'timestamp' | 'offsetMs'>;
+
+interface OpenContent {
+    type: string;
+    role: string;
+    generationStage?: string;
+    startMs: number;
+    text: string[];
+}
+
+interface ActiveTranscript {
+    id: string;
+    startedAt: number;
+    contents: Map<string, OpenContent>;
+    /** Span of the latest assistant audio block, used to time the final assistant text */
+    assistantAudio?: { startMs: number; endMs?: number };
+    lastUsage?: Omit<UsageEntry, 'type' | 'timestamp' | 'offsetMs'>;
+    usageDirty: boolean;
+}
+
+function isInterruptMarker(text: string): boolean {
+    return text.includes('{ "interrupted" : true }') || text.includes('{"interrupted":true}');
+}
+
+function parseGenerationStage(additionalModelFields?: string): string | undefined {
+    if (!additionalModelFields) return undefined;
+    try {
+        return JSON.parse(additionalModelFields).generationStage;
+    } catch {
+        return undefined;
+    }
+}
+
+export class TranscriptRecorder {
+    private active = new Map<string, ActiveTranscript>();
+
+    constructor(private store: TranscriptStore) { }
+
+    /**
+     * Record every session of a client. Returns a function that detaches the recorder.
+     */
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => this.handleEvent(sessionId, eventType, data));
+    }
+
+    /** Transcript ID of a session that is still running */
+    getTranscriptId(sessionId: string): string | undefined {
+        return this.active.get(sessionId)?.id;
+    }
+
+    private handleEvent(sessionId: string, eventType: string, data: any): void {
+        if (eventType === 'sessionStart') {
+            this.start(sessionId, data);
+            return;
+        }
+
+        const transcript = this.active.get(sessionId);
+        if (!transcript) return;
+        const now = Date.now() - transcript.startedAt;
+
+        switch (eventType) {
+            case 'contentStart':
+                if (data.type === 'TEXT') {
+                    transcript.contents.set(data.contentId, {
+                        type: data.type,
+                        role: data.role,
+                        generationStage: parseGenerationStage(data.additionalModelFields),
+                        startMs: now,
+                        text: []
+                    });
+                } else if (data.type === 'AUDIO' && data.role === 'ASSISTANT') {
+                    transcript.assistantAudio = { startMs: now };
+                }
+                break;
+
+            case 'textOutput': {
+                const content = transcript.contents.get(data.contentId);
+                if (content && typeof data.content === 'string' && !isInterruptMarker(data.content)) {
+                    content.text.push(data.content);
+                }
+                break;
+            }
+
+            case 'contentEnd':
+                if (data.type === 'AUDIO' && transcript.assistantAudio) {
+                    transcript.assistantAudio.endMs = now;
+                } else if (data.type === 'TEXT') {
+                    this.endTextContent(transcript, data.contentId, data.stopReason, now);
+                }
+                break;
+
+            case 'bargeIn':
+                this.write(transcript, { type: 'bargeIn' });
+                break;
+
+            case 'toolUse': {
+                let input: unknown = data.content;
+                try {
+                    input = typeof data.content === 'string' ? JSON.parse(data.content) : data.content;
+                } catch {
+                    // Keep the raw string
+                }
+                this.write(transcript, { type: 'toolUse', toolUseId: data.toolUseId, toolName: data.toolName, input });
+                break;
+            }
+
+            case 'toolResult':
+                this.write(transcript, {
+                    type: 'toolResult',
+                    toolUseId: data.toolUseId,
+                    toolName: data.toolName,
+                    result: data.result,
+                    executionTimeMs: data.executionTimeMs,
+                    error: data.error
+                });
+                break;
+
+            case 'usageEvent': {
+                const usage = data.usageEvent ?? data;
+                transcript.lastUsage = {
+                    totalInputTokens: usage.totalInputTokens,
+                    totalOutputTokens: usage.totalOutputTokens,
+                    totalTokens: usage.totalTokens,
+                    details: usage.details?.total
+                };
+                transcript.usageDirty = true;
+                break;
+            }
+
+            case 'sessionRollover':
+                this.write(transcript, { type: 'rollover', generation: data.generation });
+                break;
+
+            case 'error':
+                this.write(transcript, { type: 'error', message: String(data?.message ?? data?.details ?? 'Unknown error') });
+                break;
+
+            case 'sessionEnd':
+                this.writeUsage(transcript);
+                this.write(transcript, { type: 'sessionEnd', reason: data?.reason });
+                this.active.delete(sessionId);
+                break;
+        }
+    }
+
+    private start(sessionId: string, data: any): void {
+        const startedAt = Date.now();
+        const transcript: ActiveTranscript = {
+            id: `${startedAt}-${sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}`,
+            startedAt,
+            contents: new Map(),
+            usageDirty: false
+        };
+        this.active.set(sessionId, transcript);
+        this.write(transcript, {
+            type: 'sessionStart',
+            sessionId,
+            region: data?.region,
+            enabledTools: data?.enabledTools,
+            metadata: data?.metadata
+        });
+    }
+
+    private endTextContent(transcript: ActiveTranscript, contentId: string, stopReason: string | undefined, now: number): void {
+        const content = transcript.contents.get(contentId);
+        if (!content) return;
+        transcript.contents.delete(contentId);
+
+        const text = content.text.join('').trim();
+        const role = content.role === 'ASSISTANT' ? 'ASSISTANT' : 'USER';
+        if (!text || (role === 'ASSISTANT' && content.generationStage === 'SPECULATIVE')) return;
+
+        let startMs = content.startMs;
+        let endMs = now;
+        if (role === 'ASSISTANT' && transcript.assistantAudio) {
+            startMs = transcript.assistantAudio.startMs;
+            endMs = transcript.assistantAudio.endMs ?? now;
+            transcript.assistantAudio = undefined;
+        }
+
+        this.write(transcript, {
+            type: 'message',
+            role,
+            content: text,
+            startMs,
+            endMs,
+            interrupted: stopReason === 'INTERRUPTED' || undefined
+        });
+
+        // Usage totals are cumulative; persist them once per assistant turn
+        if (role === 'ASSISTANT') {
+            this.writeUsage(transcript);
+        }
+    }
+
+    private writeUsage(transcript: ActiveTranscript): void {
+        if (!transcript.lastUsage || !transcript.usageDirty) return;
+        transcript.usageDirty = false;
+        this.write(transcript, { type: 'usage', ...transcript.lastUsage });
+    }
+
+    private write(transcript: ActiveTranscript, entry: EntryInput): void {
+        const now = Date.now();
+        void this.store.append(transcript.id, {
+            ...entry,
+            timestamp: new Date(now).toISOString(),
+            offsetMs: now - transcript.startedAt
+        } as TranscriptEntry);
+    }
+}
@@ -0,0 +1,114 @@
+/**
+ * TranscriptStore - Conversation transcripts as JSONL files on local disk
+ *
+ * One file per session (<id>.jsonl) in TRANSCRIPTS_DIR (default data/transcripts).
+ * Appends are serialized per transcript so entries stay in order.
+ */
+import fs from 'fs';
+import path from 'path';
+import { TranscriptEntry, TranscriptSummary } from './types';
+import { logger, redactIfEnabled } from '../logging';
+
+const log = logger.child({ component: 'Transcripts' });
+
+export const DEFAULT_TRANSCRIPTS_DIR = path.join(process.cwd(), 'data', 'transcripts');
+
+const TRANSCRIPT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function isValidTranscriptId(id: string): boolean {
+    return TRANSCRIPT_ID_PATTERN.test(id);
+}
+
+export function summarize(id: string, entries: TranscriptEntry[]): TranscriptSummary {
+    const start = entries.find(e => e.type === 'sessionStart');
+    const end = entries.find(e => e.type === 'sessionEnd');
+    const usage = [...entries].reverse().find(e => e.type === 'usage');
+
+    return {
+        id,
+        sessionId: start?.type === 'sessionStart' ? start.sessionId : id,
+        startedAt: start?.timestamp ?? entries[0]?.timestamp ?? '',
+        endedAt: end?.timestamp,
+        durationMs: end?.offsetMs,
+        region: start?.type === 'sessionStart' ? start.region : undefined,
+        metadata: start?.type === 'sessionStart' ? start.metadata : undefined,
+        messageCount: entries.filter(e => e.type === 'message').length,
+        toolCallCount: entries.filter(e => e.type === 'toolUse').length,
+        totalTokens: usage?.type === 'usage' ? usage.totalTokens : undefined
+    };
+}
+
+export class TranscriptStore {
+    private writes = new Map<string, Promise<void>>();
+
+    constructor(readonly dir: string = process.env.TRANSCRIPTS_DIR || DEFAULT_TRANSCRIPTS_DIR) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    append(id: string, entry: TranscriptEntry): Promise<void> {
+        const previous = this.writes.get(id) ?? Promise.resolve();
+        const write = previous
+            .then(() => fs.promises.appendFile(this.filePath(id), JSON.stringify(redactIfEnabled(entry)) + '\n'))
+            .catch(error => log.error('Failed to write transcript', { transcriptId: id, error }));
+
+        this.writes.set(id, write);
+        // Drop the chain once it's idle so finished transcripts don't accumulate
+        write.then(() => {
+            if (this.writes.get(id) === write) this.writes.delete(id);
+        });
+        return write;
+    }
+
+    /**
+     * Most recent transcripts first, only the tenant's if `tenant` is given
+     */
+    async list(limit = 50, tenant?: string): Promise<TranscriptSummary[]> {
+        const files = (await fs.promises.readdir(this.dir))
+            .filter(file => file.endsWith('.jsonl'))
+            .sort()
+            .reverse();
+
+        const summaries: TranscriptSummary[] = [];
+        for (const file of files) {
+            if (summaries.length >= limit) break;
+            const id = path.basename(file, '.jsonl');
+            const entries = await this.get(id);
+            if (!entries) continue;
+            const summary = summarize(id, entries);
+            if (tenant === undefined || summary.metadata?.tenant === tenant) summaries.push(summary);
+        }
+        return summaries;
+    }
+
+    async get(id: string): Promise<TranscriptEntry[] | undefined> {
+        if (!isValidTranscriptId(id)) return undefined;
+
+        let text: string;
+        try {
+            text = await fs.promises.readFile(this.filePath(id), 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+            throw error;
+        }
+
+        const entries: TranscriptEntry[] = [];
+        for (const line of text.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // A line cut short by a crash; keep the rest of the transcript
+            }
+        }
+        return entries;
+    }
+
+    /** Wait for pending writes, e.g. before shutdown */
+    async flush(): Promise<void> {
+        await Promise.all(this.writes.values());
+    }
+
+    private filePath(id: string): string {
+        return path.join(this.dir, `${id}.jsonl`);
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * Transcript export formats: plain text and SRT-style timestamped captions
+ */
+import { MessageEntry, TranscriptEntry } from './types';
+
+export type TranscriptExportFormat = 'json' | 'text' | 'srt';
+
+export const TRANSCRIPT_EXPORT_FORMATS: TranscriptExportFormat[] = ['json', 'text', 'srt'];
+
+// Captions shorter than this are hard to read
+const MIN_CAPTION_MS = 1000;
+
+function speaker(role: MessageEntry['role']): string {
+    return role === 'USER' ? 'User' : 'Assistant';
+}
+
+function clock(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+function srtTime(ms: number): string {
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor((ms % 3600000) / 60000);
+    const seconds = Math.floor((ms % 60000) / 1000);
+    const millis = Math.floor(ms % 1000);
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')},${String(millis).padStart(3, '0')}`;
+}
+
+function summarizeValue(value: unknown, maxLength = 200): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text && text.length > maxLength ? `${text.substring(0, maxLength)}…` : text ?? '';
+}
+
+/**
+ * Readable transcript: one line per turn, tool call and notable event
+ */
+export function toPlainText(entries: TranscriptEntry[]): string {
+    const lines: string[] = [];
+    for (const entry of entries) {
+        const at = `[${clock(entry.offsetMs)}]`;
+        switch (entry.type) {
+            case 'sessionStart':
+                lines.push(`Session ${entry.sessionId} started ${entry.timestamp}`);
+                break;
+            case 'message':
+                lines.push(`[${clock(entry.startMs)}] ${speaker(entry.role)}: ${entry.content}${entry.interrupted ? ' [interrupted]' : ''}`);
+                break;
+            case 'toolUse':
+                lines.push(`${at} Tool call ${entry.toolName}(${summarizeValue(entry.input)})`);
+                break;
+            case 'toolResult':
+                lines.push(`${at} Tool ${entry.error ? 'error' : 'result'} ${entry.toolName}${entry.executionTimeMs !== undefined ? ` (${entry.executionTimeMs}ms)` : ''}: ${summarizeValue(entry.result)}`);
+                break;
+            case 'bargeIn':
+                lines.push(`${at} -- caller interrupted --`);
+                break;
+            case 'error':
+                lines.push(`${at} Error: ${entry.message}`);
+                break;
+            case 'sessionEnd':
+                lines.push(`Session ended ${entry.timestamp}${entry.reason ? ` (${entry.reason})` : ''}`);
+                break;
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * SRT captions from the conversation turns, timed relative to the session start
+ */
+export function toSrt(entries: TranscriptEntry[]): string {
+    const messages = entries.filter((e): e is MessageEntry => e.type === 'message');
+    return messages.map((message, index) => {
+        const start = message.startMs;
+        const next = messages[index + 1]?.startMs;
+        let end = Math.max(message.endMs, start + MIN_CAPTION_MS);
+        // Don't let a padded caption run into the next one
+        if (next !== undefined && next > start && end > next) end = next;
+        return `${index + 1}\n${srtTime(start)} --> ${srtTime(end)}\n${speaker(message.role)}: ${message.content}\n`;
+    }).join('\n');
+}
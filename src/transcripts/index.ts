@@ -0,0 +1,8 @@
+/**
+ * Conversation transcript recording, storage and export
+ */
+export type { TranscriptEntry, TranscriptSummary, MessageEntry } from './types';
+export { TranscriptStore, DEFAULT_TRANSCRIPTS_DIR, isValidTranscriptId, summarize } from './TranscriptStore';
+export { TranscriptRecorder } from './TranscriptRecorder';
+export { toPlainText, toSrt, TRANSCRIPT_EXPORT_FORMATS } from './export';
+export type { TranscriptExportFormat } from './export';
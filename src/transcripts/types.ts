@@ -0,0 +1,96 @@
+/**
+ * Transcript entry types, one JSON object per line in a transcript file
+ */
+
+interface EntryBase {
+    /** Wall-clock time the entry was recorded (ISO 8601) */
+    timestamp: string;
+    /** Milliseconds since the session started */
+    offsetMs: number;
+}
+
+export interface SessionStartEntry extends EntryBase {
+    type: 'sessionStart';
+    sessionId: string;
+    region?: string;
+    enabledTools?: string[];
+    metadata?: Record<string, string>;
+}
+
+export interface MessageEntry extends EntryBase {
+    type: 'message';
+    role: 'USER' | 'ASSISTANT';
+    content: string;
+    /** Span of the turn (for assistant turns, the span of the spoken audio when known) */
+    startMs: number;
+    endMs: number;
+    interrupted?: boolean;
+}
+
+export interface ToolUseEntry extends EntryBase {
+    type: 'toolUse';
+    toolUseId: string;
+    toolName: string;
+    input: unknown;
+}
+
+export interface ToolResultEntry extends EntryBase {
+    type: 'toolResult';
+    toolUseId: string;
+    toolName: string;
+    result: unknown;
+    executionTimeMs?: number;
+    error?: boolean;
+}
+
+export interface UsageEntry extends EntryBase {
+    type: 'usage';
+    totalInputTokens?: number;
+    totalOutputTokens?: number;
+    totalTokens?: number;
+    details?: unknown;
+}
+
+export interface BargeInEntry extends EntryBase {
+    type: 'bargeIn';
+}
+
+export interface RolloverEntry extends EntryBase {
+    type: 'rollover';
+    generation: number;
+}
+
+export interface ErrorEntry extends EntryBase {
+    type: 'error';
+    message: string;
+}
+
+export interface SessionEndEntry extends EntryBase {
+    type: 'sessionEnd';
+    reason?: string;
+}
+
+export type TranscriptEntry =
+    | SessionStartEntry
+    | MessageEntry
+    | ToolUseEntry
+    | ToolResultEntry
+    | UsageEntry
+    | BargeInEntry
+    | RolloverEntry
+    | ErrorEntry
+    | SessionEndEntry;
+
+export interface TranscriptSummary {
+    /** Transcript ID ("<start time>-<session ID>"); a session ID can be reused by a new chat */
+    id: string;
+    sessionId: string;
+    startedAt: string;
+    endedAt?: string;
+    durationMs?: number;
+    region?: string;
+    metadata?: Record<string, string>;
+    messageCount: number;
+    toolCallCount: number;
+    totalTokens?: number;
+}
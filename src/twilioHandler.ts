@@ -0,0 +1,126 @@
+/**
+ * Twilio Media Streams Handler for Telephony Integration
+ * Handles bidirectional audio streaming between Twilio and Nova Sonic
+ *
+ * Twilio streams G.711 μ-law at 8kHz, base64 encoded, in both directions. Point a
+ * <Connect><Stream url="wss://<host>/twilio"> at this server; <Parameter> elements arrive
+ * as start.customParameters and route the call (voiceId, systemPrompt, enabledTools). Twilio
+ * can't add headers or a query string, so with auth on the apiKey or token <Parameter> holds
+ * the credentials.
+ */
+
+import http from 'http';
+import { NovaSonicBidirectionalStreamClient } from './client';
+import { PersonaStore } from './personas';
+import { AdmissionController } from './admission';
+import { AuthService } from './auth';
+import { UsageTracker } from './usage';
+import { MediaFrame, TelephonyCall, TelephonyConnection, TelephonyWebSocketHandler } from './telephonyTransport';
+
+interface TwilioMessage {
+    event: string;
+    sequenceNumber?: string;
+    streamSid?: string;
+    start?: {
+        streamSid: string;
+        callSid?: string;
+        accountSid?: string;
+        tracks?: string[];
+        customParameters?: Record<string, string>;
+        mediaFormat?: {
+            encoding: string;
+            sampleRate: number;
+            channels: number;
+        };
+    };
+    media?: {
+        track?: string;
+        chunk?: string;
+        timestamp?: string;
+        payload: string; // base64 encoded μ-law audio
+    };
+    mark?: {
+        name: string;
+    };
+    stop?: {
+        callSid?: string;
+    };
+}
+
+export class TwilioMediaStreamHandler extends TelephonyWebSocketHandler {
+    constructor(server: http.Server, bedrockClient: NovaSonicBidirectionalStreamClient, personas: PersonaStore, auth: AuthService, admission?: AdmissionController, usage?: UsageTracker) {
+        super(server, bedrockClient, personas, {
+            name: 'Twilio',
+            path: '/twilio',
+            audioFormat: { encoding: 'mulaw', sampleRate: 8000, channels: 1 },
+            // 20ms of 8kHz μ-law; 100ms per message
+            frameUnitBytes: 160,
+            framesPerChunk: 5,
+            systemPrompt: process.env.TWILIO_SYSTEM_PROMPT,
+            persona: process.env.TWILIO_PERSONA
+        }, auth, admission, usage);
+    }
+
+    protected async handleMessage(connection: TelephonyConnection, message: TwilioMessage): Promise<void> {
+        this.checkSequence(connection, message.sequenceNumber);
+
+        switch (message.event) {
+            case 'connected':
+                this.log.info('Stream connected');
+                break;
+
+            case 'start': {
+                const start = message.start;
+                if (start?.mediaFormat && start.mediaFormat.encoding !== 'audio/x-mulaw') {
+                    this.log.warn(`Unexpected media format ${start.mediaFormat.encoding}`);
+                }
+                await this.startCall(connection, {
+                    streamSid: start?.streamSid || message.streamSid || `twilio-${Date.now()}`,
+                    callSid: start?.callSid,
+                    from: start?.customParameters?.from,
+                    to: start?.customParameters?.to,
+                    customParameters: start?.customParameters
+                });
+                break;
+            }
+
+            case 'media':
+                // Only the caller's track is forwarded to the model
+                if (!message.media?.track || message.media.track === 'inbound') {
+                    await this.receiveAudio(connection, message.media?.payload ?? '');
+                }
+                break;
+
+            case 'mark':
+                // Sent when playback reaches a mark, and for every pending mark after a clear
+                if (message.mark?.name) {
+                    this.markPlayed(connection, message.mark.name);
+                }
+                break;
+
+            case 'dtmf':
+                break;
+
+            case 'stop':
+                this.log.info('Call ended', { sessionId: connection.call?.info.streamSid });
+                await this.endCall(connection);
+                connection.ws.close();
+                break;
+
+            default:
+                this.log.debug(`Unknown event: ${message.event}`);
+        }
+    }
+
+    protected buildMediaMessage(call: TelephonyCall, frame: MediaFrame): object {
+        return { event: 'media', streamSid: call.info.streamSid, media: { payload: frame.payload } };
+    }
+
+    protected buildMarkMessage(call: TelephonyCall, name: string): object {
+        return { event: 'mark', streamSid: call.info.streamSid, mark: { name } };
+    }
+
+    protected buildClearMessage(call: TelephonyCall): object {
+        return { event: 'clear', streamSid: call.info.streamSid };
+    }
+}
@@ -43,6 +43,32 @@ export interface AudioConfiguration {
   readonly voiceId?: string;
 }
 
+export type AudioEncoding = "pcm16" | "mulaw" | "alaw";
+
+/**
+ * Native audio format of a transport (browser, telephony carrier, ...).
+ * pcm16 is signed 16-bit little-endian; multi-channel audio is interleaved.
+ */
+export interface AudioFormat {
+  readonly encoding: AudioEncoding;
+  readonly sampleRate: number;
+  readonly channels: number;
+}
+
+/**
+ * Formats a session's transport sends (input) and expects back (output).
+ * Audio is converted to/from Nova Sonic's LPCM formats when set.
+ */
+export interface SessionAudioFormat {
+  readonly input?: AudioFormat;
+  readonly output?: AudioFormat;
+}
+
+export interface RecordingOptions {
+  readonly enabled: boolean;
+  readonly mixedMono: boolean;
+}
+
 export interface TextConfiguration {
   readonly mediaType: TextMediaType;
 }
@@ -54,3 +80,16 @@ export interface ToolConfiguration {
     readonly mediaType: "text/plain";
   };
 }
+
+export interface RolloverConfig {
+  readonly enabled: boolean;
+  readonly rolloverAfterMs: number;
+  readonly forceRolloverAfterMs: number;
+  readonly maxHistoryMessages: number;
+  readonly maxHistoryChars: number;
+}
+
+export interface ConversationMessage {
+  readonly role: "USER" | "ASSISTANT";
+  readonly content: string;
+}
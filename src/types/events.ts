@@ -1,6 +1,7 @@
 /**
  * Event type definitions for Nova Sonic bidirectional streaming
  */
+import type { TurnMetrics } from '../metrics/TurnTracker';
 
 // Content types
 export type ContentType = 'TEXT' | 'AUDIO' | 'TOOL';
@@ -23,6 +24,11 @@ export interface SessionEndEvent {
     // Empty object signals session end
 }
 
+// The StreamSession has ended and will emit nothing more
+export interface SessionClosedEvent {
+    reason: 'closed' | 'error' | 'forceClosed';
+}
+
 // Content events
 export interface ContentStartEvent {
     promptName: string;
@@ -44,6 +50,28 @@ export interface ContentEndEvent {
     stopReason?: StopReason;
 }
 
+// Content blocks of the model's response
+export interface ContentStartOutputEvent {
+    contentId: string;
+    type: ContentType;
+    role: Role;
+    additionalModelFields?: string; // JSON string with generationStage etc.
+    textOutputConfiguration?: {
+        mediaType: 'text/plain';
+    };
+    audioOutputConfiguration?: Partial<AudioOutputConfiguration> & { encoding?: string };
+    toolUseOutputConfiguration?: {
+        mediaType: 'application/json';
+    };
+}
+
+export interface ContentEndOutputEvent {
+    contentId: string;
+    type: ContentType;
+    role?: Role;
+    stopReason?: StopReason;
+}
+
 // Audio events
 export interface AudioInputConfiguration {
     audioType: 'SPEECH';
@@ -73,6 +101,7 @@ export interface TextInputEvent {
 export interface TextOutputEvent {
     role: Role;
     content: string;
+    contentId?: string;
 }
 
 // Audio events
@@ -83,7 +112,8 @@ export interface AudioInputEvent {
 }
 
 export interface AudioOutputEvent {
-    content: string; // Base64 encoded audio
+    content: string; // Base64 encoded audio, in the session's audio format
+    contentId?: string;
 }
 
 // Tool events
@@ -91,11 +121,22 @@ export interface ToolUseEvent {
     toolUseId: string;
     toolName: string;
     content?: string; // JSON string of tool parameters
+    contentId?: string;
+}
+
+// A toolUse's content has ended, so the tool runs now
+export interface ToolEndEvent {
+    toolUseId: string;
+    toolName: string;
+    toolUseContent: ToolUseEvent;
 }
 
 export interface ToolResultEvent {
     toolUseId: string;
+    toolName?: string;
     result: unknown;
+    executionTimeMs?: number;
+    error?: boolean;
 }
 
 // Prompt events
@@ -125,10 +166,11 @@ export interface PromptEndEvent {
 
 // Error events
 export interface StreamErrorEvent {
-    type: 'modelStreamErrorException' | 'internalServerException' | 'error';
-    source?: string;
+    type?: 'modelStreamErrorException' | 'internalServerException' | string;
+    source: 'responseStream' | 'bidirectionalStream';
     message?: string;
-    details?: unknown;
+    details?: string;
+    error?: unknown;
 }
 
 // Barge-in event
@@ -136,39 +178,103 @@ export interface BargeInEvent {
     interrupted: boolean;
 }
 
-// Usage event
+// Usage event (running totals for the current stream)
+export interface TokenCounts {
+    speechTokens?: number;
+    textTokens?: number;
+}
+
 export interface UsageEvent {
-    inputTokens?: number;
-    outputTokens?: number;
+    totalInputTokens?: number;
+    totalOutputTokens?: number;
+    totalTokens?: number;
+    details?: {
+        delta?: { input?: TokenCounts; output?: TokenCounts };
+        total?: { input?: TokenCounts; output?: TokenCounts };
+    };
+}
+
+// Tokens of a model a tool called (reasoning, transcript correction, knowledge base)
+export interface ToolUsageEvent {
+    toolName: string;
+    modelId: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Counted from text length because the API doesn't report usage */
+    estimated?: boolean;
 }
 
-// Completion event
+// Completion events
 export interface CompletionStartEvent {
     // Signals completion phase started
 }
 
+export interface CompletionEndEvent {
+    stopReason?: StopReason;
+}
+
 // Stream complete event
 export interface StreamCompleteEvent {
     timestamp: string;
 }
 
+// Session rollover event (successor stream took over)
+export interface SessionRolloverEvent {
+    generation: number;
+    historyMessages: number;
+    timestamp: string;
+}
+
+// The stream failed in one region and started over in another
+export interface RegionFailoverEvent {
+    from: string;
+    to: string;
+    error: string;
+}
+
+// A finished turn's latency breakdown
+export interface TurnMetricsEvent extends TurnMetrics {
+    region: string;
+    voiceId: string;
+    source?: string;
+    persona?: string;
+}
+
 /**
- * Union type of all possible events from Nova Sonic
+ * Payload of each event a StreamSession emits. Nova's usageEvent, completionStart and
+ * completionEnd are passed on as received, still wrapped in their event key. Other Nova
+ * events keep their own name (untyped), and a response without an event is `unknown`.
  */
-export type NovaSonicEvent =
-    | { type: 'sessionStart'; data: SessionStartEvent }
-    | { type: 'sessionEnd'; data: SessionEndEvent }
-    | { type: 'contentStart'; data: ContentStartEvent }
-    | { type: 'contentEnd'; data: ContentEndEvent }
-    | { type: 'textOutput'; data: TextOutputEvent }
-    | { type: 'audioOutput'; data: AudioOutputEvent }
-    | { type: 'toolUse'; data: ToolUseEvent }
-    | { type: 'toolResult'; data: ToolResultEvent }
-    | { type: 'bargeIn'; data: BargeInEvent }
-    | { type: 'error'; data: StreamErrorEvent }
-    | { type: 'streamComplete'; data: StreamCompleteEvent }
-    | { type: 'usageEvent'; data: UsageEvent }
-    | { type: 'completionStart'; data: CompletionStartEvent };
+export interface SessionEventMap {
+    contentStart: ContentStartOutputEvent;
+    contentEnd: ContentEndOutputEvent;
+    textOutput: TextOutputEvent;
+    audioOutput: AudioOutputEvent;
+    toolUse: ToolUseEvent;
+    toolEnd: ToolEndEvent;
+    toolResult: ToolResultEvent;
+    toolUsage: ToolUsageEvent;
+    bargeIn: BargeInEvent;
+    error: StreamErrorEvent;
+    streamComplete: StreamCompleteEvent;
+    usageEvent: { usageEvent: UsageEvent };
+    completionStart: { completionStart: CompletionStartEvent };
+    completionEnd: { completionEnd: CompletionEndEvent };
+    turnMetrics: TurnMetricsEvent;
+    sessionRollover: SessionRolloverEvent;
+    regionFailover: RegionFailoverEvent;
+    sessionEnd: SessionClosedEvent;
+    unknown: Record<string, unknown>;
+}
+
+export type SessionEventType = keyof SessionEventMap;
+
+/**
+ * Union type of all possible events from a StreamSession
+ */
+export type NovaSonicEvent = {
+    [K in SessionEventType]: { type: K; data: SessionEventMap[K] }
+}[SessionEventType];
 
 /**
  * Event handler type for session events
@@ -176,22 +282,10 @@ export type NovaSonicEvent =
 export type EventHandler<T = unknown> = (data: T) => void;
 
 /**
- * Map of event types to their handler signatures
+ * Map of event types to their handler signatures; `any` handlers see every event
  */
-export interface EventHandlerMap {
-    sessionStart: EventHandler<SessionStartEvent>;
-    sessionEnd: EventHandler<SessionEndEvent>;
-    contentStart: EventHandler<ContentStartEvent>;
-    contentEnd: EventHandler<ContentEndEvent>;
-    textOutput: EventHandler<TextOutputEvent>;
-    audioOutput: EventHandler<AudioOutputEvent>;
-    toolUse: EventHandler<ToolUseEvent>;
-    toolResult: EventHandler<ToolResultEvent>;
-    toolEnd: EventHandler<{ toolUseContent: unknown; toolUseId: string; toolName: string }>;
-    bargeIn: EventHandler<BargeInEvent>;
-    error: EventHandler<StreamErrorEvent>;
-    streamComplete: EventHandler<StreamCompleteEvent>;
-    usageEvent: EventHandler<UsageEvent>;
-    completionStart: EventHandler<CompletionStartEvent>;
+export type EventHandlerMap = {
+    [K in SessionEventType]: EventHandler<SessionEventMap[K]>
+} & {
     any: EventHandler<NovaSonicEvent>;
-}
+};
@@ -0,0 +1,385 @@
+/**
+ * UsageTracker - Token usage and estimated cost per session, tenant and day
+ *
+ * Attached to each client, it counts Nova Sonic's speech and text tokens from
+ * usageEvent (running totals per stream, restarting on rollover) and the tokens of
+ * models that tools call from toolUsage. Cost comes from the price table. A session
+ * counts towards the UTC day it started; ended sessions are appended to one file per
+ * day (usage-YYYY-MM-DD.jsonl) in USAGE_DIR (default data/usage), from which today's
+ * totals are restored on startup.
+ *
+ * Budgets are checked after every update: crossing a soft budget warns once and a
+ * hard one asks the server to end the session (or every session of the tenant, for
+ * the daily budget).
+ */
+import fs from 'fs';
+import path from 'path';
+import { NovaSonicBidirectionalStreamClient } from '../client';
+import { NovaSonicModelId } from '../consts';
+import { logger } from '../logging';
+import { PriceTable, TokenPrice, loadPriceTable, priceFor } from './pricing';
+
+const log = logger.child({ component: 'Usage' });
+
+export const DEFAULT_USAGE_DIR = path.join(process.cwd(), 'data', 'usage');
+
+// Tenant of sessions without one, e.g. telephony calls
+export const NO_TENANT = '(none)';
+
+export interface TokenUsage {
+    inputSpeech: number;
+    inputText: number;
+    outputSpeech: number;
+    outputText: number;
+}
+
+export interface ModelUsage extends TokenUsage {
+    cost: number;
+    /** Some of the tokens were estimated from text length */
+    estimated?: boolean;
+}
+
+export interface UsageTotals extends TokenUsage {
+    cost: number;
+    /** By model ID */
+    models: Record<string, ModelUsage>;
+}
+
+export interface SessionUsage extends UsageTotals {
+    sessionId: string;
+    tenant: string;
+    source?: string;
+    startedAt: string;
+    endedAt?: string;
+}
+
+export interface DailyUsage extends UsageTotals {
+    /** YYYY-MM-DD (UTC) */
+    day: string;
+    tenant: string;
+    sessions: number;
+}
+
+export interface Budget {
+    soft?: number;
+    hard?: number;
+}
+
+/** Spending limits in the price table's currency */
+export interface UsageBudgets {
+    /** Per session */
+    session?: Budget;
+    /** Per tenant per UTC day */
+    daily?: Budget;
+}
+
+export interface BudgetEvent {
+    sessionId: string;
+    tenant: string;
+    scope: 'session' | 'daily';
+    level: 'soft' | 'hard';
+    spent: number;
+    limit: number;
+    currency: string;
+}
+
+export interface UsageTrackerOptions {
+    dir: string;
+    prices: PriceTable;
+    /** Budgets of a tenant (NO_TENANT for sessions without one) */
+    budgetsFor: (tenant: string) => UsageBudgets | undefined;
+    /** A session crossed a budget; called once per session, scope and level */
+    onBudget: (event: BudgetEvent) => void;
+}
+
+export function usageOptionsFromEnv(): Pick<UsageTrackerOptions, 'dir' | 'prices'> {
+    return {
+        dir: process.env.USAGE_DIR || DEFAULT_USAGE_DIR,
+        prices: loadPriceTable()
+    };
+}
+
+/** Budgets for tenants without their own */
+export function budgetsFromEnv(): UsageBudgets {
+    const amount = (name: string) => {
+        const value = parseFloat(process.env[name] || '');
+        return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+    return {
+        session: { soft: amount('SESSION_BUDGET_SOFT'), hard: amount('SESSION_BUDGET_HARD') },
+        daily: { soft: amount('DAILY_BUDGET_SOFT'), hard: amount('DAILY_BUDGET_HARD') }
+    };
+}
+
+interface SessionRecord {
+    usage: SessionUsage;
+    day: string;
+    // Running totals of the current stream, which restart on rollover
+    streamTotals: Partial<TokenUsage>;
+    // "scope.level" of budgets already crossed
+    crossed: Set<string>;
+}
+
+const TOKEN_KEYS: Array<keyof TokenUsage> = ['inputSpeech', 'inputText', 'outputSpeech', 'outputText'];
+
+function emptyTotals(): UsageTotals {
+    return { inputSpeech: 0, inputText: 0, outputSpeech: 0, outputText: 0, cost: 0, models: {} };
+}
+
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+// Add `from` into `into`, model by model
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+    for (const key of TOKEN_KEYS) into[key] += from[key];
+    into.cost += from.cost;
+    for (const [modelId, model] of Object.entries(from.models)) {
+        const target = into.models[modelId] ??= { inputSpeech: 0, inputText: 0, outputSpeech: 0, outputText: 0, cost: 0 };
+        for (const key of TOKEN_KEYS) target[key] += model[key];
+        target.cost += model.cost;
+        if (model.estimated) target.estimated = true;
+    }
+}
+
+export class UsageTracker {
+    private sessions = new Map<string, SessionRecord>();
+    // Ended sessions' totals for today, by tenant
+    private endedToday = new Map<string, DailyUsage>();
+    private unpricedModels = new Set<string>();
+    private write: Promise<void> = Promise.resolve();
+
+    constructor(private readonly options: UsageTrackerOptions) {
+        fs.mkdirSync(this.options.dir, { recursive: true });
+        this.restoreToday().catch(error => log.error('Failed to restore today\'s usage', { error }));
+    }
+
+    get currency(): string {
+        return this.options.prices.currency;
+    }
+
+    attach(client: NovaSonicBidirectionalStreamClient): () => void {
+        return client.addSessionEventListener((sessionId, eventType, data) => this.handleEvent(sessionId, eventType, data));
+    }
+
+    getSession(sessionId: string): SessionUsage | undefined {
+        const record = this.sessions.get(sessionId);
+        return record ? structuredClone(record.usage) : undefined;
+    }
+
+    /** Live sessions, optionally of one tenant */
+    listSessions(tenant?: string): SessionUsage[] {
+        return Array.from(this.sessions.values())
+            .filter(record => tenant === undefined || record.usage.tenant === tenant)
+            .map(record => structuredClone(record.usage));
+    }
+
+    /** What the tenant has spent today, live sessions included */
+    spentToday(tenant: string): number {
+        const day = today();
+        let spent = this.endedToday.get(tenant)?.day === day ? this.endedToday.get(tenant)!.cost : 0;
+        for (const record of this.sessions.values()) {
+            if (record.usage.tenant === tenant && record.day === day) spent += record.usage.cost;
+        }
+        return spent;
+    }
+
+    /** Whether the tenant has used up its daily hard budget */
+    isOverDailyBudget(tenant: string): boolean {
+        const limit = this.options.budgetsFor(tenant)?.daily?.hard;
+        return limit !== undefined && this.spentToday(tenant) >= limit;
+    }
+
+    /**
+     * Totals per day and tenant over the last `days` days (today included, live
+     * sessions too), oldest first
+     */
+    async summarize(days = 1, tenant?: string): Promise<DailyUsage[]> {
+        const totals = new Map<string, DailyUsage>();
+        const add = (day: string, usage: SessionUsage) => {
+            if (tenant !== undefined && usage.tenant !== tenant) return;
+            const key = `${day}|${usage.tenant}`;
+            const daily = totals.get(key) ?? { ...emptyTotals(), day, tenant: usage.tenant, sessions: 0 };
+            addTotals(daily, usage);
+            daily.sessions++;
+            totals.set(key, daily);
+        };
+
+        for (let i = days - 1; i >= 0; i--) {
+            const day = new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            for (const usage of await this.read(day)) add(day, usage);
+        }
+        const oldest = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        for (const record of this.sessions.values()) {
+            if (record.day >= oldest) add(record.day, record.usage);
+        }
+        return Array.from(totals.values()).sort((a, b) => a.day.localeCompare(b.day) || b.cost - a.cost);
+    }
+
+    /** Wait for pending writes, e.g. before shutdown */
+    async flush(): Promise<void> {
+        await this.write;
+    }
+
+    private handleEvent(sessionId: string, eventType: string, data: any): void {
+        if (eventType === 'sessionStart') {
+            const tenant = data?.metadata?.tenant ?? NO_TENANT;
+            this.sessions.set(sessionId, {
+                usage: { ...emptyTotals(), sessionId, tenant, source: data?.metadata?.source, startedAt: new Date().toISOString() },
+                day: today(),
+                streamTotals: {},
+                crossed: new Set()
+            });
+            return;
+        }
+
+        const record = this.sessions.get(sessionId);
+        if (!record) return;
+
+        switch (eventType) {
+            case 'usageEvent':
+                if (this.recordStreamUsage(record, data?.usageEvent ?? data)) this.checkBudgets(record);
+                break;
+            case 'toolUsage':
+                this.add(record, data.modelId, { inputText: data.inputTokens ?? 0, outputText: data.outputTokens ?? 0 }, data.estimated);
+                this.checkBudgets(record);
+                break;
+            case 'sessionEnd':
+                this.sessions.delete(sessionId);
+                this.end(record);
+                break;
+        }
+    }
+
+    // Nova Sonic's running totals, advanced by the difference from the previous event
+    private recordStreamUsage(record: SessionRecord, usage: any): boolean {
+        const total = usage?.details?.total;
+        if (!total) return false;
+
+        const current: Partial<TokenUsage> = {
+            inputSpeech: total.input?.speechTokens,
+            inputText: total.input?.textTokens,
+            outputSpeech: total.output?.speechTokens,
+            outputText: total.output?.textTokens
+        };
+        const increments: Partial<TokenUsage> = {};
+        for (const key of TOKEN_KEYS) {
+            const value = current[key];
+            if (typeof value !== 'number') continue;
+            const previous = record.streamTotals[key] ?? 0;
+            // A smaller total means a rollover started a new stream
+            increments[key] = value >= previous ? value - previous : value;
+            record.streamTotals[key] = value;
+        }
+        this.add(record, NovaSonicModelId, increments);
+        return true;
+    }
+
+    private add(record: SessionRecord, modelId: string, tokens: Partial<TokenUsage>, estimated?: boolean): void {
+        const price = priceFor(this.options.prices, modelId);
+        if (!price && !this.unpricedModels.has(modelId)) {
+            this.unpricedModels.add(modelId);
+            log.warn('No price for model, its usage counts as free', { modelId });
+        }
+
+        const costOf = (tokenCount: number, prices: TokenPrice | undefined, modality: 'speech' | 'text') => tokenCount / 1000 * (prices?.[modality] ?? 0);
+        const increment: UsageTotals = { ...emptyTotals(), ...tokens };
+        increment.cost = costOf(increment.inputSpeech, price?.input, 'speech') + costOf(increment.inputText, price?.input, 'text')
+            + costOf(increment.outputSpeech, price?.output, 'speech') + costOf(increment.outputText, price?.output, 'text');
+        const { models: _models, ...modelIncrement } = increment;
+        increment.models[modelId] = estimated ? { ...modelIncrement, estimated } : modelIncrement;
+        addTotals(record.usage, increment);
+    }
+
+    private checkBudgets(record: SessionRecord): void {
+        const { tenant } = record.usage;
+        const budgets = this.options.budgetsFor(tenant);
+        if (!budgets) return;
+
+        this.checkBudget(record, 'session', budgets.session, record.usage.cost);
+        if (budgets.daily && (budgets.daily.soft !== undefined || budgets.daily.hard !== undefined)) {
+            const spent = this.spentToday(tenant);
+            // The tenant's other live sessions share the daily budget
+            for (const other of this.sessions.values()) {
+                if (other.usage.tenant === tenant) this.checkBudget(other, 'daily', budgets.daily, spent);
+            }
+        }
+    }
+
+    private checkBudget(record: SessionRecord, scope: BudgetEvent['scope'], budget: Budget | undefined, spent: number): void {
+        for (const level of ['soft', 'hard'] as const) {
+            const limit = budget?.[level];
+            const key = `${scope}.${level}`;
+            if (limit === undefined || spent < limit || record.crossed.has(key)) continue;
+
+            record.crossed.add(key);
+            const event: BudgetEvent = {
+                sessionId: record.usage.sessionId,
+                tenant: record.usage.tenant,
+                scope,
+                level,
+                spent,
+                limit,
+                currency: this.currency
+            };
+            log.warn(`Session crossed the ${level} ${scope} budget`, { sessionId: event.sessionId, tenant: event.tenant, spent, limit });
+            try {
+                this.options.onBudget(event);
+            } catch (error) {
+                log.error('Error handling budget event', { sessionId: event.sessionId, error });
+            }
+        }
+    }
+
+    private end(record: SessionRecord): void {
+        const usage: SessionUsage = { ...record.usage, endedAt: new Date().toISOString() };
+        if (record.day === today()) {
+            const daily = this.endedToday.get(usage.tenant);
+            const current = daily?.day === record.day ? daily : { ...emptyTotals(), day: record.day, tenant: usage.tenant, sessions: 0 };
+            addTotals(current, usage);
+            current.sessions++;
+            this.endedToday.set(usage.tenant, current);
+        }
+
+        const file = this.filePath(record.day);
+        // Serialized so lines from concurrent sessions never interleave
+        this.write = this.write
+            .then(() => fs.promises.appendFile(file, JSON.stringify(usage) + '\n'))
+            .catch(error => log.error('Failed to write usage', { file, error }));
+    }
+
+    private async read(day: string): Promise<SessionUsage[]> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(this.filePath(day), 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+        const sessions: SessionUsage[] = [];
+        for (const line of text.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                sessions.push(JSON.parse(line));
+            } catch {
+                // A line cut short by a crash
+            }
+        }
+        return sessions;
+    }
+
+    // Today's ended sessions count towards daily budgets after a restart
+    private async restoreToday(): Promise<void> {
+        const day = today();
+        for (const usage of await this.read(day)) {
+            const daily = this.endedToday.get(usage.tenant) ?? { ...emptyTotals(), day, tenant: usage.tenant, sessions: 0 };
+            addTotals(daily, usage);
+            daily.sessions++;
+            this.endedToday.set(usage.tenant, daily);
+        }
+    }
+
+    private filePath(day: string): string {
+        return path.join(this.options.dir, `usage-${day}.jsonl`);
+    }
+}
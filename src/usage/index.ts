@@ -0,0 +1,7 @@
+/**
+ * Token usage, estimated cost and budgets per session, tenant and day
+ */
+export { UsageTracker, usageOptionsFromEnv, budgetsFromEnv, DEFAULT_USAGE_DIR, NO_TENANT } from './UsageTracker';
+export type { TokenUsage, ModelUsage, UsageTotals, SessionUsage, DailyUsage, Budget, UsageBudgets, BudgetEvent, UsageTrackerOptions } from './UsageTracker';
+export { loadPriceTable, priceFor, DEFAULT_PRICE_TABLE, DEFAULT_PRICING_CONFIG_PATH } from './pricing';
+export type { PriceTable, ModelPrice, TokenPrice } from './pricing';
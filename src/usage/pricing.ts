@@ -0,0 +1,70 @@
+/**
+ * Price table for estimating what sessions cost
+ *
+ * Prices are per 1,000 tokens, by direction and modality. Keys match model IDs and
+ * ARNs by substring (the longest matching key wins), so one entry covers a model's
+ * cross-region inference profiles. PRICING_CONFIG_PATH (default config/pricing.json)
+ * adds to or overrides the built-in list prices, which are us-east-1 on-demand.
+ */
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'Usage' });
+
+export const DEFAULT_PRICING_CONFIG_PATH = path.join(process.cwd(), 'config', 'pricing.json');
+
+export interface TokenPrice {
+    speech?: number;
+    text?: number;
+}
+
+export interface ModelPrice {
+    input: TokenPrice;
+    output: TokenPrice;
+}
+
+export interface PriceTable {
+    currency: string;
+    models: Record<string, ModelPrice>;
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    currency: 'USD',
+    models: {
+        'nova-sonic': { input: { speech: 0.0034, text: 0.00006 }, output: { speech: 0.0136, text: 0.00024 } },
+        'nova-2-sonic': { input: { speech: 0.003, text: 0.00033 }, output: { speech: 0.012, text: 0.00275 } },
+        'nova-micro': { input: { text: 0.000035 }, output: { text: 0.00014 } },
+        'nova-lite': { input: { text: 0.00006 }, output: { text: 0.00024 } },
+        'nova-2-lite': { input: { text: 0.0003 }, output: { text: 0.0025 } },
+        'nova-pro': { input: { text: 0.0008 }, output: { text: 0.0032 } },
+        'nova-premier': { input: { text: 0.0025 }, output: { text: 0.0125 } },
+        'claude-sonnet-4': { input: { text: 0.003 }, output: { text: 0.015 } },
+        'claude-3-5-haiku': { input: { text: 0.0008 }, output: { text: 0.004 } }
+    }
+};
+
+export function loadPriceTable(configPath: string = process.env.PRICING_CONFIG_PATH || DEFAULT_PRICING_CONFIG_PATH): PriceTable {
+    if (!fs.existsSync(configPath)) {
+        return DEFAULT_PRICE_TABLE;
+    }
+    try {
+        const parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+        log.info(`Loaded prices from ${configPath}`);
+        return {
+            currency: parsed.currency || DEFAULT_PRICE_TABLE.currency,
+            models: { ...DEFAULT_PRICE_TABLE.models, ...parsed.models }
+        };
+    } catch (error) {
+        throw new Error(`Invalid pricing config ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+/** The price of the longest key contained in the model ID, if any */
+export function priceFor(table: PriceTable, modelId: string): ModelPrice | undefined {
+    const id = modelId.toLowerCase();
+    const key = Object.keys(table.models)
+        .filter(candidate => id.includes(candidate.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return key !== undefined ? table.models[key] : undefined;
+}